@@ -0,0 +1,543 @@
+/**
+ * Functional Acknowledgment Generation
+ *
+ * Builds the acknowledgment a receiver would send back for an inbound
+ * interchange, from the issues found by the document validator.
+ *
+ * X12 997 (or 999 for 005010 and later):
+ *   AK1        functional group acknowledged (GS01, GS06)
+ *   AK2        transaction set acknowledged (ST01, ST02)
+ *   AK3 / IK3  segment in error with its position in the transaction set
+ *   AK4 / IK4  element in error with the data element reference and bad value
+ *   AK5 / IK5  transaction set accepted or rejected
+ *   AK9        functional group totals
+ *
+ * EDIFACT CONTRL:
+ *   UCI        interchange response (UNB05, sender, recipient, action)
+ *   UCM        message response (UNH01, message identifier, action)
+ *   UCS        segment in error with its position in the message
+ *   UCD        data element in error with its position in the segment
+ *
+ * Sender and receiver are swapped from the inbound envelopes.
+ */
+
+import { ValidationSchema } from './documentValidator';
+import { Delimiters, EdiElement, EdiSegment, escapeValue, findComponentIndexAt, findElementIndexAt, findRepetitionAt, findSegmentAt, getElementValue, ParsedEdi } from './parser';
+import { ValidationIssue } from './validators';
+
+export interface AcknowledgmentOptions {
+    controlNumber: number;       // ISA13 / GS06 of the acknowledgment
+    date: Date;                  // ISA09/10 and GS04/05
+}
+
+export interface GeneratedAcknowledgment {
+    type: '997' | '999' | 'CONTRL';
+    text: string;
+    accepted: number;            // Transaction sets/messages accepted
+    rejected: number;            // Transaction sets/messages rejected
+}
+
+interface InboundTransaction {
+    header: EdiSegment;
+    trailer?: EdiSegment;
+    segments: EdiSegment[];      // ST through SE
+}
+
+interface IssueLocation {
+    elementIndex: number;                // 0-based
+    componentPosition: number | null;    // 1-based, for composite issues
+    repetitionPosition: number | null;   // 1-based, for repeated elements
+    value: string;                       // The erroneous value ('' when missing)
+}
+
+interface InboundGroup {
+    header: EdiSegment;
+    trailer?: EdiSegment;
+    transactions: InboundTransaction[];
+}
+
+interface InboundMessage {
+    header: EdiSegment;
+    trailer?: EdiSegment;
+    segments: EdiSegment[];      // UNH through UNT
+}
+
+// AK3/IK3 segment syntax error codes per structure issue
+const SEGMENT_ERROR_CODES: Record<string, string> = {
+    unexpectedSegment: '2',
+    missingSegment: '3',
+    missingLoop: '3',
+    segmentOrder: '7'
+};
+
+/**
+ * Generate the acknowledgment for an X12 interchange. Only issues with
+ * severity "error" are reported.
+ */
+export function generateFunctionalAcknowledgment(
+    parsed: ParsedEdi,
+    issues: ValidationIssue[],
+    schema: ValidationSchema,
+    options: AcknowledgmentOptions
+): GeneratedAcknowledgment {
+    const isa = parsed.segments.find(s => s.id === 'ISA');
+    const groups = collectGroups(parsed);
+    if (!isa || groups.length === 0) {
+        throw new Error('No ISA/GS envelope found to acknowledge');
+    }
+
+    const version = (getElementValue(groups[0].header, 8).trim() || getElementValue(isa, 12).trim() + '0').substring(0, 6);
+    const is999 = version >= '005010';
+    const type = is999 ? '999' : '997';
+
+    // Group the errors by the segment they point at
+    const errorsBySegment = new Map<EdiSegment, ValidationIssue[]>();
+    for (const issue of issues) {
+        const segment = issue.severity === 'error' ? findSegmentAt(parsed, issue.start) : null;
+        if (segment) {
+            const list = errorsBySegment.get(segment) || [];
+            list.push(issue);
+            errorsBySegment.set(segment, list);
+        }
+    }
+
+    const controlNumber = String(options.controlNumber % 1000000000);
+    const output: string[][] = [];
+    let accepted = 0;
+    let rejected = 0;
+
+    output.push(isaSegment(isa, controlNumber.padStart(9, '0'), options.date));
+    output.push(gsSegment(groups[0].header, controlNumber, options.date, is999 ? '005010X231A1' : version));
+
+    groups.forEach((group, index) => {
+        const body: string[][] = [];
+        body.push(['AK1', getElementValue(group.header, 1), getElementValue(group.header, 6), ...(is999 ? [getElementValue(group.header, 8)] : [])]);
+
+        let groupAccepted = 0;
+        for (const transaction of group.transactions) {
+            const transactionErrors = acknowledgeTransaction(transaction, errorsBySegment, schema, is999, parsed.delimiters.component, body);
+            if (transactionErrors) {
+                rejected++;
+            } else {
+                groupAccepted++;
+                accepted++;
+            }
+        }
+
+        // AK905: group-level problems found on GE or a missing GE
+        const groupCodes: string[] = [];
+        if (!group.trailer) {
+            groupCodes.push('3');
+        } else {
+            for (const issue of errorsBySegment.get(group.trailer) || []) {
+                if (issue.code === 'controlNumber') {
+                    groupCodes.push('4');
+                } else if (issue.code === 'count') {
+                    groupCodes.push('5');
+                }
+            }
+        }
+
+        const received = group.transactions.length;
+        const status = groupCodes.length > 0 || groupAccepted === 0 ? 'R' : groupAccepted < received ? 'P' : 'A';
+        const declared = group.trailer ? getElementValue(group.trailer, 1).trim() : '';
+        body.push(['AK9', status, declared || String(received), String(received), String(groupAccepted), ...groupCodes.slice(0, 5)]);
+
+        const transactionControl = String(index + 1).padStart(4, '0');
+        output.push(['ST', type, transactionControl, ...(is999 ? ['005010X231A1'] : [])]);
+        output.push(...body);
+        output.push(['SE', String(body.length + 2), transactionControl]);
+    });
+
+    output.push(['GE', String(groups.length), controlNumber]);
+    output.push(['IEA', '1', controlNumber.padStart(9, '0')]);
+
+    return { type, text: writeSegments(output, parsed.delimiters), accepted, rejected };
+}
+
+/**
+ * Generate the CONTRL message for an EDIFACT interchange. Only issues with
+ * severity "error" are reported.
+ */
+export function generateContrlMessage(
+    parsed: ParsedEdi,
+    issues: ValidationIssue[],
+    options: AcknowledgmentOptions
+): GeneratedAcknowledgment {
+    const unb = parsed.segments.find(s => s.id === 'UNB');
+    if (!unb) {
+        throw new Error('No UNB envelope found to acknowledge');
+    }
+
+    const delimiters = parsed.delimiters;
+    const encode = (...values: string[]) => values.map(v => escapeValue(v, delimiters)).join(delimiters.component);
+    const composite = (element: EdiElement | undefined) => element ? encode(...element.components.map(c => c.value)) : '';
+
+    const errorsBySegment = new Map<EdiSegment, ValidationIssue[]>();
+    for (const issue of issues) {
+        const segment = issue.severity === 'error' ? findSegmentAt(parsed, issue.start) : null;
+        if (segment) {
+            const list = errorsBySegment.get(segment) || [];
+            list.push(issue);
+            errorsBySegment.set(segment, list);
+        }
+    }
+
+    // Interchange-level errors: the UNB itself, the UNZ trailer or a missing UNZ
+    const unz = parsed.segments.find(s => s.id === 'UNZ');
+    const uci = ['UCI', getElementValue(unb, 5), composite(unb.elements[1]), composite(unb.elements[2]), '7'];
+    const unbIssue = (errorsBySegment.get(unb) || []).find(i => contrlErrorCode(i) !== null);
+    const unzIssue = unz ? (errorsBySegment.get(unz) || []).find(i => i.code === 'count' || i.code === 'controlNumber') : undefined;
+    if (unbIssue) {
+        const location = locateIssue(unbIssue, unb);
+        uci.splice(4, 1, '4', contrlErrorCode(unbIssue)!, 'UNB', dataElementPosition(location, delimiters.component));
+    } else if (unzIssue) {
+        uci.splice(4, 1, '4', unzIssue.code === 'count' ? '29' : '28', 'UNZ');
+    } else if (!unz) {
+        uci.splice(4, 1, '4', '13', 'UNZ');
+    }
+
+    const body: string[][] = [uci];
+    let accepted = 0;
+    let rejected = 0;
+
+    for (const message of collectMessages(parsed)) {
+        const responses: string[][] = [];
+        let messageCode = '';
+        if (!message.trailer) {
+            messageCode = '13';
+        }
+
+        message.segments.forEach((segment, index) => {
+            const errors = errorsBySegment.get(segment) || [];
+            if (segment === message.trailer) {
+                // UNT count and reference are message errors, not segment errors
+                const trailerIssue = errors.find(i => i.code === 'count' || i.code === 'controlNumber');
+                if (trailerIssue) {
+                    messageCode = trailerIssue.code === 'count' ? '29' : '28';
+                }
+                return;
+            }
+
+            const elementErrors = errors.filter(i => contrlErrorCode(i) !== null);
+            const segmentError = errors.find(i => i.code === 'unexpectedSegment' || i.code === 'segmentOrder');
+            if (elementErrors.length === 0 && !segmentError) {
+                return;
+            }
+
+            responses.push(segmentError ? ['UCS', String(index + 1), '15'] : ['UCS', String(index + 1)]);
+            for (const issue of elementErrors) {
+                responses.push(['UCD', contrlErrorCode(issue)!, dataElementPosition(locateIssue(issue, segment), delimiters.component)]);
+            }
+        });
+
+        const isRejected = messageCode !== '' || responses.length > 0;
+        const identifier = composite(message.header.elements[1]);
+        body.push(['UCM', getElementValue(message.header, 1), identifier, isRejected ? '4' : '7', ...(messageCode ? [messageCode] : [])]);
+        body.push(...responses);
+        if (isRejected) {
+            rejected++;
+        } else {
+            accepted++;
+        }
+    }
+
+    // CONTRL version follows the syntax version of the inbound interchange
+    const syntaxVersion = unb.elements[0]?.components[1]?.value || '3';
+    const date = syntaxVersion === '4' ? formatDate(options.date) : formatDate(options.date).substring(2);
+    const reference = String(options.controlNumber % 100000000000000);
+
+    const output: string[][] = [];
+    if (parsed.segments[0]?.id === 'UNA') {
+        output.push([`UNA${delimiters.component}${delimiters.element}${delimiters.decimal || '.'}${delimiters.release || '?'}${delimiters.repetition || ' '}`]);
+    }
+    output.push(['UNB', composite(unb.elements[0]), composite(unb.elements[2]), composite(unb.elements[1]), encode(date, formatTime(options.date)), reference]);
+    output.push(['UNH', '1', syntaxVersion === '4' ? encode('CONTRL', '4', '1', 'UN') : encode('CONTRL', 'D', '3', 'UN')]);
+    output.push(...body);
+    output.push(['UNT', String(body.length + 2), '1']);
+    output.push(['UNZ', '1', reference]);
+
+    return { type: 'CONTRL', text: writeSegments(output, delimiters), accepted, rejected };
+}
+
+/**
+ * Write AK2, the AK3/AK4 (IK3/IK4) entries and AK5 (IK5) for one transaction set.
+ * Returns true when the transaction set is rejected.
+ */
+function acknowledgeTransaction(
+    transaction: InboundTransaction,
+    errorsBySegment: Map<EdiSegment, ValidationIssue[]>,
+    schema: ValidationSchema,
+    is999: boolean,
+    component: string,
+    body: string[][]
+): boolean {
+    const header = transaction.header;
+    body.push(['AK2', getElementValue(header, 1), getElementValue(header, 2), ...(is999 && getElementValue(header, 3) ? [getElementValue(header, 3)] : [])]);
+
+    const transactionCodes: string[] = [];
+    let segmentErrors = 0;
+
+    transaction.segments.forEach((segment, index) => {
+        const errors = errorsBySegment.get(segment) || [];
+        if (segment === transaction.trailer) {
+            // SE count and control number are transaction set errors, not segment errors
+            for (const issue of errors) {
+                if (issue.code === 'count') {
+                    transactionCodes.push('4');
+                } else if (issue.code === 'controlNumber') {
+                    transactionCodes.push('3');
+                }
+            }
+        }
+
+        const position = String(index + 1);
+        for (const issue of errors.filter(i => SEGMENT_ERROR_CODES[i.code] || i.code === 'maxUse')) {
+            // Missing segments are reported with their own ID at the position they were expected
+            const missingId = /^([A-Z][A-Z0-9]{1,2})\b/.exec(issue.message)?.[1];
+            const segmentId = issue.code.startsWith('missing') && missingId ? missingId : segment.id;
+            body.push([is999 ? 'IK3' : 'AK3', segmentId, position, '', segmentErrorCode(issue, segment, schema)]);
+            segmentErrors++;
+        }
+
+        const elementErrors = errors.filter(i => elementErrorCode(i) !== null && segment !== transaction.trailer);
+        if (elementErrors.length > 0) {
+            body.push([is999 ? 'IK3' : 'AK3', segment.id, position, '', '8']);
+            for (const issue of elementErrors) {
+                body.push(elementErrorSegment(issue, segment, schema, is999, component));
+            }
+            segmentErrors++;
+        }
+    });
+
+    if (!transaction.trailer) {
+        transactionCodes.push('2');
+    }
+    if (segmentErrors > 0) {
+        transactionCodes.push('5');
+    }
+
+    const rejected = transactionCodes.length > 0;
+    body.push([is999 ? 'IK5' : 'AK5', rejected ? 'R' : 'A', ...transactionCodes.slice(0, 5)]);
+    return rejected;
+}
+
+function segmentErrorCode(issue: ValidationIssue, segment: EdiSegment, schema: ValidationSchema): string {
+    if (issue.code === 'maxUse') {
+        // Loop messages name the loop ("N1 loop: ..."), segment messages the segment ("N1: ...")
+        return issue.message.startsWith(`${segment.id}:`) ? '5' : '4';
+    }
+    if (issue.code === 'unexpectedSegment' && !schema.segments[segment.id]) {
+        return '1';
+    }
+    return SEGMENT_ERROR_CODES[issue.code];
+}
+
+/**
+ * AK403/IK403 data element syntax error code for an element issue
+ */
+function elementErrorCode(issue: ValidationIssue): string | null {
+    switch (issue.code) {
+        case 'mandatory':
+            return '1';
+        case 'syntaxRule':
+            return /Not allowed together/.test(issue.message) ? '10' : '2';
+        case 'length':
+            return /too short/i.test(issue.message) ? '4' : '5';
+        case 'invalidCode':
+            return '7';
+        case 'dataType':
+            if (/date|month|day/i.test(issue.message)) {
+                return '8';
+            }
+            return /time|hour|minute|second/i.test(issue.message) ? '9' : '6';
+        default:
+            return null;
+    }
+}
+
+function elementErrorSegment(issue: ValidationIssue, segment: EdiSegment, schema: ValidationSchema, is999: boolean, component: string): string[] {
+    const location = locateIssue(issue, segment);
+
+    // C030: element position, component position, repetition position
+    const position = [String(location.elementIndex + 1), location.componentPosition ? String(location.componentPosition) : '', location.repetitionPosition ? String(location.repetitionPosition) : ''];
+    while (position.length > 1 && position[position.length - 1] === '') {
+        position.pop();
+    }
+
+    return [
+        is999 ? 'IK4' : 'AK4',
+        position.join(component),
+        schema.segments[segment.id]?.elements?.[location.elementIndex]?.type || '',
+        elementErrorCode(issue)!,
+        location.value.substring(0, 99)
+    ];
+}
+
+/**
+ * Find the element (and component/repetition) an element issue refers to
+ */
+function locateIssue(issue: ValidationIssue, segment: EdiSegment): IssueLocation {
+    // Position from the first label in the message ("N1-04", "DTM-01-02") - also covers
+    // elements missing from the end of the segment
+    const label = new RegExp(`\\b${segment.id}-(\\d{2})(?:-(\\d{2}))?\\b`).exec(issue.message);
+    let elementIndex = label ? parseInt(label[1], 10) - 1 : findElementIndexAt(segment, issue.start);
+    if (elementIndex < 0) {
+        elementIndex = Math.max(0, segment.elements.length - 1);
+    }
+
+    const location: IssueLocation = {
+        elementIndex,
+        componentPosition: label && label[2] ? parseInt(label[2], 10) : null,
+        repetitionPosition: null,
+        value: ''
+    };
+
+    const element = segment.elements[elementIndex];
+    if (element && issue.code !== 'mandatory' && issue.code !== 'syntaxRule') {
+        const repetition = findRepetitionAt(element, issue.start);
+        const componentIndex = findComponentIndexAt(element, issue.start);
+        if (!location.componentPosition && repetition.components.length > 1 && componentIndex >= 0) {
+            location.componentPosition = componentIndex + 1;
+        }
+        if (element.repetitions.length > 1) {
+            location.repetitionPosition = element.repetitions.indexOf(repetition) + 1;
+        }
+        location.value = location.componentPosition && repetition.components.length > 1
+            ? repetition.components[location.componentPosition - 1]?.value || ''
+            : repetition.value;
+    }
+
+    return location;
+}
+
+/**
+ * CONTRL syntax error code (0085) for an element issue
+ */
+function contrlErrorCode(issue: ValidationIssue): string | null {
+    switch (issue.code) {
+        case 'mandatory':
+            return '13';
+        case 'length':
+            return /too short/i.test(issue.message) ? '40' : '39';
+        case 'invalidCode':
+            return '12';
+        case 'dataType':
+            // Impossible dates and times are invalid values, other format errors invalid characters
+            return /date|month|day|time|hour|minute|second/i.test(issue.message) ? '12' : '37';
+        default:
+            return null;
+    }
+}
+
+/**
+ * S011 data element identification: element position, component position
+ */
+function dataElementPosition(location: IssueLocation, component: string): string {
+    return location.componentPosition
+        ? `${location.elementIndex + 1}${component}${location.componentPosition}`
+        : String(location.elementIndex + 1);
+}
+
+function collectMessages(parsed: ParsedEdi): InboundMessage[] {
+    const messages: InboundMessage[] = [];
+    let message: InboundMessage | null = null;
+
+    for (const segment of parsed.segments) {
+        if (segment.id === 'UNH') {
+            message = { header: segment, segments: [segment] };
+            messages.push(message);
+        } else if (message) {
+            message.segments.push(segment);
+            if (segment.id === 'UNT') {
+                message.trailer = segment;
+                message = null;
+            }
+        }
+    }
+
+    return messages;
+}
+
+function collectGroups(parsed: ParsedEdi): InboundGroup[] {
+    const groups: InboundGroup[] = [];
+    let group: InboundGroup | null = null;
+    let transaction: InboundTransaction | null = null;
+
+    for (const segment of parsed.segments) {
+        switch (segment.id) {
+            case 'GS':
+                group = { header: segment, transactions: [] };
+                groups.push(group);
+                transaction = null;
+                break;
+            case 'GE':
+                if (group) {
+                    group.trailer = segment;
+                }
+                group = null;
+                transaction = null;
+                break;
+            case 'ST':
+                transaction = { header: segment, segments: [segment] };
+                if (group) {
+                    group.transactions.push(transaction);
+                }
+                break;
+            case 'SE':
+                if (transaction) {
+                    transaction.segments.push(segment);
+                    transaction.trailer = segment;
+                }
+                transaction = null;
+                break;
+            default:
+                if (transaction) {
+                    transaction.segments.push(segment);
+                }
+        }
+    }
+
+    return groups;
+}
+
+function isaSegment(inbound: EdiSegment, controlNumber: string, date: Date): string[] {
+    const value = (position: number) => getElementValue(inbound, position);
+    return [
+        'ISA',
+        value(1), value(2), value(3), value(4),
+        value(7), value(8), value(5), value(6),   // Receiver becomes sender
+        formatDate(date).substring(2), formatTime(date),
+        value(11), value(12), controlNumber, '0', value(15), value(16)
+    ];
+}
+
+function gsSegment(inbound: EdiSegment, controlNumber: string, date: Date, version: string): string[] {
+    return [
+        'GS', 'FA',
+        getElementValue(inbound, 3), getElementValue(inbound, 2),
+        formatDate(date), formatTime(date),
+        controlNumber, getElementValue(inbound, 7) || 'X', version
+    ];
+}
+
+function writeSegments(segments: string[][], delimiters: Delimiters): string {
+    const separator = delimiters.segment === '\n' ? '' : '\n';
+    return segments.map(values => {
+        // ISA is fixed width - keep every element; elsewhere drop trailing empty ones
+        // (UNA is written as one value holding the whole service string advice)
+        const trimmed = [...values];
+        while (values[0] !== 'ISA' && trimmed.length > 1 && trimmed[trimmed.length - 1] === '') {
+            trimmed.pop();
+        }
+        return trimmed.join(delimiters.element) + delimiters.segment;
+    }).join(separator) + separator;
+}
+
+function formatDate(date: Date): string {
+    return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function formatTime(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}`;
+}
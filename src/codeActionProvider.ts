@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import { loadValidationSchema, resolveElementSchema, validateParsedDocument, ValidationSchema } from './documentValidator';
+import { validateEnvelopes } from './envelopeValidator';
+import { escapeValue, findElementIndexAt, findRepetitionAt, findSegmentAt, parseDocument, ParsedEdi } from './parser';
+import { validateCode, ValidationIssue } from './validators';
+
+interface EdiFix {
+    title: string;
+    start: number;
+    end: number;
+    value: string;           // Raw replacement text (already escaped)
+    preferred: boolean;
+}
+
+// Diagnostic codes with a single mechanical fix, applied by "Fix all in file".
+// Not length: truncating would cut quantities, amounts and names without review.
+const MECHANICAL_CODES = ['count', 'controlNumber', 'isaFormat'];
+
+/**
+ * Provides quick fixes for EDI validation diagnostics:
+ * - invalidCode: replace with a similar valid code
+ * - length: truncate or pad to the allowed size
+ * - count / controlNumber: recompute trailer counts and control numbers
+ * - isaFormat: pad, truncate or normalize a fixed-width ISA field
+ * - Fix all in file for the count, control number and ISA fixes
+ */
+export class EdiCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix,
+        vscode.CodeActionKind.SourceFixAll
+    ];
+
+    constructor(private extensionPath: string) {}
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        _token: vscode.CancellationToken
+    ): vscode.CodeAction[] {
+        const parsed = parseDocument(document);
+        if (!parsed) {
+            return [];
+        }
+        const schema = loadValidationSchema(this.extensionPath, parsed);
+
+        // Source action (e.g. "editor.codeActionsOnSave")
+        if (context.only && vscode.CodeActionKind.SourceFixAll.contains(context.only)) {
+            const fixAll = this.createFixAllAction(document, parsed, schema, vscode.CodeActionKind.SourceFixAll);
+            return fixAll ? [fixAll] : [];
+        }
+
+        const actions: vscode.CodeAction[] = [];
+        let hasMechanical = false;
+        let envelopeIssues: ValidationIssue[] | null = null;
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'EDI Validator' || typeof diagnostic.code !== 'string') {
+                continue;
+            }
+
+            const issue: ValidationIssue = {
+                start: document.offsetAt(diagnostic.range.start),
+                end: document.offsetAt(diagnostic.range.end),
+                code: diagnostic.code,
+                message: diagnostic.message,
+                severity: 'error'
+            };
+
+            // Envelope fixes need the computed counts/control numbers/ISA values
+            if (issue.code === 'count' || issue.code === 'controlNumber' || issue.code === 'isaFormat') {
+                envelopeIssues = envelopeIssues || validateEnvelopes(parsed);
+                const current = envelopeIssues.find(i => i.code === issue.code && i.start === issue.start);
+                if (!current) {
+                    continue;
+                }
+                issue.expected = current.expected;
+            }
+
+            for (const fix of this.getFixes(parsed, schema, issue)) {
+                const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, offsetRange(document, fix.start, fix.end), fix.value);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = fix.preferred;
+                actions.push(action);
+                hasMechanical = hasMechanical || MECHANICAL_CODES.includes(issue.code);
+            }
+        }
+
+        if (hasMechanical) {
+            const fixAll = this.createFixAllAction(document, parsed, schema, vscode.CodeActionKind.QuickFix);
+            if (fixAll) {
+                actions.push(fixAll);
+            }
+        }
+
+        return actions;
+    }
+
+    /**
+     * One edit for every mechanical issue in the document, based on a fresh validation run
+     */
+    private createFixAllAction(
+        document: vscode.TextDocument,
+        parsed: ParsedEdi,
+        schema: ValidationSchema,
+        kind: vscode.CodeActionKind
+    ): vscode.CodeAction | null {
+        const fixes: EdiFix[] = [];
+        for (const issue of validateParsedDocument(parsed, schema)) {
+            if (MECHANICAL_CODES.includes(issue.code)) {
+                const [fix] = this.getFixes(parsed, schema, issue);
+                if (fix) {
+                    fixes.push(fix);
+                }
+            }
+        }
+        if (fixes.length === 0) {
+            return null;
+        }
+
+        // Skip fixes that overlap an earlier one
+        fixes.sort((a, b) => a.start - b.start);
+        const edit = new vscode.WorkspaceEdit();
+        let lastEnd = -1;
+        let count = 0;
+        for (const fix of fixes) {
+            if (fix.start < lastEnd) {
+                continue;
+            }
+            edit.replace(document.uri, offsetRange(document, fix.start, fix.end), fix.value);
+            lastEnd = fix.end;
+            count++;
+        }
+
+        const action = new vscode.CodeAction(`Fix all in file (${count} count, control number and ISA issue(s))`, kind);
+        action.edit = edit;
+        return action;
+    }
+
+    private getFixes(parsed: ParsedEdi, schema: ValidationSchema, issue: ValidationIssue): EdiFix[] {
+        if (issue.code === 'count' || issue.code === 'controlNumber') {
+            // Nothing to replace when the trailer lacks the element altogether
+            const trailer = findSegmentAt(parsed, issue.start);
+            if (issue.expected === undefined || !trailer || trailer.start === issue.start) {
+                return [];
+            }
+            const label = issue.message.split(':')[0];
+            return [{
+                title: `Set ${label} to "${issue.expected}"`,
+                start: issue.start,
+                end: issue.end,
+                value: escapeValue(issue.expected, parsed.delimiters),
+                preferred: true
+            }];
+        }
+
+        if (issue.code === 'isaFormat') {
+            const isa = findSegmentAt(parsed, issue.start);
+            const element = isa ? isa.elements[findElementIndexAt(isa, issue.start)] : undefined;
+            if (issue.expected === undefined || !element) {
+                return [];
+            }
+            const label = issue.message.split(':')[0];
+            return [{
+                title: `Set ${label} to "${issue.expected}"`,
+                start: element.start,
+                end: element.end,
+                value: issue.expected,
+                preferred: true
+            }];
+        }
+
+        if (issue.code !== 'invalidCode' && issue.code !== 'length') {
+            return [];
+        }
+
+        // Locate the element (or component) the diagnostic points at
+        const segment = findSegmentAt(parsed, issue.start);
+        if (!segment) {
+            return [];
+        }
+        const elementIndex = findElementIndexAt(segment, issue.start);
+        if (elementIndex < 0) {
+            return [];
+        }
+        const repetition = findRepetitionAt(segment.elements[elementIndex], issue.start);
+        const componentIndex = Math.max(0, repetition.components.findIndex(c => issue.start >= c.start && issue.start <= c.end));
+        // X12 composites are validated as a whole, EDIFACT composites per component
+        const token = schema.isEdifact && repetition.components.length > 1 ? repetition.components[componentIndex] : repetition;
+
+        const elementSchema = resolveElementSchema(schema, segment.id, elementIndex, componentIndex);
+        if (!elementSchema) {
+            return [];
+        }
+
+        const replace = (title: string, value: string, preferred: boolean): EdiFix => ({
+            title,
+            start: token.start,
+            end: token.end,
+            value: escapeValue(value, parsed.delimiters),
+            preferred
+        });
+
+        if (issue.code === 'invalidCode') {
+            const suggestions = elementSchema.codes ? validateCode(token.value, elementSchema.codes).suggestions || [] : [];
+            return suggestions.map((code, index) => {
+                const description = elementSchema.codes!.find(c => c.code === code)?.description;
+                return replace(`Replace with "${code}"${description ? ` (${description})` : ''}`, code, index === 0);
+            });
+        }
+
+        // Length
+        const value = token.value;
+        if (value.length > elementSchema.maxLength) {
+            return [replace(`Truncate to ${elementSchema.maxLength} characters`, value.substring(0, elementSchema.maxLength), true)];
+        }
+        if (value.length < elementSchema.minLength) {
+            return [replace(`Pad to ${elementSchema.minLength} characters`, padValue(value, elementSchema.minLength, elementSchema.dataType), true)];
+        }
+        return [];
+    }
+}
+
+/**
+ * Pad numeric values with leading zeros (after any sign), everything else with trailing spaces
+ */
+function padValue(value: string, length: number, dataType: string): string {
+    if (/^(N\d*|R)$/.test(dataType)) {
+        const sign = value.startsWith('-') ? '-' : '';
+        return sign + value.substring(sign.length).padStart(length - sign.length, '0');
+    }
+    return value.padEnd(length, ' ');
+}
+
+function offsetRange(document: vscode.TextDocument, start: number, end: number): vscode.Range {
+    return new vscode.Range(document.positionAt(start), document.positionAt(end));
+}
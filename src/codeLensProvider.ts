@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 
 /**
  * Provides CodeLens actions at the top of EDI documents
- * Shows buttons for: Quick Format | Lookup Transaction | Update IDs
+ * Shows buttons for: Quick Format | Lookup Transaction | Update IDs | Swap Sender/Receiver
  */
 export class EdiCodeLensProvider implements vscode.CodeLensProvider {
     private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
@@ -60,10 +60,18 @@ export class EdiCodeLensProvider implements vscode.CodeLensProvider {
         };
         codeLenses.push(new vscode.CodeLens(topOfDocument, updateIdsCommand));
 
+        // Swap Sender/Receiver button
+        const swapCommand: vscode.Command = {
+            title: '$(arrow-swap) Swap Sender/Receiver',
+            tooltip: 'Exchange sender and receiver IDs in all envelopes',
+            command: 'ediX12Tools.swapSenderReceiver'
+        };
+        codeLenses.push(new vscode.CodeLens(topOfDocument, swapCommand));
+
         // Validate Document button
         const validateCommand: vscode.Command = {
             title: '$(check) Validate',
-            tooltip: 'Validate document against EDI schema (length, data types, codes)',
+            tooltip: 'Validate document against EDI schema (length, data types, codes, envelopes)',
             command: 'ediX12Tools.validateDocument'
         };
         codeLenses.push(new vscode.CodeLens(topOfDocument, validateCommand));
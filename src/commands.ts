@@ -1,6 +1,27 @@
 import * as vscode from 'vscode';
-
-export function registerCommands(context: vscode.ExtensionContext): void {
+import * as path from 'path';
+import { Delimiters, detectDelimiters, escapeValue, findSegmentAt, forgetDocument, parseDocument, parseEdi, ParsedEdi } from './parser';
+import { generateContrlMessage, generateFunctionalAcknowledgment } from './acknowledgment';
+import { ControlNumberSet, resequenceControlNumbers } from './controlNumbers';
+import { applyDelimiterProfile, BUILTIN_PROFILES, compactDocument, DelimiterProfile, normalizeDelimiterProfiles } from './delimiterProfiles';
+import { countSyntaxNoteSegments, loadValidationSchema, validateParsedDocument } from './documentValidator';
+import { compareDocuments, DiffOptions, EdiDifference, normalizeDocument } from './ediDiff';
+import { findElements, parseElementQuery } from './elementQuery';
+import { EdiHoverProvider } from './hoverProvider';
+import { checkMergeSources, mergeInterchanges, MergeSource } from './interchangeMerger';
+import { extractTransaction, listTransactions, TransactionEntry } from './interchangeSplitter';
+import { repairIsa } from './isaRepair';
+import { EdiJsonDocument, ediToJson, jsonToEdi } from './jsonConverter';
+import { ediToXml, XmlLayout } from './xmlConverter';
+import { isRecord } from './settingsValues';
+import { buildProfileEdits, buildSwapEdits, checkProfileVersion, normalizeProfiles, TradingPartnerProfile } from './tradingPartners';
+import { translateTransaction } from './translatedView';
+import { failedFile, FileValidationResult, formatValidationReport, summarizeFile } from './validationReport';
+import { showTranslatedView } from './translatedViewPanel';
+import { buildUsageEdits, getUsageIndicator } from './usageIndicator';
+import { ValidationIssue } from './validators';
+
+export function registerCommands(context: vscode.ExtensionContext, hoverProvider: EdiHoverProvider): void {
     // Quick Format (combines normalize + add line breaks)
     context.subscriptions.push(
         vscode.commands.registerCommand('ediX12Tools.quickFormat', async () => {
@@ -9,6 +30,17 @@ export function registerCommands(context: vscode.ExtensionContext): void {
                 return;
             }
 
+            // A configured delimiter profile replaces the standard normalization
+            const profileName = vscode.workspace.getConfiguration('ediX12Tools').get<string>('format.profile', '');
+            if (profileName) {
+                const profile = getDelimiterProfiles().find(p => p.name === profileName);
+                if (profile) {
+                    await formatWithProfile(profile);
+                    return;
+                }
+                vscode.window.showWarningMessage(`EDI: Delimiter profile "${profileName}" not found - using the standard delimiters`);
+            }
+
             const isEdifact = editor.document.languageId === 'edifact';
             if (isEdifact) {
                 await normalizeEdifactDelimiters();
@@ -30,6 +62,16 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         vscode.commands.registerCommand('ediX12Tools.addLineBreaks', addLineBreaks)
     );
 
+    // Quick Format with a delimiter profile picked from a list
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.formatWithProfile', () => formatWithProfile())
+    );
+
+    // Remove Line Breaks (compact wire format)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.removeLineBreaks', removeLineBreaks)
+    );
+
     // Lookup Segment at Cursor
     context.subscriptions.push(
         vscode.commands.registerCommand('ediX12Tools.lookupSegment', lookupSegment)
@@ -87,15 +129,84 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         vscode.commands.registerCommand('ediX12Tools.validateDocument', validateDocument)
     );
 
+    // Validate every EDI file in the workspace (or a folder/glob) with a summary report
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.validateWorkspace', (folder?: vscode.Uri) =>
+            validateWorkspaceFiles(context.extensionPath, folder))
+    );
+
     // Clear Validation
     context.subscriptions.push(
         vscode.commands.registerCommand('ediX12Tools.clearValidation', clearValidation)
     );
 
+    // Convert to JSON / back to EDI
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.convertToJson', convertToJson),
+        vscode.commands.registerCommand('ediX12Tools.convertJsonToEdi', convertJsonToEdi)
+    );
+
+    // Convert to XML (element names come from the hover schema caches)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.convertToXml', () => convertToXml(hoverProvider))
+    );
+
+    // Generate 997/999 or CONTRL acknowledgment
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.generateAcknowledgment', generateAcknowledgment)
+    );
+
+    // Form-like translated view of a transaction set/message
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.showTranslatedView', () => showTransactionView(hoverProvider))
+    );
+
+    // Find element values by path, e.g. N1[N101=ST]/N104
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.findElements', () => findElementsByPath(context.extensionPath, context.workspaceState))
+    );
+
+    // Split an interchange into one file per transaction set/message
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.splitInterchange', splitInterchange)
+    );
+
+    // Swap sender and receiver (inbound file -> outbound file)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.swapSenderReceiver', swapSenderReceiver)
+    );
+
+    // Resequence envelope control numbers (start values or the workspace counter)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.resequenceControlNumbers', () => resequenceDocument(context.workspaceState))
+    );
+
+    // Switch every interchange between test and production (ISA15 / UNB11)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.toggleUsageIndicator', toggleUsageIndicator)
+    );
+
+    // Pad/normalize the fixed-width ISA fields
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.repairIsa', repairIsaSegment)
+    );
+
+    // Structural comparison of two EDI files
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.compareFiles', (clicked?: vscode.Uri, selected?: vscode.Uri[]) =>
+            compareEdiFiles(context.extensionPath, clicked, selected))
+    );
+
+    // Merge files selected in the explorer into one interchange
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ediX12Tools.mergeFiles', mergeFiles)
+    );
+
     // Clear diagnostics on document close
     context.subscriptions.push(
         vscode.workspace.onDidCloseTextDocument(doc => {
             getDiagnosticCollection().delete(doc.uri);
+            forgetDocument(doc);
         })
     );
 }
@@ -136,30 +247,8 @@ async function normalizeDelimiters(): Promise<void> {
 
     const text = document.getText();
 
-    // Get delimiter positions from ISA segment
-    // Element delimiter is always at position 3 (right after "ISA")
-    const elemDelim = text.charAt(3);
-
-    // Find segment terminator by looking for the character after ISA16 (sub-element separator)
-    // ISA is 106 characters: positions 0-105, with segment terminator at the end
-    // But ISA length can vary if delimiters are different, so find the first segment boundary
-    // The segment terminator should be the character after the 16th element delimiter
-    let delimCount = 0;
-    let segDelim = '~'; // default
-    for (let i = 3; i < Math.min(text.length, 120); i++) {
-        if (text.charAt(i) === elemDelim) {
-            delimCount++;
-            if (delimCount === 16) {
-                // Next non-element-delimiter character after 16th delimiter is the ISA16 value
-                // The character after that is the segment terminator
-                const isa16Pos = i + 1;
-                if (isa16Pos + 1 < text.length) {
-                    segDelim = text.charAt(isa16Pos + 1);
-                }
-                break;
-            }
-        }
-    }
+    // Get delimiters from the ISA segment
+    const { element: elemDelim, segment: segDelim } = detectDelimiters(text, 'x12');
 
     // Check if already normalized
     if (elemDelim === '*' && segDelim === '~') {
@@ -218,25 +307,36 @@ async function addLineBreaks(): Promise<void> {
     }
 
     const editor = vscode.window.activeTextEditor!;
+    await applyLineBreaks(editor);
+}
+
+/**
+ * Put every segment on its own line, using the parsed segment boundaries
+ * so released (escaped) terminators and custom delimiters are respected
+ */
+async function applyLineBreaks(editor: vscode.TextEditor): Promise<void> {
     const document = editor.document;
     const text = document.getText();
-
     const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
 
-    // Count segments by counting ~ terminators
-    const segmentCount = (text.match(/~/g) || []).length;
-    const lineCount = text.split('\n').length;
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showWarningMessage('No envelope detected');
+        return;
+    }
 
     // Check if segments are already on separate lines
     // If line count is close to segment count, line breaks already exist
-    if (segmentCount > 0 && lineCount >= segmentCount * 0.9) {
+    const segmentCount = parsed.segments.length;
+    const lineCount = text.split('\n').length;
+    if (parsed.delimiters.segment === '\n' || (segmentCount > 0 && lineCount >= segmentCount * 0.9)) {
         vscode.window.setStatusBarMessage(`${fileName}: Line breaks already present`, 3000);
         return;
     }
 
-    // Add line breaks after segment terminators (~)
-    // But don't add duplicate line breaks if one already exists
-    const updatedText = text.replace(/~\n?/g, '~\n');
+    const updatedText = parsed.segments
+        .map(segment => text.substring(segment.start, segment.terminatorEnd) + '\n')
+        .join('');
 
     await editor.edit(editBuilder => {
         const fullRange = new vscode.Range(
@@ -249,25 +349,114 @@ async function addLineBreaks(): Promise<void> {
     vscode.window.setStatusBarMessage(`${fileName}: Line breaks added`, 3000);
 }
 
+/**
+ * Put every segment back on one line (the compact wire format most partners expect)
+ */
+async function removeLineBreaks(): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor!;
+    const document = editor.document;
+    const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showWarningMessage('No envelope detected');
+        return;
+    }
+
+    try {
+        const text = document.getText();
+        const updatedText = compactDocument(parsed, text);
+        if (updatedText === text) {
+            vscode.window.setStatusBarMessage(`${fileName}: No line breaks to remove`, 3000);
+            return;
+        }
+        await editor.edit(editBuilder => {
+            editBuilder.replace(new vscode.Range(document.positionAt(0), document.positionAt(text.length)), updatedText);
+        });
+        vscode.window.setStatusBarMessage(`${fileName}: Line breaks removed`, 3000);
+    } catch (error) {
+        vscode.window.showErrorMessage(`EDI: Cannot remove line breaks - ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Built-in and configured delimiter profiles ("ediX12Tools.format.profiles")
+ */
+function getDelimiterProfiles(): DelimiterProfile[] {
+    const configured = normalizeDelimiterProfiles(vscode.workspace.getConfiguration('ediX12Tools').get('format.profiles', []));
+    return [...configured, ...BUILTIN_PROFILES];
+}
+
+/**
+ * Rewrite the document with a delimiter profile, asking for one when none is given
+ */
+async function formatWithProfile(profile?: DelimiterProfile): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor!;
+    const document = editor.document;
+    const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showWarningMessage('No envelope detected');
+        return;
+    }
+
+    if (!profile) {
+        const show = (delimiter?: string) => delimiter === undefined ? 'keep' : delimiter === '\n' ? 'newline' : delimiter;
+        const choice = await vscode.window.showQuickPick(
+            getDelimiterProfiles()
+                .filter(p => !p.standard || p.standard === parsed.standard)
+                .map(p => ({
+                    label: p.name,
+                    description: `element ${show(p.element)}, component ${show(p.component)}, segment ${show(p.segment)}, line ending ${p.lineEnding ?? 'lf'}`,
+                    profile: p
+                })),
+            { placeHolder: 'Select a delimiter profile' }
+        );
+        if (!choice) {
+            return;
+        }
+        profile = choice.profile;
+    }
+
+    try {
+        const text = document.getText();
+        const updatedText = applyDelimiterProfile(parsed, profile);
+        if (updatedText === text) {
+            vscode.window.setStatusBarMessage(`${fileName}: Delimiters OK - no updates made`, 3000);
+            return;
+        }
+        await editor.edit(editBuilder => {
+            editBuilder.replace(new vscode.Range(document.positionAt(0), document.positionAt(text.length)), updatedText);
+        });
+        vscode.window.setStatusBarMessage(`${fileName}: Formatted with ${profile.name}`, 3000);
+    } catch (error) {
+        vscode.window.showErrorMessage(`EDI: Cannot apply delimiter profile - ${error instanceof Error ? error.message : error}`);
+    }
+}
+
 function lookupSegment(): void {
     if (!isEdiDocument()) {
         return;
     }
 
     const editor = vscode.window.activeTextEditor!;
-    const position = editor.selection.active;
-    const line = editor.document.lineAt(position.line);
-    const lineText = line.text;
+    const parsed = parseDocument(editor.document);
+    const offset = editor.document.offsetAt(editor.selection.active);
+    const segment = parsed ? findSegmentAt(parsed, offset) : null;
 
-    // Extract segment code (first 2-3 characters)
-    const segmentMatch = lineText.match(/^([A-Z0-9]{2,3})/);
-    if (!segmentMatch) {
+    if (!segment || !/^[A-Z0-9]{2,3}$/.test(segment.id)) {
         vscode.window.showWarningMessage('No segment found at cursor');
         return;
     }
 
-    const segment = segmentMatch[1];
-    openSegmentReference(segment);
+    openSegmentReference(segment.id);
 }
 
 function lookupTransactionSet(): void {
@@ -276,37 +465,21 @@ function lookupTransactionSet(): void {
     }
 
     const editor = vscode.window.activeTextEditor!;
-    const text = editor.document.getText();
-    const languageId = editor.document.languageId;
-
-    // Detect if EDIFACT or X12
-    let isEdifact = false;
-    if (languageId === 'edifact') {
-        isEdifact = true;
-    } else if (languageId === 'x12') {
-        isEdifact = false;
-    } else {
-        // Detect from content
-        isEdifact = text.includes('UNB+') || text.includes('UNH+') || text.includes('UNA:');
-    }
+    const parsed = parseDocument(editor.document);
+    const isEdifact = parsed ? parsed.standard === 'edifact' : editor.document.languageId === 'edifact';
 
     let txnSet: string | undefined;
 
-    if (isEdifact) {
-        // EDIFACT: Look for UNH segment with message type
+    if (parsed && isEdifact) {
+        // EDIFACT: Message type is the first component of UNH element 2
         // Format: UNH+reference+ORDERS:D:96A:UN'
-        // Message type is the first part after the second +
-        const unhMatch = text.match(/UNH\+[^+]+\+([A-Z]+):/);
-        if (unhMatch) {
-            txnSet = unhMatch[1];
-        }
-    } else {
-        // X12: Look for ST segment with transaction set code
+        const unh = parsed.segments.find(s => s.id === 'UNH');
+        txnSet = unh?.elements[1]?.components[0].value || undefined;
+    } else if (parsed) {
+        // X12: Transaction set code is ST element 1
         // Format: ST*850*0001
-        const stMatch = text.match(/\nST\*(\w+)/);
-        if (stMatch) {
-            txnSet = stMatch[1];
-        }
+        const st = parsed.segments.find(s => s.id === 'ST');
+        txnSet = st?.elements[0]?.value || undefined;
     }
 
     if (!txnSet) {
@@ -383,70 +556,18 @@ async function normalizeEdifactDelimiters(): Promise<void> {
     const text = document.getText();
     const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
 
-    // Check for UNA (EDIFACT service string advice)
-    // UNA:+.? ' defines: component(:), element(+), decimal(.), release(?), segment(')
-    let componentDelim = ':';
-    let elementDelim = '+';
-    let segmentDelim = "'";
-    let releaseChar = '?';
-
-    if (text.startsWith('UNA')) {
-        // UNA is always 9 characters: UNA followed by 6 delimiter characters
-        componentDelim = text.charAt(3);
-        elementDelim = text.charAt(4);
-        // decimal separator at position 5 (not needed for normalization)
-        releaseChar = text.charAt(6);
-        // reserved at position 7
-        segmentDelim = text.charAt(8);
-    } else if (text.startsWith('UNB')) {
-        // No UNA - infer delimiters from UNB structure
-        // UNB structure: UNB+UNOA:2+sender+receiver+date:time+ref...
-        // Element delimiter is at position 3 (right after "UNB")
-        elementDelim = text.charAt(3);
-
-        // Find component delimiter within the first element (syntax identifier like "UNOA:2")
-        // It's the character between the 4-char syntax ID and the version number
-        // Pattern: UNB + elemDelim + 4-char-syntax + componentDelim + version + elemDelim
-        const firstElemEnd = text.indexOf(elementDelim, 4);
-        if (firstElemEnd > 4) {
-            // Look for a non-alphanumeric character within the first element
-            const firstElement = text.substring(4, firstElemEnd);
-            for (let i = 0; i < firstElement.length; i++) {
-                const char = firstElement.charAt(i);
-                if (!/[A-Z0-9]/i.test(char)) {
-                    componentDelim = char;
-                    break;
-                }
-            }
-        }
-
-        // Find segment terminator - it's at the end of the first segment (UNB line)
-        // Count element delimiters to find the end of UNB segment
-        let elemCount = 0;
-        for (let i = 3; i < text.length; i++) {
-            if (text.charAt(i) === elementDelim) {
-                elemCount++;
-            }
-            // UNB has about 10-11 elements, segment terminator comes after
-            // Look for a character that's not the element delimiter, component delimiter, or alphanumeric
-            // after we've seen several elements
-            if (elemCount >= 5) {
-                const char = text.charAt(i);
-                if (char !== elementDelim && char !== componentDelim && !/[A-Z0-9\s]/i.test(char)) {
-                    // Check if this looks like a segment terminator (followed by newline or next segment)
-                    const nextChar = text.charAt(i + 1);
-                    if (nextChar === '\n' || nextChar === '\r' || /[A-Z]/.test(nextChar)) {
-                        segmentDelim = char;
-                        break;
-                    }
-                }
-            }
-        }
-    } else {
+    // Delimiters come from UNA (service string advice) or are inferred from UNB
+    if (!text.startsWith('UNA') && !text.startsWith('UNB')) {
         vscode.window.showWarningMessage('No EDIFACT envelope (UNA/UNB) detected');
         return;
     }
 
+    const delimiters = detectDelimiters(text, 'edifact');
+    const componentDelim = delimiters.component;
+    const elementDelim = delimiters.element;
+    const segmentDelim = delimiters.segment;
+    const releaseChar = delimiters.release || '?';
+
     // Check if already normalized
     if (componentDelim === ':' && elementDelim === '+' && segmentDelim === "'" && releaseChar === '?') {
         vscode.window.setStatusBarMessage(`${fileName}: Delimiters OK - no updates made`, 3000);
@@ -527,91 +648,245 @@ async function addEdifactLineBreaks(): Promise<void> {
         return;
     }
 
-    const document = editor.document;
-    const text = document.getText();
-    const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
+    await applyLineBreaks(editor);
+}
 
-    // Determine segment terminator (default is ', but check UNA if present)
-    let segmentDelim = "'";
-    if (text.startsWith('UNA')) {
-        segmentDelim = text.charAt(8);
+/**
+ * Update sender/receiver IDs in EDI documents
+ * Supports both X12 (ISA/GS) and EDIFACT (UNB) formats
+ */
+async function updateIds(): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
     }
 
-    // Count segments by counting segment terminators
-    const escapedDelim = escapeRegExp(segmentDelim);
-    const segmentCount = (text.match(new RegExp(escapedDelim, 'g')) || []).length;
-    const lineCount = text.split('\n').length;
+    const editor = vscode.window.activeTextEditor!;
+    const parsed = parseDocument(editor.document);
+    if (!parsed) {
+        vscode.window.showWarningMessage('No envelope detected');
+        return;
+    }
 
-    // Check if segments are already on separate lines
-    // If line count is close to segment count, line breaks already exist
-    if (segmentCount > 0 && lineCount >= segmentCount * 0.9) {
-        vscode.window.setStatusBarMessage(`${fileName}: Line breaks already present`, 3000);
+    // Trading partner profiles first, when any are configured
+    const { profiles, own } = await loadTradingPartners();
+    if (profiles.length > 0) {
+        const partners = profiles.filter(p => p !== own);
+        const choice = await vscode.window.showQuickPick([
+            ...partners.map(partner => ({
+                label: own ? `Swap to ${partner.name} as receiver / us as sender` : `Set ${partner.name} as receiver`,
+                description: describeProfile(partner, parsed.standard === 'edifact'),
+                partner,
+                action: 'profile'
+            })),
+            { label: 'Swap sender and receiver', description: 'Turn an inbound file into an outbound one', partner: undefined, action: 'swap' },
+            { label: 'Enter IDs manually...', description: 'Sender, receiver or control numbers', partner: undefined, action: 'manual' }
+        ], { placeHolder: 'Update sender/receiver IDs' });
+        if (!choice) {
+            return;
+        }
+        if (choice.action === 'swap') {
+            await swapSenderReceiver();
+            return;
+        }
+        if (choice.partner) {
+            await applyPartnerProfile(editor, parsed, own, choice.partner);
+            return;
+        }
+    }
+
+    if (parsed.standard === 'edifact') {
+        await updateEdifactIds(editor, parsed);
+    } else {
+        await updateX12Ids(editor, parsed);
+    }
+}
+
+/**
+ * Profiles from the settings and the workspace partner file, plus our own profile
+ */
+async function loadTradingPartners(): Promise<{ profiles: TradingPartnerProfile[]; own: TradingPartnerProfile | undefined }> {
+    const config = vscode.workspace.getConfiguration('ediX12Tools');
+    const profiles = normalizeProfiles(config.get('tradingPartners.profiles', []));
+    let ownName = config.get<string>('tradingPartners.ownProfile', '');
+
+    const relativePath = config.get<string>('tradingPartners.file', '.vscode/edi-partners.json');
+    for (const folder of relativePath ? vscode.workspace.workspaceFolders || [] : []) {
+        const uri = vscode.Uri.joinPath(folder.uri, relativePath);
+        let content: unknown;
+        try {
+            content = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'));
+        } catch (error) {
+            // A missing file is fine, a broken one is worth a message
+            if (!(error instanceof vscode.FileSystemError)) {
+                vscode.window.showWarningMessage(`EDI: Cannot read trading partners from ${relativePath} (${error instanceof Error ? error.message : error})`);
+            }
+            continue;
+        }
+        profiles.push(...normalizeProfiles(content));
+        if (!ownName && isRecord(content) && typeof content.ownProfile === 'string') {
+            ownName = content.ownProfile;
+        }
+    }
+
+    return { profiles, own: ownName ? profiles.find(p => p.name === ownName) : undefined };
+}
+
+function describeProfile(profile: TradingPartnerProfile, isEdifact: boolean): string {
+    const id = isEdifact
+        ? [profile.unbId, profile.unbQualifier].filter(Boolean).join(':')
+        : [profile.isaQualifier, profile.isaId].filter(Boolean).join('/');
+    return [id, profile.version, profile.usageIndicator === 'P' ? 'Production' : profile.usageIndicator === 'T' ? 'Test' : '']
+        .filter(Boolean)
+        .join(' · ');
+}
+
+/**
+ * Make a partner the receiver (and our own profile the sender) in every envelope
+ */
+async function applyPartnerProfile(
+    editor: vscode.TextEditor,
+    parsed: ParsedEdi,
+    own: TradingPartnerProfile | undefined,
+    partner: TradingPartnerProfile
+): Promise<void> {
+    const edits = buildProfileEdits(parsed, own, partner);
+    if (edits.length === 0) {
+        vscode.window.showWarningMessage(`EDI: Profile ${partner.name} has no ${parsed.standard === 'edifact' ? 'UNB' : 'ISA/GS'} IDs`);
         return;
     }
 
-    // Add line breaks after segment terminators
-    // But don't add duplicate line breaks if one already exists
-    const regex = new RegExp(escapedDelim + '\\n?', 'g');
-    const updatedText = text.replace(regex, `${segmentDelim}\n`);
+    await applyOffsetEdits(editor, edits);
 
-    await editor.edit(editBuilder => {
-        const fullRange = new vscode.Range(
-            document.positionAt(0),
-            document.positionAt(text.length)
-        );
-        editBuilder.replace(fullRange, updatedText);
-    });
+    const fileName = editor.document.fileName.split(/[/\\]/).pop() || 'Document';
+    vscode.window.setStatusBarMessage(`${fileName}: ${partner.name} set as receiver`, 3000);
+    const mismatch = checkProfileVersion(parsed, partner);
+    if (mismatch) {
+        vscode.window.showWarningMessage(`EDI: ${mismatch}`);
+    }
+}
 
-    vscode.window.setStatusBarMessage(`${fileName}: Line breaks added`, 3000);
+/**
+ * Exchange sender and receiver in every envelope of the active document
+ */
+async function swapSenderReceiver(): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor!;
+    const parsed = parseDocument(editor.document);
+    if (!parsed) {
+        vscode.window.showWarningMessage('No envelope detected');
+        return;
+    }
+
+    const edits = buildSwapEdits(parsed, editor.document.getText());
+    if (edits.length === 0) {
+        vscode.window.showWarningMessage(`No ${parsed.standard === 'edifact' ? 'UNB' : 'ISA'} envelope detected`);
+        return;
+    }
+
+    await applyOffsetEdits(editor, edits);
+
+    const fileName = editor.document.fileName.split(/[/\\]/).pop() || 'Document';
+    vscode.window.setStatusBarMessage(`${fileName}: Swapped sender and receiver`, 3000);
 }
 
 /**
- * Update sender/receiver IDs in EDI documents
- * Supports both X12 (ISA/GS) and EDIFACT (UNB) formats
+ * Switch the usage indicator of every interchange between test and production.
+ * Switching to production asks for confirmation.
  */
-async function updateIds(): Promise<void> {
+async function toggleUsageIndicator(): Promise<void> {
     if (!isEdiDocument()) {
         return;
     }
 
     const editor = vscode.window.activeTextEditor!;
-    const document = editor.document;
-    const text = document.getText();
-    const languageId = document.languageId;
+    const parsed = parseDocument(editor.document);
+    const current = parsed ? getUsageIndicator(parsed) : null;
+    if (!parsed || !current) {
+        vscode.window.showWarningMessage('No envelope detected');
+        return;
+    }
 
-    // Detect document type
-    const isEdifact = languageId === 'edifact' ||
-        text.includes('UNB+') || text.includes('UNH+') || text.includes('UNA:');
+    let test = current !== 'test';
+    if (current === 'mixed') {
+        const choice = await vscode.window.showQuickPick([
+            { label: 'Test', description: 'Set every interchange to test', test: true },
+            { label: 'Production', description: 'Set every interchange to production', test: false }
+        ], { placeHolder: 'The interchanges have different usage indicators' });
+        if (!choice) {
+            return;
+        }
+        test = choice.test;
+    }
 
-    if (isEdifact) {
-        await updateEdifactIds(editor, text);
-    } else {
-        await updateX12Ids(editor, text);
+    const edits = buildUsageEdits(parsed, test);
+    if (!test && edits.length > 0) {
+        const confirm = await vscode.window.showWarningMessage(
+            `Mark ${edits.length} interchange(s) as PRODUCTION? Partners will process the file for real.`,
+            { modal: true },
+            'Set to Production'
+        );
+        if (confirm !== 'Set to Production') {
+            return;
+        }
+    }
+
+    if (edits.length > 0 && !await applyOffsetEdits(editor, edits)) {
+        return;
     }
+
+    const fileName = editor.document.fileName.split(/[/\\]/).pop() || 'Document';
+    vscode.window.setStatusBarMessage(`${fileName}: Usage indicator set to ${test ? 'TEST' : 'PRODUCTION'}`, 3000);
+}
+
+/**
+ * A replacement of a parsed value, by source offsets
+ */
+interface OffsetEdit {
+    start: number;
+    end: number;
+    value: string;
+}
+
+/**
+ * Apply non-overlapping offset edits to a document in a single undo step
+ */
+async function applyOffsetEdits(editor: vscode.TextEditor, edits: OffsetEdit[]): Promise<boolean> {
+    const document = editor.document;
+    return editor.edit(editBuilder => {
+        for (const edit of edits) {
+            editBuilder.replace(offsetRange(document, edit.start, edit.end), edit.value);
+        }
+    });
+}
+
+function offsetRange(document: vscode.TextDocument, start: number, end: number): vscode.Range {
+    return new vscode.Range(document.positionAt(start), document.positionAt(end));
 }
 
 /**
  * Update X12 ISA/GS sender and receiver IDs
  */
-async function updateX12Ids(editor: vscode.TextEditor, text: string): Promise<void> {
+async function updateX12Ids(editor: vscode.TextEditor, parsed: ParsedEdi): Promise<void> {
     const document = editor.document;
     const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
 
-    // Check for ISA envelope
-    if (!text.startsWith('ISA')) {
+    // Check for ISA envelopes (every interchange in the file is updated)
+    const interchanges = parsed.segments.filter(s => s.id === 'ISA' && s.elements.length >= 8);
+    if (interchanges.length === 0) {
         vscode.window.showWarningMessage('No ISA envelope detected');
         return;
     }
 
-    // Detect delimiters
-    const elemDelim = text.charAt(3);
-
     // Ask user what to update
     const updateChoice = await vscode.window.showQuickPick(
         [
             { label: 'Sender', description: 'Update sender qualifier and ID (ISA-05/06, GS-02)' },
             { label: 'Receiver', description: 'Update receiver qualifier and ID (ISA-07/08, GS-03)' },
-            { label: 'Both', description: 'Update both sender and receiver' }
+            { label: 'Both', description: 'Update both sender and receiver' },
+            { label: 'Control Numbers', description: 'Resequence interchange, group and transaction control numbers' }
         ],
         { placeHolder: 'What would you like to update?' }
     );
@@ -619,6 +894,10 @@ async function updateX12Ids(editor: vscode.TextEditor, text: string): Promise<vo
     if (!updateChoice) {
         return;
     }
+    if (updateChoice.label === 'Control Numbers') {
+        await vscode.commands.executeCommand('ediX12Tools.resequenceControlNumbers');
+        return;
+    }
 
     const updateSender = updateChoice.label === 'Sender' || updateChoice.label === 'Both';
     const updateReceiver = updateChoice.label === 'Receiver' || updateChoice.label === 'Both';
@@ -718,51 +997,38 @@ async function updateX12Ids(editor: vscode.TextEditor, text: string): Promise<vo
         receiverGsId = receiverGsIdInput;
     }
 
-    let updatedText = text;
-    const escapedDelim = escapeRegExp(elemDelim);
+    const edits: OffsetEdit[] = [];
+    const groups = parsed.segments.filter(s => s.id === 'GS');
 
-    // Update ISA sender (positions: qual at element 5, ID at element 6)
+    // ISA sender is qualifier ISA-05 and ID ISA-06, GS sender is GS-02
     // ISA*00*          *00*          *ZZ*SENDERID       *...
     if (updateSender) {
-        const isaSenderPattern = new RegExp(
-            `(ISA${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim})([^${escapedDelim}]{1,2})(${escapedDelim})([^${escapedDelim}]{1,15})`,
-            'g'
-        );
-        updatedText = updatedText.replace(isaSenderPattern, `$1${senderQual}$3${senderId}`);
-
-        // Update GS sender (element 2)
-        // GS*PO*SENDERID*RECEIVERID*...
-        const gsSenderPattern = new RegExp(
-            `(GS${escapedDelim}[^${escapedDelim}]*${escapedDelim})([^${escapedDelim}]{2,15})(${escapedDelim})`,
-            'g'
-        );
-        updatedText = updatedText.replace(gsSenderPattern, `$1${senderGsId}$3`);
+        for (const isa of interchanges) {
+            edits.push({ start: isa.elements[4].start, end: isa.elements[4].end, value: senderQual });
+            edits.push({ start: isa.elements[5].start, end: isa.elements[5].end, value: senderId });
+        }
+        for (const gs of groups) {
+            if (gs.elements.length > 1) {
+                edits.push({ start: gs.elements[1].start, end: gs.elements[1].end, value: senderGsId });
+            }
+        }
     }
 
-    // Update ISA receiver (positions: qual at element 7, ID at element 8)
+    // ISA receiver is qualifier ISA-07 and ID ISA-08, GS receiver is GS-03
     if (updateReceiver) {
-        const isaReceiverPattern = new RegExp(
-            `(ISA${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim})([^${escapedDelim}]{1,2})(${escapedDelim})([^${escapedDelim}]{1,15})`,
-            'g'
-        );
-        updatedText = updatedText.replace(isaReceiverPattern, `$1${receiverQual}$3${receiverId}`);
-
-        // Update GS receiver (element 3)
-        const gsReceiverPattern = new RegExp(
-            `(GS${escapedDelim}[^${escapedDelim}]*${escapedDelim}[^${escapedDelim}]*${escapedDelim})([^${escapedDelim}]{2,15})(${escapedDelim})`,
-            'g'
-        );
-        updatedText = updatedText.replace(gsReceiverPattern, `$1${receiverGsId}$3`);
+        for (const isa of interchanges) {
+            edits.push({ start: isa.elements[6].start, end: isa.elements[6].end, value: receiverQual });
+            edits.push({ start: isa.elements[7].start, end: isa.elements[7].end, value: receiverId });
+        }
+        for (const gs of groups) {
+            if (gs.elements.length > 2) {
+                edits.push({ start: gs.elements[2].start, end: gs.elements[2].end, value: receiverGsId });
+            }
+        }
     }
 
     // Apply changes
-    await editor.edit(editBuilder => {
-        const fullRange = new vscode.Range(
-            document.positionAt(0),
-            document.positionAt(text.length)
-        );
-        editBuilder.replace(fullRange, updatedText);
-    });
+    await applyOffsetEdits(editor, edits);
 
     const updated = updateSender && updateReceiver ? 'sender and receiver' :
                     updateSender ? 'sender' : 'receiver';
@@ -772,21 +1038,13 @@ async function updateX12Ids(editor: vscode.TextEditor, text: string): Promise<vo
 /**
  * Update EDIFACT UNB sender and receiver IDs
  */
-async function updateEdifactIds(editor: vscode.TextEditor, text: string): Promise<void> {
+async function updateEdifactIds(editor: vscode.TextEditor, parsed: ParsedEdi): Promise<void> {
     const document = editor.document;
     const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
 
-    // Detect delimiters from UNA or defaults
-    let elementDelim = '+';
-    let componentDelim = ':';
-
-    if (text.startsWith('UNA')) {
-        componentDelim = text.charAt(3);
-        elementDelim = text.charAt(4);
-    }
-
     // Check for UNB envelope
-    if (!text.includes('UNB' + elementDelim)) {
+    const unb = parsed.segments.find(s => s.id === 'UNB');
+    if (!unb) {
         vscode.window.showWarningMessage('No UNB envelope detected');
         return;
     }
@@ -796,7 +1054,8 @@ async function updateEdifactIds(editor: vscode.TextEditor, text: string): Promis
         [
             { label: 'Sender', description: 'Update sender ID and qualifier (UNB element 2)' },
             { label: 'Receiver', description: 'Update receiver ID and qualifier (UNB element 3)' },
-            { label: 'Both', description: 'Update both sender and receiver' }
+            { label: 'Both', description: 'Update both sender and receiver' },
+            { label: 'Control Numbers', description: 'Resequence interchange, group and transaction control numbers' }
         ],
         { placeHolder: 'What would you like to update?' }
     );
@@ -804,6 +1063,10 @@ async function updateEdifactIds(editor: vscode.TextEditor, text: string): Promis
     if (!updateChoice) {
         return;
     }
+    if (updateChoice.label === 'Control Numbers') {
+        await vscode.commands.executeCommand('ediX12Tools.resequenceControlNumbers');
+        return;
+    }
 
     const updateSender = updateChoice.label === 'Sender' || updateChoice.label === 'Both';
     const updateReceiver = updateChoice.label === 'Receiver' || updateChoice.label === 'Both';
@@ -869,71 +1132,31 @@ async function updateEdifactIds(editor: vscode.TextEditor, text: string): Promis
         receiverQual = receiverQualInput || null;
     }
 
-    // Parse and update UNB segment
-    const escapedElemDelim = escapeRegExp(elementDelim);
-
-    // Find UNB segment
-    const unbPattern = new RegExp(`UNB${escapedElemDelim}[^']*'`, 'g');
-    const unbMatch = text.match(unbPattern);
-
-    if (!unbMatch) {
-        vscode.window.showWarningMessage('Could not parse UNB segment');
-        return;
-    }
-
-    let unbSegment = unbMatch[0];
-    const unbElements = unbSegment.slice(0, -1).split(elementDelim); // Remove trailing ' and split
-
-    // UNB structure: UNB+syntax+sender+receiver+datetime+ref+...
-    // Element 0: UNB
-    // Element 1: Syntax identifier (e.g., UNOA:2)
-    // Element 2: Sender (ID:Qualifier or just ID)
-    // Element 3: Receiver (ID:Qualifier or just ID)
-
-    if (updateSender && unbElements.length > 2) {
-        unbElements[2] = senderQual ? `${senderId}${componentDelim}${senderQual}` : senderId;
-    }
-
-    if (updateReceiver && unbElements.length > 3) {
-        unbElements[3] = receiverQual ? `${receiverId}${componentDelim}${receiverQual}` : receiverId;
-    }
-
-    const newUnbSegment = unbElements.join(elementDelim) + "'";
-    let updatedText = text.replace(unbMatch[0], newUnbSegment);
-
-    // Also update UNG segment(s) if present
-    // UNG is the functional group header and uses the same sender/receiver IDs
-    // UNG structure: UNG+group_id+sender+receiver+datetime+ref+...
-    const ungPattern = new RegExp(`UNG${escapedElemDelim}[^']*'`, 'g');
-    const ungMatches = text.match(ungPattern);
-
-    if (ungMatches && ungMatches.length > 0) {
-        // Update all UNG segments found
-        for (const ungMatch of ungMatches) {
-            const ungElements = ungMatch.slice(0, -1).split(elementDelim);
-
-            // UNG Element 2: Sender, Element 3: Receiver
-            if (updateSender && ungElements.length > 2) {
-                ungElements[2] = senderQual ? `${senderId}${componentDelim}${senderQual}` : senderId;
-            }
-
-            if (updateReceiver && ungElements.length > 3) {
-                ungElements[3] = receiverQual ? `${receiverId}${componentDelim}${receiverQual}` : receiverId;
-            }
+    // UNB and UNG share the same layout for parties:
+    // UNB+syntax+sender+receiver+datetime+ref+...
+    // UNG+group_id+sender+receiver+datetime+ref+...
+    // Sender and receiver are composites of ID and optional qualifier (ID:Qualifier)
+    const delimiters = parsed.delimiters;
+    const formatParty = (id: string, qualifier: string | null): string => {
+        const escapedId = escapeValue(id, delimiters);
+        return qualifier ? `${escapedId}${delimiters.component}${escapeValue(qualifier, delimiters)}` : escapedId;
+    };
+
+    const edits: OffsetEdit[] = [];
+    for (const segment of parsed.segments.filter(s => s.id === 'UNB' || s.id === 'UNG')) {
+        if (updateSender && segment.elements.length > 1) {
+            const sender = segment.elements[1];
+            edits.push({ start: sender.start, end: sender.end, value: formatParty(senderId, senderQual) });
+        }
 
-            const newUngSegment = ungElements.join(elementDelim) + "'";
-            updatedText = updatedText.replace(ungMatch, newUngSegment);
+        if (updateReceiver && segment.elements.length > 2) {
+            const receiver = segment.elements[2];
+            edits.push({ start: receiver.start, end: receiver.end, value: formatParty(receiverId, receiverQual) });
         }
     }
 
     // Apply changes
-    await editor.edit(editBuilder => {
-        const fullRange = new vscode.Range(
-            document.positionAt(0),
-            document.positionAt(text.length)
-        );
-        editBuilder.replace(fullRange, updatedText);
-    });
+    await applyOffsetEdits(editor, edits);
 
     const updated = updateSender && updateReceiver ? 'sender and receiver' :
                     updateSender ? 'sender' : 'receiver';
@@ -968,316 +1191,637 @@ async function validateDocument(): Promise<void> {
     }
 
     const document = editor.document;
-    const languageId = document.languageId;
-    const text = document.getText();
 
-    // Detect document type from languageId or content
-    let isEdifact = false;
-    if (languageId === 'edifact') {
-        isEdifact = true;
-    } else if (languageId === 'x12') {
-        isEdifact = false;
+    // Detect document type and delimiters from the envelope (falls back to languageId)
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showErrorMessage('Not an EDI document (no ISA or UNB/UNH envelope found)');
+        return;
+    }
+
+    const schema = loadValidationSchema(getExtensionPath(), parsed);
+    console.log(`[EDI Validate] Version: ${schema.version}, isEdifact: ${schema.isEdifact}`);
+
+    const diagnostics = validateParsedDocument(parsed, schema).map(issue => createIssueDiagnostic(document, issue));
+
+    // Set diagnostics
+    const collection = getDiagnosticCollection();
+    collection.set(document.uri, diagnostics);
+
+    // Show Problems panel if there are diagnostics
+    if (diagnostics.length > 0) {
+        vscode.commands.executeCommand('workbench.actions.view.problems');
+    }
+
+    // Show summary
+    const errorCount = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
+    const warningCount = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Warning).length;
+
+    // Relational conditions are only bundled for some segments of 004010 and later
+    const syntaxNote = !schema.isEdifact && countSyntaxNoteSegments(schema) === 0
+        ? ` (relational conditions not checked: no syntax notes for ${schema.version})`
+        : '';
+    if (diagnostics.length === 0) {
+        vscode.window.showInformationMessage(`EDI Validation: No issues found${syntaxNote}`);
     } else {
-        // Try to detect from content
-        if (text.startsWith('UNA') || text.startsWith('UNB') || text.includes('UNH+')) {
-            isEdifact = true;
-        } else if (text.startsWith('ISA')) {
-            isEdifact = false;
-        } else {
-            vscode.window.showErrorMessage('Not an EDI document (no ISA or UNB/UNH envelope found)');
+        vscode.window.showWarningMessage(`EDI Validation: ${errorCount} error(s), ${warningCount} warning(s)${syntaxNote}`);
+    }
+}
+
+/**
+ * Validate the active interchange and open the acknowledgment a receiver would send back:
+ * a 997/999 for X12, a CONTRL message for EDIFACT
+ */
+async function generateAcknowledgment(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor');
+        return;
+    }
+
+    const parsed = parseDocument(editor.document);
+    if (!parsed) {
+        vscode.window.showErrorMessage('Not an EDI document (no ISA or UNB/UNH envelope found)');
+        return;
+    }
+
+    // Same checks as Validate Document, including the EDIFACT date/time composites (C507/S004)
+    const schema = loadValidationSchema(getExtensionPath(), parsed);
+    const issues = validateParsedDocument(parsed, schema);
+
+    let ack;
+    try {
+        const now = new Date();
+        const options = { controlNumber: Math.floor(now.getTime() / 1000) % 1000000000, date: now };
+        ack = parsed.standard === 'edifact'
+            ? generateContrlMessage(parsed, issues, options)
+            : generateFunctionalAcknowledgment(parsed, issues, schema, options);
+    } catch (error) {
+        vscode.window.showErrorMessage(`EDI: Cannot generate acknowledgment - ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const ackDocument = await vscode.workspace.openTextDocument({ language: parsed.standard, content: ack.text });
+    await vscode.window.showTextDocument(ackDocument, { preview: false });
+    const unit = parsed.standard === 'edifact' ? 'message(s)' : 'transaction set(s)';
+    vscode.window.showInformationMessage(`EDI: Generated ${ack.type} - ${ack.accepted} accepted, ${ack.rejected} rejected ${unit}`);
+}
+
+/**
+ * Write selected transaction sets/messages of the active interchange to their own files,
+ * each in a copy of its envelope
+ */
+async function splitInterchange(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor');
+        return;
+    }
+
+    const document = editor.document;
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showErrorMessage('Not an EDI document (no ISA or UNB/UNH envelope found)');
+        return;
+    }
+
+    const entries = listTransactions(parsed).filter(entry => entry.interchange);
+    if (entries.length === 0) {
+        vscode.window.showErrorMessage('No enveloped transaction sets or messages found');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(entries.map(entry => ({
+        label: `${entry.type} #${entry.controlNumber}`,
+        description: entry.reference ? `${entry.referenceLabel} ${entry.reference}` : '',
+        detail: `${entry.segments.length} segments`,
+        entry
+    })), { canPickMany: true, placeHolder: 'Select the transaction sets/messages to write to separate files' });
+    if (!picked || picked.length === 0) {
+        return;
+    }
+
+    // Keep the envelope control numbers, or number the new interchanges from a start value
+    const numbering = await vscode.window.showQuickPick([
+        { label: 'Keep original control numbers', fresh: false },
+        { label: 'Assign new control numbers...', fresh: true }
+    ], { placeHolder: 'Envelope control numbers (ISA13/GS06, UNB05/UNG05)' });
+    if (!numbering) {
+        return;
+    }
+    let firstControl = 0;
+    if (numbering.fresh) {
+        const input = await vscode.window.showInputBox({
+            prompt: 'First control number (incremented for each file)',
+            value: '1',
+            validateInput: value => /^\d{1,9}$/.test(value) ? null : 'Enter a number of up to 9 digits'
+        });
+        if (input === undefined) {
             return;
         }
+        firstControl = parseInt(input, 10);
     }
-    const diagnostics: vscode.Diagnostic[] = [];
 
-    // Import validators dynamically to avoid circular dependencies
-    const { validateElement, validateDateWithFormat } = await import('./validators');
+    const folder = await getOutputFolder(document);
+    if (!folder) {
+        return;
+    }
 
-    // Load schemas - we need to access them for validation
-    const fs = await import('fs');
-    const path = await import('path');
+    const baseName = document.isUntitled ? 'interchange' : path.basename(document.fileName, path.extname(document.fileName));
+    const extension = document.isUntitled ? '.edi' : path.extname(document.fileName) || '.edi';
+    const text = document.getText();
+    const written: vscode.Uri[] = [];
+
+    try {
+        for (const [index, { entry }] of picked.entries()) {
+            const control = String(firstControl + index);
+            const content = extractTransaction(parsed, text, entry, numbering.fresh ? { interchange: control, group: control } : undefined);
+            const uri = await uniqueFileUri(folder, `${baseName}_${entry.type}_${safeFileName(entry)}`, extension);
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+            written.push(uri);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`EDI: Split failed - ${error instanceof Error ? error.message : error}`);
+        return;
+    }
 
-    // Get extension path - try extension API first, fallback to __dirname
-    const extension = vscode.extensions.getExtension('RustyJonez.edi-tools');
-    const extensionPath = extension?.extensionPath || path.join(__dirname, '..');
-
-    console.log(`[EDI Validate] Extension path: ${extensionPath}`);
-
-    // Detect version
-    let version = isEdifact ? detectEdifactVersionFromDoc(document) : detectX12VersionFromDoc(document);
-    let schemaDir = path.join(extensionPath, 'schemas', isEdifact ? 'edifact' : 'x12', version);
-
-    // Fallback to common versions if detected version doesn't exist
-    if (!fs.existsSync(schemaDir)) {
-        console.log(`[EDI Validate] Version ${version} not found, trying fallbacks...`);
-        const fallbackVersions = isEdifact
-            ? ['d96a', 'd01b', 'd03a', 'd98b', 'd21a']
-            : ['004010', '005010', '008010', '003070', '003060', '003010', '007020'];
-
-        for (const fallback of fallbackVersions) {
-            const fallbackDir = path.join(extensionPath, 'schemas', isEdifact ? 'edifact' : 'x12', fallback);
-            if (fs.existsSync(fallbackDir)) {
-                console.log(`[EDI Validate] Using fallback version: ${fallback}`);
-                version = fallback;
-                schemaDir = fallbackDir;
-                break;
+    const choice = await vscode.window.showInformationMessage(`EDI: Wrote ${written.length} file(s) to ${folder.fsPath}`, 'Open Files');
+    if (choice === 'Open Files') {
+        for (const uri of written) {
+            await vscode.window.showTextDocument(uri, { preview: false });
+        }
+    }
+}
+
+// Workspace state key of the next control numbers to hand out
+const CONTROL_NUMBER_COUNTER_KEY = 'ediX12Tools.controlNumberCounter';
+
+/**
+ * Renumber all envelopes of the active document, from entered start values
+ * or from the counter saved in the workspace
+ */
+async function resequenceDocument(workspaceState: vscode.Memento): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor!;
+    const parsed = parseDocument(editor.document);
+    if (!parsed) {
+        vscode.window.showWarningMessage('No envelope detected');
+        return;
+    }
+
+    const isEdifact = parsed.standard === 'edifact';
+    const labels = isEdifact ? ['UNB-05', 'UNG-05', 'UNH-01'] : ['ISA-13', 'GS-06', 'ST-02'];
+    const counter = workspaceState.get<ControlNumberSet>(CONTROL_NUMBER_COUNTER_KEY, { interchange: 1, group: 1, transaction: 1 });
+
+    const choice = await vscode.window.showQuickPick([
+        {
+            label: 'Continue from workspace counter',
+            description: `${labels[0]} ${counter.interchange}, ${labels[1]} ${counter.group}, ${labels[2]} ${counter.transaction}`,
+            useCounter: true
+        },
+        { label: 'Enter start numbers...', description: labels.join(', '), useCounter: false }
+    ], { placeHolder: 'Resequence control numbers' });
+    if (!choice) {
+        return;
+    }
+
+    let start = counter;
+    if (!choice.useCounter) {
+        const entered: number[] = [];
+        for (const [index, key] of (['interchange', 'group', 'transaction'] as const).entries()) {
+            const input = await vscode.window.showInputBox({
+                prompt: `First ${key} control number (${labels[index]})`,
+                value: String(counter[key]),
+                validateInput: value => /^\d{1,9}$/.test(value) ? null : 'Enter a number of up to 9 digits'
+            });
+            if (input === undefined) {
+                return;
             }
+            entered.push(parseInt(input, 10));
         }
+        start = { interchange: entered[0], group: entered[1], transaction: entered[2] };
     }
 
-    console.log(`[EDI Validate] Schema dir: ${schemaDir}`);
-    console.log(`[EDI Validate] Version: ${version}, isEdifact: ${isEdifact}`);
+    const result = resequenceControlNumbers(parsed, start);
+    if (result.edits.length === 0) {
+        vscode.window.showWarningMessage('No envelope control numbers found');
+        return;
+    }
 
-    // Load segment and element schemas
-    let segments: Record<string, any> = {};
-    let elements: Record<string, any> = {};
-    let composites: Record<string, any> = {};
+    if (await applyOffsetEdits(editor, result.edits)) {
+        await workspaceState.update(CONTROL_NUMBER_COUNTER_KEY, result.next);
+        const fileName = editor.document.fileName.split(/[/\\]/).pop() || 'Document';
+        vscode.window.setStatusBarMessage(`${fileName}: Control numbers resequenced`, 3000);
+    }
+}
 
-    const segmentsPath = path.join(schemaDir, 'segments.json');
-    const elementsPath = path.join(schemaDir, 'elements.json');
-    const compositesPath = path.join(schemaDir, 'composites.json');
+/**
+ * Repair the fixed-width ISA fields: pad/truncate ISA02/04/06/08, normalize
+ * ISA09/ISA10, ISA13 and ISA15. Problems without a fix (e.g. ISA16) are reported.
+ */
+async function repairIsaSegment(): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
 
-    console.log(`[EDI Validate] Segments path exists: ${fs.existsSync(segmentsPath)}`);
-    console.log(`[EDI Validate] Elements path exists: ${fs.existsSync(elementsPath)}`);
+    const editor = vscode.window.activeTextEditor!;
+    const parsed = parseDocument(editor.document);
+    if (!parsed || parsed.standard !== 'x12' || !parsed.segments.some(s => s.id === 'ISA')) {
+        vscode.window.showWarningMessage('No ISA segment found');
+        return;
+    }
 
-    if (fs.existsSync(segmentsPath)) {
-        segments = JSON.parse(fs.readFileSync(segmentsPath, 'utf-8'));
-        console.log(`[EDI Validate] Loaded ${Object.keys(segments).length} segments`);
+    const { edits, unresolved } = repairIsa(parsed);
+    if (edits.length > 0 && !await applyOffsetEdits(editor, edits)) {
+        return;
     }
-    if (fs.existsSync(elementsPath)) {
-        elements = JSON.parse(fs.readFileSync(elementsPath, 'utf-8'));
-        console.log(`[EDI Validate] Loaded ${Object.keys(elements).length} elements`);
+
+    const fileName = editor.document.fileName.split(/[/\\]/).pop() || 'Document';
+    if (edits.length > 0) {
+        vscode.window.setStatusBarMessage(`${fileName}: ${edits.length} ISA field(s) repaired`, 3000);
     }
-    if (isEdifact && fs.existsSync(compositesPath)) {
-        composites = JSON.parse(fs.readFileSync(compositesPath, 'utf-8'));
-        console.log(`[EDI Validate] Loaded ${Object.keys(composites).length} composites`);
+    if (unresolved.length > 0) {
+        vscode.window.showWarningMessage(`EDI: ${unresolved.length} ISA problem(s) need manual correction - ${unresolved.map(i => i.message).join('; ')}`);
+    } else if (edits.length === 0) {
+        vscode.window.setStatusBarMessage(`${fileName}: ISA is already well-formed`, 3000);
     }
+}
 
-    const delimiter = isEdifact ? '+' : '*';
+/**
+ * Compare two EDI files by structure: the two files selected in the explorer,
+ * or the active document and a file picked from a dialog
+ */
+async function compareEdiFiles(extensionPath: string, clicked?: vscode.Uri, selected?: vscode.Uri[]): Promise<void> {
+    let uris = selected && selected.length > 0 ? selected : clicked ? [clicked] : [];
+    const active = vscode.window.activeTextEditor?.document;
+    if (uris.length === 1 || (uris.length === 0 && active && (active.languageId === 'x12' || active.languageId === 'edifact'))) {
+        const first = uris[0] || active!.uri;
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Compare',
+            title: `Compare ${path.basename(first.fsPath)} with...`,
+            filters: { 'EDI Files': ['edi', 'x12', 'edifact', 'txt', 'asv'], 'All Files': ['*'] }
+        });
+        if (!picked) {
+            return;
+        }
+        uris = [first, picked[0]];
+    } else if (uris.length === 0) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: 'Compare',
+            filters: { 'EDI Files': ['edi', 'x12', 'edifact', 'txt', 'asv'], 'All Files': ['*'] }
+        });
+        if (!picked) {
+            return;
+        }
+        uris = picked;
+    }
+    if (uris.length !== 2) {
+        vscode.window.showErrorMessage('EDI: Select exactly two files to compare');
+        return;
+    }
 
-    // Validate each line (segment)
-    for (let lineNum = 0; lineNum < document.lineCount; lineNum++) {
-        const line = document.lineAt(lineNum);
-        const lineText = line.text;
+    const sides: Array<{ name: string; parsed: ParsedEdi }> = [];
+    for (const uri of uris) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const parsed = parseEdi(document.getText());
+        if (!parsed) {
+            vscode.window.showErrorMessage(`EDI: ${path.basename(uri.fsPath)} is not an EDI file (no ISA or UNB/UNH envelope found)`);
+            return;
+        }
+        sides.push({ name: path.basename(uri.fsPath), parsed });
+    }
+    const [left, right] = sides;
 
-        if (!lineText.trim()) continue;
+    const ignore = await vscode.window.showQuickPick([
+        { label: 'Ignore control numbers', description: 'ISA13/GS06/ST02, UNB05/UNG05/UNH01 and their trailers', picked: true, key: 'controlNumbers' },
+        { label: 'Ignore dates and times', description: 'ISA09/ISA10/GS04/GS05, UNB04/UNG04', picked: true, key: 'dateTime' }
+    ], { canPickMany: true, placeHolder: 'Comparison options' });
+    if (!ignore) {
+        return;
+    }
+    const options: DiffOptions = {
+        ignoreControlNumbers: ignore.some(i => i.key === 'controlNumbers'),
+        ignoreDateTime: ignore.some(i => i.key === 'dateTime')
+    };
+
+    const output = await vscode.window.showQuickPick([
+        { label: 'Difference report', description: 'Element-level differences with schema names', diff: false },
+        { label: 'Side-by-side diff', description: 'Normalized text (one segment per line) in a diff editor', diff: true }
+    ], { placeHolder: 'Show the comparison as' });
+    if (!output) {
+        return;
+    }
 
-        // Extract segment code
-        const segmentMatch = lineText.match(/^([A-Z0-9]{2,3})(?=\*|\+|:)/);
-        if (!segmentMatch) {
-            continue;
+    const schema = loadValidationSchema(extensionPath, left.parsed);
+    try {
+        if (output.diff) {
+            const [leftDocument, rightDocument] = await Promise.all(sides.map(side => vscode.workspace.openTextDocument({
+                language: side.parsed.standard,
+                content: normalizeDocument(side.parsed, options, schema)
+            })));
+            await vscode.commands.executeCommand('vscode.diff', leftDocument.uri, rightDocument.uri, `${left.name} ↔ ${right.name} (normalized)`);
+            return;
         }
 
-        const segmentCode = segmentMatch[1];
-        const segmentInfo = segments[segmentCode];
+        const differences = compareDocuments(left.parsed, right.parsed, options, schema);
+        const report = await vscode.workspace.openTextDocument({
+            language: 'markdown',
+            content: formatDifferenceReport(left.name, right.name, options, differences)
+        });
+        await vscode.window.showTextDocument(report, { preview: false });
+    } catch (error) {
+        vscode.window.showErrorMessage(`EDI: Comparison failed - ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+function formatDifferenceReport(leftName: string, rightName: string, options: DiffOptions, differences: EdiDifference[]): string {
+    const ignored = [options.ignoreControlNumbers ? 'control numbers' : '', options.ignoreDateTime ? 'dates/times' : ''].filter(Boolean);
+    const lines = [
+        `# EDI Comparison: ${leftName} ↔ ${rightName}`,
+        '',
+        `${differences.length} difference(s)${ignored.length > 0 ? `, ignoring ${ignored.join(' and ')}` : ''}`
+    ];
+
+    let currentPath: string | null = null;
+    for (const difference of differences) {
+        if (difference.path !== currentPath) {
+            currentPath = difference.path;
+            lines.push('', `## ${currentPath || 'Document'}`, '');
+        }
+        const show = (value: string | null) => value === null ? '(none)' : `\`${value}\``;
+        switch (difference.kind) {
+            case 'added':
+                lines.push(`- **${difference.label}** only in ${rightName}: ${show(difference.right)}`);
+                break;
+            case 'removed':
+                lines.push(`- **${difference.label}** only in ${leftName}: ${show(difference.left)}`);
+                break;
+            default:
+                lines.push(`- **${difference.label}**: ${show(difference.left)} → ${show(difference.right)}`);
+                break;
+        }
+    }
+    return lines.join('\n') + '\n';
+}
 
-        if (!segmentInfo || !segmentInfo.elements) {
-            continue;
+/**
+ * Merge the transaction sets/messages of several EDI files into one interchange.
+ * Invoked from the explorer with the selected files, or from the palette with a file dialog.
+ */
+async function mergeFiles(clicked?: vscode.Uri, selected?: vscode.Uri[]): Promise<void> {
+    let uris = selected && selected.length > 0 ? selected : clicked ? [clicked] : [];
+    if (uris.length < 2) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: 'Merge',
+            filters: { 'EDI Files': ['edi', 'x12', 'edifact', 'txt', 'asv'], 'All Files': ['*'] }
+        });
+        if (!picked) {
+            return;
         }
+        uris = picked;
+    }
+    if (uris.length < 2) {
+        vscode.window.showErrorMessage('EDI: Select at least two files to merge');
+        return;
+    }
 
-        // Parse elements
-        const parts = lineText.split(delimiter);
-        let currentPos = segmentCode.length;
+    const sources: MergeSource[] = [];
+    for (const uri of uris) {
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+        const parsed = parseEdi(text);
+        if (!parsed) {
+            vscode.window.showErrorMessage(`EDI: ${path.basename(uri.fsPath)} is not an EDI file (no ISA or UNB/UNH envelope found)`);
+            return;
+        }
+        sources.push({ name: path.basename(uri.fsPath), parsed, text });
+    }
 
-        for (let i = 1; i < parts.length && i <= segmentInfo.elements.length; i++) {
-            currentPos++; // Account for delimiter
-            const elementStart = currentPos;
+    const mixed = sources.find(s => s.parsed.standard !== sources[0].parsed.standard);
+    if (mixed) {
+        vscode.window.showErrorMessage(`EDI: ${mixed.name} is ${mixed.parsed.standard.toUpperCase()} and cannot be merged with ${sources[0].parsed.standard.toUpperCase()} (${sources[0].name})`);
+        return;
+    }
 
-            // Remove segment terminator from last element
-            let elementValue = parts[i];
-            if (i === parts.length - 1) {
-                elementValue = elementValue.replace(/[~'\n\r]+$/g, '');
-            }
+    const check = checkMergeSources(sources);
+    if (check.conflicts.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `EDI: The envelopes do not agree:\n${check.conflicts.join('\n')}`,
+            { modal: true },
+            'Merge Anyway'
+        );
+        if (choice !== 'Merge Anyway') {
+            return;
+        }
+    }
 
-            const elementEnd = elementStart + elementValue.length;
-            currentPos = elementStart + parts[i].length;
+    let separateGroups = false;
+    if (check.functionalIds.length > 1) {
+        const choice = await vscode.window.showWarningMessage(
+            `EDI: The files use different functional IDs (GS01: ${check.functionalIds.join(', ')})`,
+            'Separate GS Groups',
+            'Single GS Group'
+        );
+        if (!choice) {
+            return;
+        }
+        separateGroups = choice === 'Separate GS Groups';
+    }
 
-            // Get element schema
-            const elementInfo = segmentInfo.elements[i - 1];
-            if (!elementInfo) {
-                continue;
-            }
+    let merged: string;
+    try {
+        merged = mergeInterchanges(sources, separateGroups);
+    } catch (error) {
+        vscode.window.showErrorMessage(`EDI: Merge failed - ${error instanceof Error ? error.message : error}`);
+        return;
+    }
 
-            // Build element position label (e.g., "N1-01", "BGM-01")
-            const elemPos = String(i).padStart(2, '0');
-            const elemLabel = `${segmentCode}-${elemPos}`;
-
-            // Check for mandatory blank elements
-            if (!elementValue.trim()) {
-                if (elementInfo.requirement === 'M') {
-                    const range = new vscode.Range(lineNum, elementStart, lineNum, Math.max(elementEnd, elementStart + 1));
-                    const diagnostic = new vscode.Diagnostic(range, `${elemLabel}: Mandatory element blank`, vscode.DiagnosticSeverity.Error);
-                    diagnostic.source = 'EDI Validator';
-                    diagnostic.code = 'mandatory';
-                    diagnostics.push(diagnostic);
-                }
-                continue;
-            }
+    const mergedDocument = await vscode.workspace.openTextDocument({ language: sources[0].parsed.standard, content: merged });
+    await vscode.window.showTextDocument(mergedDocument, { preview: false });
+}
 
-            // Check if this is a composite or simple element
-            // Composites have types like C001, S001, etc.
-            const compositeInfo = isEdifact ? composites[elementInfo.type] : null;
-            const elementDetail = elements[elementInfo.type];
-
-            // For EDIFACT, prioritize composites over simple elements
-            if (compositeInfo) {
-                // Check if this is a single-component composite (no colons) or multi-component
-                const isSingleComponent = !elementValue.includes(':');
-
-                if (isSingleComponent && compositeInfo.components && compositeInfo.components.length > 0) {
-                    // Single component - validate against first component's schema
-                    const componentInfo = compositeInfo.components[0];
-                    const componentDetail = elements[componentInfo.elementId];
-
-                    if (componentDetail && elementValue.trim()) {
-                        const componentSchema = {
-                            dataType: componentDetail.dataType || 'AN',
-                            minLength: componentDetail.minLength || 0,
-                            maxLength: componentDetail.maxLength || 999,
-                            codes: componentDetail.codes,
-                            elementNumber: componentInfo.elementId
-                        };
-                        const validation = validateElement(elementValue, componentSchema);
-
-                        if (!validation.isValid) {
-                            const range = new vscode.Range(lineNum, elementStart, lineNum, elementEnd);
-                            const severity = validation.severity === 'error'
-                                ? vscode.DiagnosticSeverity.Error
-                                : vscode.DiagnosticSeverity.Warning;
-
-                            const diagnostic = new vscode.Diagnostic(range, `${elemLabel}: ${validation.message}`, severity);
-                            diagnostic.source = 'EDI Validator';
-                            diagnostic.code = validation.errorType;
-                            diagnostics.push(diagnostic);
-                        }
-                    }
-                } else {
-                    // Multi-component composite - validate each component
-                    const components = elementValue.split(':');
-                    let compPos = elementStart;
-
-                    // Check if this is a date/time composite (C507, S004, etc.) and extract format qualifier
-                    const isDateComposite = ['C507', 'S004'].includes(elementInfo.type);
-                    const dateFormatQualifier = isDateComposite && components.length >= 3 ? components[2] : undefined;
-
-                    for (let c = 0; c < components.length; c++) {
-                        const compValue = components[c];
-                        const compEnd = compPos + compValue.length;
-                        const compLabel = `${elemLabel}-${String(c + 1).padStart(2, '0')}`;
-
-                        if (compValue.trim() && compositeInfo.components && c < compositeInfo.components.length) {
-                            const componentInfo = compositeInfo.components[c];
-                            const componentDetail = elements[componentInfo.elementId];
-
-                            if (componentDetail) {
-                                let validation;
-
-                                // Special handling for date/time values in date composites
-                                // Component 2 (index 1) is the actual date/time value
-                                if (isDateComposite && c === 1 && dateFormatQualifier) {
-                                    // Use format-aware date validation
-                                    validation = validateDateWithFormat(compValue, dateFormatQualifier);
-                                } else {
-                                    // Standard element validation
-                                    const componentSchema = {
-                                        dataType: componentDetail.dataType || 'AN',
-                                        minLength: componentDetail.minLength || 0,
-                                        maxLength: componentDetail.maxLength || 999,
-                                        codes: componentDetail.codes,
-                                        elementNumber: componentInfo.elementId
-                                    };
-                                    validation = validateElement(compValue, componentSchema);
-                                }
-
-                                if (!validation.isValid) {
-                                    const range = new vscode.Range(lineNum, compPos, lineNum, compEnd);
-                                    const severity = validation.severity === 'error'
-                                        ? vscode.DiagnosticSeverity.Error
-                                        : vscode.DiagnosticSeverity.Warning;
-
-                                    const diagnostic = new vscode.Diagnostic(range, `${compLabel}: ${validation.message}`, severity);
-                                    diagnostic.source = 'EDI Validator';
-                                    diagnostic.code = validation.errorType;
-                                    diagnostics.push(diagnostic);
-                                }
-                            }
-                        } else if (!compValue.trim() && compositeInfo.components && c < compositeInfo.components.length) {
-                            // Check mandatory composite components
-                            const componentInfo = compositeInfo.components[c];
-                            if (componentInfo.requirement === 'M') {
-                                const range = new vscode.Range(lineNum, compPos, lineNum, Math.max(compEnd, compPos + 1));
-                                const diagnostic = new vscode.Diagnostic(range, `${compLabel}: Mandatory component blank`, vscode.DiagnosticSeverity.Error);
-                                diagnostic.source = 'EDI Validator';
-                                diagnostic.code = 'mandatory';
-                                diagnostics.push(diagnostic);
-                            }
-                        }
-
-                        compPos = compEnd + 1; // +1 for ':'
-                    }
-                }
-            } else if (elementDetail) {
-                // This is a simple element
-                const validation = validateElement(elementValue, {
-                    dataType: elementDetail.dataType || 'AN',
-                    minLength: elementDetail.minLength || 0,
-                    maxLength: elementDetail.maxLength || 999,
-                    codes: elementDetail.codes,
-                    elementNumber: elementInfo.type
-                });
-
-                if (!validation.isValid) {
-                    const range = new vscode.Range(lineNum, elementStart, lineNum, elementEnd);
-                    const severity = validation.severity === 'error'
-                        ? vscode.DiagnosticSeverity.Error
-                        : vscode.DiagnosticSeverity.Warning;
-
-                    const diagnostic = new vscode.Diagnostic(range, `${elemLabel}: ${validation.message}`, severity);
-                    diagnostic.source = 'EDI Validator';
-                    diagnostic.code = validation.errorType;
-                    diagnostics.push(diagnostic);
-                }
-            }
+/**
+ * Folder of the document, or one chosen by the user for untitled documents
+ */
+async function getOutputFolder(document: vscode.TextDocument): Promise<vscode.Uri | undefined> {
+    if (document.uri.scheme === 'file') {
+        return vscode.Uri.file(path.dirname(document.uri.fsPath));
+    }
+    const folders = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: 'Write Files Here'
+    });
+    return folders?.[0];
+}
+
+/**
+ * A file name in the folder that doesn't exist yet (name.ext, name_2.ext, ...)
+ */
+async function uniqueFileUri(folder: vscode.Uri, name: string, extension: string): Promise<vscode.Uri> {
+    for (let attempt = 1; ; attempt++) {
+        const uri = vscode.Uri.joinPath(folder, `${name}${attempt > 1 ? `_${attempt}` : ''}${extension}`);
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch {
+            return uri;
         }
+    }
+}
 
-        // Check for trailing missing mandatory elements
-        const parsedElementCount = parts.length - 1; // subtract 1 for segment code
-        if (segmentInfo.elements.length > parsedElementCount) {
-            for (let i = parsedElementCount; i < segmentInfo.elements.length; i++) {
-                const elementInfo = segmentInfo.elements[i];
-                if (elementInfo && elementInfo.requirement === 'M') {
-                    const elemPos = String(i + 1).padStart(2, '0');
-                    const elemLabel = `${segmentCode}-${elemPos}`;
-                    // Point to end of the segment line
-                    const lineEnd = lineText.replace(/[~'\n\r]+$/g, '').length;
-                    const range = new vscode.Range(lineNum, lineEnd, lineNum, lineEnd);
-                    const diagnostic = new vscode.Diagnostic(range, `${elemLabel}: Mandatory element missing`, vscode.DiagnosticSeverity.Error);
-                    diagnostic.source = 'EDI Validator';
-                    diagnostic.code = 'mandatory';
-                    diagnostics.push(diagnostic);
-                }
-            }
+function safeFileName(entry: TransactionEntry): string {
+    return (entry.reference || entry.controlNumber).replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+/**
+ * Get extension path - try extension API first, fallback to __dirname
+ */
+function getExtensionPath(): string {
+    const extension = vscode.extensions.getExtension('RustyJonez.edi-tools');
+    return extension?.extensionPath || path.join(__dirname, '..');
+}
+
+/**
+ * Convert an offset-based validation issue into a diagnostic
+ */
+export function createIssueDiagnostic(document: vscode.TextDocument, issue: ValidationIssue): vscode.Diagnostic {
+    return issueDiagnostic(offsetRange(document, issue.start, issue.end), issue);
+}
+
+function issueDiagnostic(range: vscode.Range, issue: ValidationIssue): vscode.Diagnostic {
+    const severity = issue.severity === 'error'
+        ? vscode.DiagnosticSeverity.Error
+        : vscode.DiagnosticSeverity.Warning;
+
+    const diagnostic = new vscode.Diagnostic(range, issue.message, severity);
+    diagnostic.source = 'EDI Validator';
+    diagnostic.code = issue.code;
+    return diagnostic;
+}
+
+const WORKSPACE_VALIDATION_GLOB = '**/*.{edi,x12,edifact}';
+
+/**
+ * Validate every EDI file matching a glob (or inside a folder picked in the
+ * explorer), fill the Problems panel and open a markdown summary report
+ */
+async function validateWorkspaceFiles(extensionPath: string, folder?: vscode.Uri): Promise<void> {
+    let include: vscode.GlobPattern;
+    let scope: string;
+    if (folder) {
+        include = new vscode.RelativePattern(folder, WORKSPACE_VALIDATION_GLOB);
+        scope = `${vscode.workspace.asRelativePath(folder)}/${WORKSPACE_VALIDATION_GLOB}`;
+    } else {
+        const glob = await vscode.window.showInputBox({
+            prompt: 'Files to validate (glob pattern relative to the workspace folders)',
+            value: WORKSPACE_VALIDATION_GLOB
+        });
+        if (!glob) {
+            return;
         }
+        include = scope = glob;
+    }
+
+    const uris = (await vscode.workspace.findFiles(include, '**/{node_modules,.git}/**'))
+        .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+    if (uris.length === 0) {
+        vscode.window.showInformationMessage(`EDI Validation: No files match ${scope}`);
+        return;
     }
 
-    // Set diagnostics
     const collection = getDiagnosticCollection();
-    collection.set(document.uri, diagnostics);
+    const results: FileValidationResult[] = [];
+    const cancelled = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'EDI: Validating files',
+        cancellable: true
+    }, async (progress, token) => {
+        for (const uri of uris) {
+            if (token.isCancellationRequested) {
+                return true;
+            }
+            const name = vscode.workspace.asRelativePath(uri);
+            progress.report({ message: name, increment: 100 / uris.length });
+            results.push(await validateFile(extensionPath, uri, name, collection));
+        }
+        return false;
+    });
 
-    // Show Problems panel if there are diagnostics
-    if (diagnostics.length > 0) {
+    const report = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: formatValidationReport(results, cancelled ? `${scope} (cancelled after ${results.length} of ${uris.length} files)` : scope)
+    });
+    await vscode.window.showTextDocument(report, { preview: false });
+
+    const errorCount = results.reduce((total, r) => total + r.errors, 0);
+    const warningCount = results.reduce((total, r) => total + r.warnings, 0);
+    if (errorCount + warningCount > 0) {
         vscode.commands.executeCommand('workbench.actions.view.problems');
     }
+    vscode.window.setStatusBarMessage(
+        `EDI Validation: ${results.length} file(s), ${errorCount} error(s), ${warningCount} warning(s)`, 5000);
+}
 
-    // Show summary
-    const errorCount = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
-    const warningCount = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Warning).length;
+/**
+ * Validate one file and set its diagnostics; open documents are validated
+ * with their current (possibly unsaved) text
+ */
+async function validateFile(
+    extensionPath: string,
+    uri: vscode.Uri,
+    name: string,
+    collection: vscode.DiagnosticCollection
+): Promise<FileValidationResult> {
+    try {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        const text = document ? document.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+        const extension = path.extname(uri.fsPath).toLowerCase();
+        const parsed = document
+            ? parseDocument(document)
+            : parseEdi(text, extension === '.edifact' ? 'edifact' : extension === '.x12' ? 'x12' : undefined);
+        if (!parsed) {
+            collection.delete(uri);
+            return failedFile(name, 'No ISA or UNB/UNH envelope found');
+        }
 
-    if (diagnostics.length === 0) {
-        vscode.window.showInformationMessage('EDI Validation: No issues found');
-    } else {
-        vscode.window.showWarningMessage(`EDI Validation: ${errorCount} error(s), ${warningCount} warning(s)`);
+        const issues = validateParsedDocument(parsed, loadValidationSchema(extensionPath, parsed));
+        const positionAt = document ? (offset: number) => document.positionAt(offset) : textPositions(text);
+        collection.set(uri, issues.map(issue => issueDiagnostic(new vscode.Range(positionAt(issue.start), positionAt(issue.end)), issue)));
+        return summarizeFile(name, parsed, issues);
+    } catch (error) {
+        return failedFile(name, `Validation failed - ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Offset to position lookup for text that is not open as a document
+ */
+function textPositions(text: string): (offset: number) => vscode.Position {
+    const lineStarts = [0];
+    for (let index = 0; index < text.length; index++) {
+        if (text[index] === '\n') {
+            lineStarts.push(index + 1);
+        }
     }
+    return offset => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return new vscode.Position(low, offset - lineStarts[low]);
+    };
 }
 
 /**
@@ -1298,50 +1842,289 @@ function clearValidation(): void {
 }
 
 /**
- * Detect EDIFACT version from document
+ * Convert the active EDI document to a JSON tree and open it in a new editor
+ */
+async function convertToJson(): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
+
+    const document = vscode.window.activeTextEditor!.document;
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showErrorMessage('Not an EDI document (no ISA or UNB/UNH envelope found)');
+        return;
+    }
+
+    const schema = loadValidationSchema(getExtensionPath(), parsed);
+    const json = ediToJson(parsed, document.getText(), schema);
+
+    const jsonDocument = await vscode.workspace.openTextDocument({
+        language: 'json',
+        content: JSON.stringify(json, null, 2)
+    });
+    await vscode.window.showTextDocument(jsonDocument, { preview: false });
+}
+
+/**
+ * Open the translated view of the transaction set/message at the cursor,
+ * or of one picked from a list
  */
-function detectEdifactVersionFromDoc(document: vscode.TextDocument): string {
-    const lineCount = Math.min(20, document.lineCount);
-    for (let i = 0; i < lineCount; i++) {
-        const line = document.lineAt(i).text;
-        const unhMatch = line.match(/^UNH\+[^+]+\+[^:]+:D:(\d{2}[AB]):UN/i);
-        if (unhMatch) {
-            return 'd' + unhMatch[1].toLowerCase();
+async function showTransactionView(hoverProvider: EdiHoverProvider): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor!;
+    const document = editor.document;
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showErrorMessage('Not an EDI document (no ISA or UNB/UNH envelope found)');
+        return;
+    }
+
+    const entries = listTransactions(parsed);
+    if (entries.length === 0) {
+        vscode.window.showErrorMessage('No transaction sets or messages found');
+        return;
+    }
+
+    const offset = document.offsetAt(editor.selection.active);
+    let entry = entries.find(e => offset >= e.segments[0].start && offset < e.segments[e.segments.length - 1].terminatorEnd);
+    if (!entry && entries.length === 1) {
+        entry = entries[0];
+    }
+    if (!entry) {
+        const picked = await vscode.window.showQuickPick(entries.map(e => ({
+            label: `${e.type} #${e.controlNumber}`,
+            description: e.reference ? `${e.referenceLabel} ${e.reference}` : '',
+            detail: `${e.segments.length} segments`,
+            entry: e
+        })), { placeHolder: 'Select the transaction set/message to show' });
+        if (!picked) {
+            return;
         }
+        entry = picked.entry;
     }
-    return 'd96a'; // Default fallback
+
+    const schema = await hoverProvider.getSchemaLookup(document);
+    const { type, controlNumber } = entry;
+    const index = entries.indexOf(entry);
+    // After an edit, the transaction is found again by type and control number, else by position
+    showTranslatedView(document, () => {
+        const current = parseDocument(document);
+        const candidates = current ? listTransactions(current) : [];
+        const found = candidates.find(e => e.type === type && e.controlNumber === controlNumber) || candidates[index];
+        return found ? translateTransaction(found, schema) : null;
+    });
 }
 
+const ELEMENT_QUERY_KEY = 'ediX12Tools.lastElementQuery';
+
 /**
- * Detect X12 version from document
+ * Search the active document with an element path query and jump to the
+ * picked match; the highlighted match is previewed in the editor
  */
-function detectX12VersionFromDoc(document: vscode.TextDocument): string {
-    if (document.lineCount > 0) {
-        const firstLine = document.lineAt(0).text;
-        if (firstLine.startsWith('ISA') && firstLine.length >= 89) {
-            const isaVersion = firstLine.substring(84, 89).trim();
-            // Convert 5-char format (00401) to 6-char format (004010)
-            let version = isaVersion.length === 5 ? isaVersion + '0' : isaVersion;
-
-            // Map common version variations to available schemas
-            // e.g., 004000 -> 004010 (closest match)
-            const versionMappings: Record<string, string> = {
-                '002000': '002040',
-                '003000': '003010',
-                '004000': '004010',
-                '005000': '005010',
-                '006000': '006010',
-                '007000': '007010',
-                '008000': '008010',
-            };
-
-            if (versionMappings[version]) {
-                console.log(`[EDI Validate] Mapping version ${version} to ${versionMappings[version]}`);
-                version = versionMappings[version];
+async function findElementsByPath(extensionPath: string, workspaceState: vscode.Memento): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor!;
+    const document = editor.document;
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showErrorMessage('Not an EDI document (no ISA or UNB/UNH envelope found)');
+        return;
+    }
+
+    const query = await vscode.window.showInputBox({
+        prompt: 'Element path, e.g. REF02 where REF01=PO, N1[N101=ST]/N104 or LIN/PIA-02',
+        placeHolder: 'N1[N101=ST]/N104',
+        value: workspaceState.get<string>(ELEMENT_QUERY_KEY, ''),
+        validateInput: text => {
+            try {
+                parseElementQuery(text);
+                return null;
+            } catch (error) {
+                return error instanceof Error ? error.message : String(error);
             }
+        }
+    });
+    if (!query) {
+        return;
+    }
+    await workspaceState.update(ELEMENT_QUERY_KEY, query);
+
+    const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
+    const matches = findElements(parsed, query, loadValidationSchema(extensionPath, parsed));
+    if (matches.length === 0) {
+        vscode.window.showInformationMessage(`${fileName}: No matches for ${query}`);
+        return;
+    }
+
+    const select = (start: number, end: number) => {
+        const range = offsetRange(document, start, end);
+        editor.selection = new vscode.Selection(range.start, range.end);
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    };
+    const originalSelection = editor.selection;
+
+    const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { start: number; end: number }>();
+    quickPick.title = `${query} - ${matches.length} match${matches.length === 1 ? '' : 'es'}`;
+    quickPick.placeholder = 'Filter matches by value or transaction';
+    quickPick.matchOnDescription = true;
+    quickPick.items = matches.map(match => {
+        const transaction = match.transaction;
+        const context = transaction
+            ? `${transaction.type} #${transaction.controlNumber}${transaction.reference ? ` ${transaction.referenceLabel} ${transaction.reference}` : ''}`
+            : 'Envelope';
+        return {
+            label: match.value,
+            description: `${match.label} · ${context}`,
+            detail: `Line ${document.positionAt(match.start).line + 1}: ${document.getText(offsetRange(document, match.segment.start, match.segment.end)).substring(0, 120)}`,
+            start: match.start,
+            end: match.end
+        };
+    });
+
+    let accepted = false;
+    quickPick.onDidChangeActive(items => {
+        if (items[0]) {
+            select(items[0].start, items[0].end);
+        }
+    });
+    quickPick.onDidAccept(() => {
+        const item = quickPick.selectedItems[0];
+        if (item) {
+            accepted = true;
+            select(item.start, item.end);
+        }
+        quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+        if (!accepted) {
+            editor.selection = originalSelection;
+            editor.revealRange(originalSelection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+        quickPick.dispose();
+    });
+    quickPick.show();
+}
+
+/**
+ * Convert the active EDI document to XML (loop-nested or flat) and open it in a new editor
+ */
+async function convertToXml(hoverProvider: EdiHoverProvider): Promise<void> {
+    if (!isEdiDocument()) {
+        return;
+    }
+
+    const document = vscode.window.activeTextEditor!.document;
+    const parsed = parseDocument(document);
+    if (!parsed) {
+        vscode.window.showErrorMessage('Not an EDI document (no ISA or UNB/UNH envelope found)');
+        return;
+    }
+
+    const choice = await vscode.window.showQuickPick([
+        { label: 'Loop-nested', description: 'Envelopes, transaction sets and loops as nested elements', layout: 'nested' as XmlLayout },
+        { label: 'Flat segment list', description: 'All segments directly under the root', layout: 'flat' as XmlLayout }
+    ], { placeHolder: 'XML layout' });
+    if (!choice) {
+        return;
+    }
+
+    const schema = await hoverProvider.getSchemaLookup(document);
+    const xml = ediToXml(parsed, document.getText(), choice.layout, schema);
+
+    const xmlDocument = await vscode.workspace.openTextDocument({
+        language: 'xml',
+        content: xml
+    });
+    await vscode.window.showTextDocument(xmlDocument, { preview: false });
+}
+
+/**
+ * Rebuild EDI from a JSON tree (created by convertToJson) in the active editor
+ */
+async function convertJsonToEdi(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor');
+        return;
+    }
 
-            return version;
+    let json: EdiJsonDocument;
+    try {
+        json = JSON.parse(editor.document.getText());
+    } catch (error) {
+        vscode.window.showErrorMessage(`EDI: Active document is not valid JSON (${error instanceof Error ? error.message : error})`);
+        return;
+    }
+    if (!json || !json.delimiters) {
+        vscode.window.showErrorMessage('EDI: Not an EDI JSON document (expected "standard", "delimiters" and "content")');
+        return;
+    }
+
+    const delimiters = await pickDelimiters(json.delimiters);
+    if (delimiters === undefined) {
+        return;
+    }
+
+    let text: string;
+    try {
+        text = jsonToEdi(json, delimiters || undefined);
+    } catch (error) {
+        vscode.window.showErrorMessage(`EDI: Cannot convert JSON to EDI - ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const ediDocument = await vscode.workspace.openTextDocument({
+        language: json.standard === 'edifact' ? 'edifact' : 'x12',
+        content: text
+    });
+    await vscode.window.showTextDocument(ediDocument, { preview: false });
+}
+
+/**
+ * Ask whether to keep the original delimiters (null) or use custom ones.
+ * Returns undefined when cancelled.
+ */
+async function pickDelimiters(original: Delimiters): Promise<Delimiters | null | undefined> {
+    const show = (d: Delimiters) => [d.element, d.component, d.segment, d.repetition || '']
+        .map(c => c === '\n' ? '\\n' : c)
+        .join('');
+
+    const choice = await vscode.window.showQuickPick([
+        { label: 'Original delimiters', description: show(original), custom: false },
+        { label: 'Choose delimiters...', description: 'Element, component, segment, repetition', custom: true }
+    ], { placeHolder: 'Delimiters for the EDI output' });
+    if (!choice) {
+        return undefined;
+    }
+    if (!choice.custom) {
+        return null;
+    }
+
+    const input = await vscode.window.showInputBox({
+        prompt: 'Element, component, segment and (optional) repetition characters. Use \\n for a newline terminator.',
+        value: show(original),
+        validateInput: value => {
+            const chars = value.replace(/\\n/g, '\n').split('');
+            if (chars.length < 3 || chars.length > 4) {
+                return 'Enter 3 or 4 characters';
+            }
+            if (new Set(chars).size !== chars.length) {
+                return 'Delimiters must all be different';
+            }
+            return null;
         }
+    });
+    if (input === undefined) {
+        return undefined;
     }
-    return '004010'; // Default fallback
+
+    const [element, component, segment, repetition] = input.replace(/\\n/g, '\n').split('');
+    return { ...original, element, component, segment, repetition };
 }
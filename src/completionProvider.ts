@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { getCodeSuggestions, getSegmentSuggestions } from './completions';
+import { loadValidationSchema, ValidationSchema } from './documentValidator';
+import { parseDocument, ParsedEdi } from './parser';
+
+/**
+ * Provides completions for EDI documents:
+ * - Segment IDs at the start of a segment (X12: what the transaction structure allows next)
+ * - Code values with descriptions inside coded elements and components
+ */
+export class EdiCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private extensionPath: string) {}
+
+    public provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+        _context: vscode.CompletionContext
+    ): vscode.CompletionItem[] {
+        const parsed = parseDocument(document);
+        if (!parsed) {
+            return [];
+        }
+        const schema = loadValidationSchema(this.extensionPath, parsed);
+
+        // The segment tag being typed, if the cursor is at the start of a segment
+        const lineBefore = document.lineAt(position).text.substring(0, position.character);
+        const word = /[A-Za-z0-9]*$/.exec(lineBefore)![0];
+        const before = lineBefore.substring(0, lineBefore.length - word.length);
+        if (word.length <= 3 && (before.trim() === '' || before.endsWith(parsed.delimiters.segment))) {
+            const wordStart = document.offsetAt(position) - word.length;
+            const range = new vscode.Range(position.translate(0, -word.length), position);
+            return this.segmentCompletions(parsed, schema, wordStart, range);
+        }
+
+        return this.codeCompletions(document, parsed, schema, document.offsetAt(position));
+    }
+
+    private segmentCompletions(parsed: ParsedEdi, schema: ValidationSchema, offset: number, range: vscode.Range): vscode.CompletionItem[] {
+        const { ids, ordered } = getSegmentSuggestions(parsed, schema, offset);
+        return ids.map((id, index) => {
+            const item = new vscode.CompletionItem(id, vscode.CompletionItemKind.Struct);
+            item.detail = schema.segments[id]?.description || '';
+            item.insertText = id + parsed.delimiters.element;
+            item.range = range;
+            // Keep structure order rather than alphabetical
+            if (ordered) {
+                item.sortText = String(index).padStart(4, '0');
+            }
+            return item;
+        });
+    }
+
+    private codeCompletions(document: vscode.TextDocument, parsed: ParsedEdi, schema: ValidationSchema, offset: number): vscode.CompletionItem[] {
+        const suggestions = getCodeSuggestions(parsed, schema, offset);
+        if (!suggestions) {
+            return [];
+        }
+
+        const range = new vscode.Range(document.positionAt(suggestions.start), document.positionAt(suggestions.end));
+        return suggestions.codes.map(code => {
+            const item = new vscode.CompletionItem(code.code, vscode.CompletionItemKind.EnumMember);
+            item.detail = code.description;
+            item.range = range;
+            // Match on the description as well as the code
+            item.filterText = `${code.code} ${code.description}`;
+            return item;
+        });
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Completion Suggestions
+ *
+ * What to suggest at an offset of a parsed document: segment IDs at the start
+ * of a segment (inside an open X12 transaction set, what its structure allows
+ * next, in structure order), or the code values of the coded element or
+ * component under the cursor.
+ */
+
+import { resolveElementSchema, ValidationSchema } from './documentValidator';
+import type { CodeValue } from './hoverProvider';
+import { findElementIndexAt, findRepetitionAt, findSegmentAt, getTransactions, ParsedEdi } from './parser';
+import { getExpectedSegments, getTransactionStructure } from './transactionStructure';
+
+export interface SegmentSuggestions {
+    ids: string[];
+    ordered: boolean;               // In structure order rather than alphabetical
+}
+
+export interface CodeSuggestions {
+    codes: CodeValue[];
+    start: number;                  // Offsets of the value being replaced
+    end: number;
+}
+
+/**
+ * Segment IDs to suggest for a segment starting at `offset`
+ */
+export function getSegmentSuggestions(parsed: ParsedEdi, schema: ValidationSchema, offset: number): SegmentSuggestions {
+    // Inside an open X12 transaction set, suggest what the structure allows next
+    if (!schema.isEdifact) {
+        const transaction = getTransactions(parsed).find(t => t.segments[0].start < offset &&
+            (t.segments[t.segments.length - 1].id !== 'SE' || t.segments[t.segments.length - 1].start >= offset));
+        const structure = transaction && getTransactionStructure(schema.schemaDir, transaction.type);
+        if (transaction && structure) {
+            return { ids: getExpectedSegments(transaction.segments.filter(s => s.start < offset), structure), ordered: true };
+        }
+    }
+    return { ids: Object.keys(schema.segments).sort(), ordered: false };
+}
+
+/**
+ * Code values for the coded element or component at `offset`, or null when it has none
+ */
+export function getCodeSuggestions(parsed: ParsedEdi, schema: ValidationSchema, offset: number): CodeSuggestions | null {
+    const segment = findSegmentAt(parsed, offset);
+    if (!segment || offset > segment.end || offset <= segment.start + segment.id.length) {
+        return null;
+    }
+
+    const elementIndex = findElementIndexAt(segment, offset);
+    if (elementIndex < 0) {
+        return null;
+    }
+
+    const repetition = findRepetitionAt(segment.elements[elementIndex], offset);
+    const componentIndex = repetition.components.findIndex(c => offset >= c.start && offset <= c.end);
+    const token = repetition.components[componentIndex] || repetition;
+
+    const codes = resolveElementSchema(schema, segment.id, elementIndex, Math.max(componentIndex, 0))?.codes;
+    if (!codes || codes.length === 0) {
+        return null;
+    }
+    return { codes, start: token.start, end: token.end };
+}
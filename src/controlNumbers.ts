@@ -0,0 +1,96 @@
+/**
+ * Control Number Resequencing
+ *
+ * Renumbers every envelope of a document from given start values and keeps
+ * each trailer in step with its header:
+ *   X12:     ISA13/IEA02, GS06/GE02, ST02/SE02
+ *   EDIFACT: UNB05/UNZ02, UNG05/UNE02, UNH01/UNT02
+ * Numbers run on across the document (the second GS gets the next group number)
+ * and wrap from 999999999 back to 1, so ISA13 never grows past its 9 digits.
+ */
+
+import { EnvelopeLevel, getEnvelopeLevels } from './envelopeValidator';
+import { EdiSegment, escapeValue, ParsedEdi } from './parser';
+
+export interface ControlNumberSet {
+    interchange: number;
+    group: number;
+    transaction: number;
+}
+
+export interface ControlNumberEdit {
+    start: number;
+    end: number;
+    value: string;
+}
+
+export interface ResequenceResult {
+    edits: ControlNumberEdit[];
+    next: ControlNumberSet;      // First unused numbers, e.g. for a saved counter
+}
+
+// Minimum widths: ISA13 is fixed at 9 digits, ST02 is 4-9 characters
+const X12_WIDTHS = [9, 0, 4];
+
+const MAX_CONTROL_NUMBER = 999999999;
+
+/**
+ * Compute the edits that renumber every envelope from the start values
+ */
+export function resequenceControlNumbers(parsed: ParsedEdi, start: ControlNumberSet): ResequenceResult {
+    const levels = getEnvelopeLevels(parsed.standard);
+    const headers = new Map(levels.map(l => [l.header, l]));
+    const trailers = new Map(levels.map(l => [l.trailer, l]));
+    const transactionDepth = levels.length - 1;
+
+    const next: ControlNumberSet = {
+        interchange: wrapControlNumber(start.interchange),
+        group: wrapControlNumber(start.group),
+        transaction: wrapControlNumber(start.transaction)
+    };
+    const edits: ControlNumberEdit[] = [];
+    const open: Array<{ level: EnvelopeLevel; value: string }> = [];
+
+    for (const segment of parsed.segments) {
+        const headerLevel = headers.get(segment.id);
+        if (headerLevel) {
+            while (open.length > 0 && open[open.length - 1].level.depth >= headerLevel.depth) {
+                open.pop();
+            }
+
+            const key = headerLevel.depth === 0 ? 'interchange' : headerLevel.depth === transactionDepth ? 'transaction' : 'group';
+            const width = parsed.standard === 'x12' ? X12_WIDTHS[headerLevel.depth] : 0;
+            const value = String(next[key]).padStart(width, '0');
+            next[key] = wrapControlNumber(next[key] + 1);
+
+            pushEdit(edits, segment, headerLevel.headerControl, value, parsed);
+            open.push({ level: headerLevel, value });
+            continue;
+        }
+
+        const trailerLevel = trailers.get(segment.id);
+        if (trailerLevel) {
+            let index = open.length - 1;
+            while (index >= 0 && open[index].level !== trailerLevel) {
+                index--;
+            }
+            if (index >= 0) {
+                pushEdit(edits, segment, trailerLevel.trailerControl, open[index].value, parsed);
+                open.length = index;
+            }
+        }
+    }
+
+    return { edits, next };
+}
+
+function wrapControlNumber(value: number): number {
+    return value > MAX_CONTROL_NUMBER ? 1 : value;
+}
+
+function pushEdit(edits: ControlNumberEdit[], segment: EdiSegment, position: number, value: string, parsed: ParsedEdi): void {
+    const element = segment.elements[position - 1];
+    if (element) {
+        edits.push({ start: element.start, end: element.end, value: escapeValue(value, parsed.delimiters) });
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * Delimiter Profiles
+ *
+ * Rewrites a document with a target set of delimiters and line endings:
+ * - Every segment is re-encoded from its parsed values, so values and
+ *   released characters survive a delimiter change
+ * - X12: ISA16 (component) and, from 00501, ISA11 (repetition) carry the
+ *   new separators; EDIFACT: the UNA service string advice is written
+ * - Line endings after each terminator: none (compact wire format), LF or CRLF
+ * Profiles come from built-ins or the "ediX12Tools.format.profiles" setting.
+ */
+
+import { Delimiters, EdiSegment, EdiStandard, escapeValue, ParsedEdi } from './parser';
+import { isRecord } from './settingsValues';
+
+export type LineEnding = 'none' | 'lf' | 'crlf';
+
+export interface DelimiterProfile {
+    name: string;
+    standard?: EdiStandard;      // Only offered for this standard when set
+    element?: string;            // Omitted delimiters keep the document's current ones
+    component?: string;
+    segment?: string;            // "\n" for newline-terminated segments
+    repetition?: string;
+    release?: string;            // EDIFACT only
+    lineEnding?: LineEnding;     // Default: "lf"
+}
+
+export const BUILTIN_PROFILES: DelimiterProfile[] = [
+    { name: 'Standard X12 (* > ^ ~)', standard: 'x12', element: '*', component: '>', repetition: '^', segment: '~', lineEnding: 'lf' },
+    { name: 'Pipe-delimited, newline-terminated (| ^ ~)', standard: 'x12', element: '|', component: '^', repetition: '~', segment: '\n', lineEnding: 'lf' },
+    { name: "Standard EDIFACT (: + ? ')", standard: 'edifact', element: '+', component: ':', release: '?', segment: "'", lineEnding: 'lf' },
+    { name: 'Keep delimiters, CRLF line endings', lineEnding: 'crlf' },
+    { name: 'Keep delimiters, compact (no line breaks)', lineEnding: 'none' }
+];
+
+const DEFAULT_UNA: Delimiters = { component: ':', element: '+', decimal: '.', release: '?', segment: "'" };
+
+/**
+ * Keep the well-formed profiles of a settings value
+ */
+export function normalizeDelimiterProfiles(raw: unknown): DelimiterProfile[] {
+    const list: unknown[] = Array.isArray(raw) ? raw : [];
+    return list.filter((p): p is DelimiterProfile => isRecord(p) && typeof p.name === 'string' && p.name.trim() !== '');
+}
+
+/**
+ * The delimiters a profile produces for a document (omitted ones are kept)
+ */
+export function resolveDelimiters(parsed: ParsedEdi, profile: DelimiterProfile): Delimiters {
+    const current = parsed.delimiters;
+    const isEdifact = parsed.standard === 'edifact';
+    // The repetition separator only exists where the document already has one (ISA11 from 00501, UNA)
+    const keepsRepetition = isEdifact || current.repetition !== undefined;
+    return {
+        element: profile.element ?? current.element,
+        component: profile.component ?? current.component,
+        segment: profile.segment ?? current.segment,
+        repetition: keepsRepetition ? profile.repetition ?? current.repetition : undefined,
+        release: isEdifact ? profile.release ?? current.release : undefined,
+        decimal: current.decimal
+    };
+}
+
+/**
+ * Describe why a set of delimiters cannot be used, or null when it can
+ */
+export function checkDelimiters(delimiters: Delimiters): string | null {
+    const used = [delimiters.element, delimiters.component, delimiters.segment, delimiters.repetition, delimiters.release]
+        .filter((d): d is string => d !== undefined);
+    for (const delimiter of used) {
+        if (delimiter.length !== 1) {
+            return `Delimiter "${delimiter}" must be a single character`;
+        }
+        if (/[A-Za-z0-9 ]/.test(delimiter)) {
+            return `Delimiter "${delimiter}" must not be a letter, digit or space`;
+        }
+    }
+    const duplicate = used.find((d, index) => used.indexOf(d) !== index);
+    return duplicate ? `Delimiter "${duplicate === '\n' ? '\\n' : duplicate}" is used twice` : null;
+}
+
+/**
+ * Rewrite the whole document with the profile's delimiters and line endings
+ */
+export function applyDelimiterProfile(parsed: ParsedEdi, profile: DelimiterProfile): string {
+    const target = resolveDelimiters(parsed, profile);
+    const problem = checkDelimiters(target);
+    if (problem) {
+        throw new Error(problem);
+    }
+
+    const lineEnding = profile.lineEnding ?? 'lf';
+    const lineBreak = lineEnding === 'crlf' ? '\r\n' : lineEnding === 'lf' ? '\n' : '';
+    // A newline terminator doubles as the line break
+    const terminator = target.segment === '\n' ? (lineEnding === 'crlf' ? '\r\n' : '\n') : target.segment + lineBreak;
+
+    const output: string[] = [];
+    if (parsed.standard === 'edifact') {
+        const hasUna = parsed.segments[0]?.id === 'UNA';
+        const isDefault = (['component', 'element', 'release', 'segment'] as const).every(key => target[key] === DEFAULT_UNA[key]) &&
+            target.repetition === undefined;
+        if (hasUna || !isDefault) {
+            output.push(writeUna(target) + (target.segment === '\n' ? '' : lineBreak));
+        }
+    }
+
+    for (const segment of parsed.segments) {
+        if (segment.id === 'UNA') {
+            continue;
+        }
+        const text = segment.id === 'ISA' && parsed.standard === 'x12'
+            ? writeIsa(segment, parsed.delimiters, target)
+            : encodeSegment(segment, target);
+        output.push(text.substring(0, text.length - target.segment.length) + terminator);
+    }
+
+    return output.join('');
+}
+
+/**
+ * Remove the line breaks between segments (compact single-line wire format)
+ */
+export function compactDocument(parsed: ParsedEdi, text: string): string {
+    if (parsed.delimiters.segment === '\n') {
+        throw new Error('Segments are newline-terminated - choose a segment terminator first');
+    }
+    return parsed.segments.map(segment => text.substring(segment.start, segment.terminatorEnd)).join('');
+}
+
+/**
+ * Write a segment from its parsed values with the target delimiters,
+ * replacing some element values (1-based positions)
+ */
+export function encodeSegment(segment: EdiSegment, target: Delimiters, replacements: Record<number, string> = {}): string {
+    // X12 has no release character - values containing a target delimiter cannot be written
+    const encode = (value: string) => {
+        const clash = target.release ? undefined : [target.element, target.component, target.segment, target.repetition]
+            .find(d => d && value.includes(d));
+        if (clash) {
+            throw new Error(`${segment.id}: Value "${value}" contains the delimiter "${clash === '\n' ? '\\n' : clash}"`);
+        }
+        return escapeValue(value, target);
+    };
+
+    const values = segment.elements.map((element, index) => {
+        if (replacements[index + 1] !== undefined) {
+            return encode(replacements[index + 1]);
+        }
+        if (element.repetitions.length > 1 && !target.repetition) {
+            throw new Error(`${segment.id}: Repeated element but no repetition separator`);
+        }
+        return element.repetitions
+            .map(repetition => repetition.components.length > 1
+                ? repetition.components.map(c => encode(c.value)).join(target.component)
+                : encode(repetition.value))
+            .join(target.repetition || '');
+    });
+    return [segment.id, ...values].join(target.element) + target.segment;
+}
+
+/**
+ * ISA values are raw and fixed width; ISA11 and ISA16 hold the separators
+ */
+function writeIsa(segment: EdiSegment, source: Delimiters, target: Delimiters): string {
+    const values = segment.elements.map(element => element.value);
+    if (source.repetition !== undefined && target.repetition !== undefined && values.length > 10) {
+        values[10] = target.repetition;
+    }
+    if (values.length > 15) {
+        values[15] = target.component;
+    }
+    const clash = values.find(value => value.includes(target.element) || value.includes(target.segment));
+    if (clash !== undefined) {
+        throw new Error(`ISA: Value "${clash}" contains a target delimiter`);
+    }
+    return [segment.id, ...values].join(target.element) + target.segment;
+}
+
+/**
+ * UNA + component, element, decimal, release, repetition (or space), segment
+ */
+function writeUna(delimiters: Delimiters): string {
+    return 'UNA' + delimiters.component + delimiters.element + (delimiters.decimal || '.') +
+        (delimiters.release || ' ') + (delimiters.repetition || ' ') + delimiters.segment;
+}
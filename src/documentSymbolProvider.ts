@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import { buildDocumentTree, EdiNode, EdiNodeKind } from './documentTree';
+import { loadValidationSchema } from './documentValidator';
+import { parseDocument } from './parser';
+
+const SYMBOL_KINDS: Record<EdiNodeKind, vscode.SymbolKind> = {
+    interchange: vscode.SymbolKind.Module,
+    group: vscode.SymbolKind.Namespace,
+    transaction: vscode.SymbolKind.Class,
+    loop: vscode.SymbolKind.Struct,
+    segment: vscode.SymbolKind.Field
+};
+
+/**
+ * Provides the Outline view and breadcrumbs for EDI documents
+ * Interchange -> group -> transaction set/message -> loops -> segments
+ */
+export class EdiDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    constructor(private extensionPath: string) {}
+
+    public provideDocumentSymbols(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.DocumentSymbol[] {
+        const parsed = parseDocument(document);
+        if (!parsed) {
+            return [];
+        }
+
+        const schema = loadValidationSchema(this.extensionPath, parsed);
+        return buildDocumentTree(parsed, schema).map(node => this.toSymbol(document, node));
+    }
+
+    private toSymbol(document: vscode.TextDocument, node: EdiNode): vscode.DocumentSymbol {
+        const start = document.positionAt(node.start);
+        let end = document.positionAt(node.end);
+
+        // Don't let a newline terminator pull the range onto the next line
+        if (end.character === 0 && end.line > start.line) {
+            end = document.lineAt(end.line - 1).range.end;
+        }
+
+        const selection = new vscode.Range(start, document.positionAt(node.segment.start + node.segment.id.length));
+        const symbol = new vscode.DocumentSymbol(
+            node.name,
+            node.detail,
+            SYMBOL_KINDS[node.kind],
+            new vscode.Range(start, end),
+            selection
+        );
+        symbol.children = node.children.map(child => this.toSymbol(document, child));
+        return symbol;
+    }
+}
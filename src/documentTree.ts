@@ -0,0 +1,258 @@
+/**
+ * EDI Document Tree
+ *
+ * Builds the envelope hierarchy of a parsed document:
+ *   X12:     ISA -> GS -> ST -> loops -> segments
+ *   EDIFACT: UNB -> UNG -> UNH -> segment groups -> segments
+ * Transaction sets/messages are split into loop instances (segment groups
+ * like "SG2" for EDIFACT) when a structure is bundled for the document's
+ * version and type. Used by the outline,
+ * folding ranges and other views that navigate a document.
+ */
+
+import { EnvelopeLevel, getEnvelopeLevels } from './envelopeValidator';
+import { EdiSegment, getElementValue, ParsedEdi } from './parser';
+import { ValidationSchema } from './documentValidator';
+import { getHeaderStructure, isLoopInstance, LoopInstance, matchTransactionStructure } from './transactionStructure';
+
+export type EdiNodeKind = 'interchange' | 'group' | 'transaction' | 'loop' | 'segment';
+
+export interface EdiNode {
+    kind: EdiNodeKind;
+    id: string;              // Segment ID, or loop ID like "HLLoop1"
+    name: string;            // Display name, e.g. "ST 856 #0001", "HL 3 (Item)"
+    detail: string;          // Secondary text, e.g. sender -> receiver
+    segment: EdiSegment;     // The segment itself, or the header/trigger segment of a container
+    start: number;           // Offset of the first segment
+    end: number;             // Offset just past the terminator of the last segment
+    children: EdiNode[];
+}
+
+// Element positions used to name loop instances: [identifier, qualifier]
+const LOOP_NAME_ELEMENTS: Record<string, [number, number]> = {
+    HL: [1, 3]  // "HL 3 (Item)" - HL01 ID, HL03 level code
+};
+
+interface OpenEnvelope {
+    level: EnvelopeLevel;
+    node: EdiNode;
+    body: EdiSegment[];      // Segments of a transaction set/message, header and trailer included
+}
+
+/**
+ * Build the envelope/transaction/loop tree. Without a schema, transaction sets
+ * list their segments flat and names carry no code descriptions.
+ */
+export function buildDocumentTree(parsed: ParsedEdi, schema?: ValidationSchema): EdiNode[] {
+    const levels = getEnvelopeLevels(parsed.standard);
+    const headers = new Map(levels.map(l => [l.header, l]));
+    const trailers = new Map(levels.map(l => [l.trailer, l]));
+    const transactionDepth = levels.length - 1;
+
+    const roots: EdiNode[] = [];
+    const stack: OpenEnvelope[] = [];
+
+    const addNode = (node: EdiNode) => {
+        const parent = stack[stack.length - 1];
+        if (parent) {
+            parent.node.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    };
+    const close = () => {
+        const open = stack.pop()!;
+        if (open.level.depth === transactionDepth) {
+            open.node.children = buildTransactionChildren(parsed, open.node.segment, open.body, schema);
+        }
+        const last = open.node.children[open.node.children.length - 1];
+        open.node.end = Math.max(open.node.end, last ? last.end : open.node.end);
+    };
+
+    for (const segment of parsed.segments) {
+        const headerLevel = headers.get(segment.id);
+        if (headerLevel) {
+            // A new header closes anything open at the same or a deeper level
+            while (stack.length > 0 && stack[stack.length - 1].level.depth >= headerLevel.depth) {
+                close();
+            }
+            const node = envelopeNode(parsed, headerLevel, segment, schema);
+            addNode(node);
+            stack.push({ level: headerLevel, node, body: [segment] });
+            if (headerLevel.depth !== transactionDepth) {
+                node.children.push(segmentNode(segment, schema));
+            }
+            continue;
+        }
+
+        const trailerLevel = trailers.get(segment.id);
+        const index = trailerLevel ? findOpen(stack, trailerLevel) : -1;
+        if (trailerLevel && index >= 0) {
+            while (stack.length - 1 > index) {
+                close();
+            }
+            const open = stack[stack.length - 1];
+            if (trailerLevel.depth === transactionDepth) {
+                open.body.push(segment);
+            } else {
+                open.node.children.push(segmentNode(segment, schema));
+            }
+            close();
+            continue;
+        }
+
+        // Body segment of a transaction set/message, or a stray segment
+        const current = stack[stack.length - 1];
+        if (current && current.level.depth === transactionDepth) {
+            current.body.push(segment);
+        } else {
+            addNode(segmentNode(segment, schema));
+        }
+    }
+
+    while (stack.length > 0) {
+        close();
+    }
+
+    return roots;
+}
+
+/**
+ * Find the innermost node containing an offset, with its ancestors (outermost first)
+ */
+export function findNodePath(nodes: EdiNode[], offset: number): EdiNode[] {
+    const path: EdiNode[] = [];
+    let level = nodes;
+    for (;;) {
+        const node = level.find(n => offset >= n.start && offset < n.end);
+        if (!node) {
+            return path;
+        }
+        path.push(node);
+        level = node.children;
+    }
+}
+
+/**
+ * Look up the description of a coded element value, e.g. N101 "ST" -> "Ship To"
+ */
+export function describeCodeValue(schema: ValidationSchema | undefined, segmentId: string, position: number, value: string): string | null {
+    if (!schema || !value) {
+        return null;
+    }
+    const elementInfo = schema.segments[segmentId]?.elements?.[position - 1];
+    const codes: Array<{ code: string; description: string }> | undefined = elementInfo && schema.elements[elementInfo.type]?.codes;
+    const match = codes && codes.find(c => c.code === value);
+    return match ? match.description : null;
+}
+
+function findOpen(stack: OpenEnvelope[], level: EnvelopeLevel): number {
+    for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].level === level) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function envelopeNode(parsed: ParsedEdi, level: EnvelopeLevel, header: EdiSegment, schema?: ValidationSchema): EdiNode {
+    const isEdifact = parsed.standard === 'edifact';
+    const control = getElementValue(header, level.headerControl).trim();
+    // EDIFACT party identifiers are composites - show the identification only
+    const party = (position: number) => isEdifact
+        ? header.elements[position - 1]?.components[0]?.value.trim() || ''
+        : getElementValue(header, position).trim();
+
+    let kind: EdiNodeKind;
+    let name: string;
+    let detail = '';
+
+    switch (level.depth) {
+        case 0:
+            kind = 'interchange';
+            name = `${header.id} ${control}`;
+            detail = isEdifact ? `${party(2)} → ${party(3)}` : `${party(6)} → ${party(8)}`;
+            break;
+        case 1:
+            kind = 'group';
+            name = `${header.id} ${getElementValue(header, 1)} #${control}`;
+            detail = `${party(2)} → ${party(3)}`;
+            if (!isEdifact) {
+                detail = describeCodeValue(schema, 'GS', 1, getElementValue(header, 1)) || detail;
+            }
+            break;
+        default: {
+            kind = 'transaction';
+            const type = isEdifact
+                ? header.elements[1]?.components[0]?.value || ''
+                : getElementValue(header, 1);
+            name = `${header.id} ${type} #${control}`;
+            break;
+        }
+    }
+
+    return {
+        kind,
+        id: header.id,
+        name,
+        detail,
+        segment: header,
+        start: header.start,
+        end: header.terminatorEnd,
+        children: []
+    };
+}
+
+function buildTransactionChildren(parsed: ParsedEdi, header: EdiSegment, body: EdiSegment[], schema?: ValidationSchema): EdiNode[] {
+    if (schema) {
+        const structure = getHeaderStructure(schema.schemaDir, header);
+        if (structure) {
+            const root = matchTransactionStructure(body, structure).root;
+            return root.children.map(child => isLoopInstance(child) ? loopNode(child, schema) : segmentNode(child, schema));
+        }
+    }
+    return body.map(segment => segmentNode(segment, schema));
+}
+
+function loopNode(loop: LoopInstance, schema?: ValidationSchema): EdiNode {
+    const children = loop.children.map(child => isLoopInstance(child) ? loopNode(child, schema) : segmentNode(child, schema));
+    const trigger = children[0].segment;
+    const [idPosition, qualifierPosition] = LOOP_NAME_ELEMENTS[trigger.id] || [1, 1];
+
+    const identifier = getElementValue(trigger, idPosition).trim();
+    const qualifier = getElementValue(trigger, qualifierPosition).trim();
+    const description = describeCodeValue(schema, trigger.id, qualifierPosition, qualifier);
+
+    let name = identifier ? `${trigger.id} ${identifier}` : trigger.id;
+    if (description) {
+        name += ` (${description})`;
+    } else if (qualifierPosition !== idPosition && qualifier) {
+        name += ` (${qualifier})`;
+    }
+
+    return {
+        kind: 'loop',
+        id: loop.id,
+        name,
+        detail: loop.id,
+        segment: trigger,
+        start: trigger.start,
+        end: children[children.length - 1].end,
+        children
+    };
+}
+
+function segmentNode(segment: EdiSegment, schema?: ValidationSchema): EdiNode {
+    const first = segment.elements[0]?.value.trim() || '';
+    const label = first.length > 30 ? `${first.substring(0, 30)}…` : first;
+    return {
+        kind: 'segment',
+        id: segment.id,
+        name: label ? `${segment.id} ${label}` : segment.id,
+        detail: describeCodeValue(schema, segment.id, 1, first) || '',
+        segment,
+        start: segment.start,
+        end: segment.terminatorEnd,
+        children: []
+    };
+}
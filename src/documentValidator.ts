@@ -0,0 +1,411 @@
+/**
+ * EDI Document Validation
+ *
+ * Runs all schema checks on a parsed document and returns offset-based issues:
+ * - Element and component length, data type and code lists
+ * - Mandatory elements and components
+ * - X12 relational conditions (syntax notes) - only for segments whose schema
+ *   entry lists them: about 24 common segments (N1, REF, DTM, PO1, TD5, ...)
+ *   from 004010 on; releases 003070 and earlier have none
+ * - Envelope control numbers and counts, ISA fixed-width fields
+ * - X12 loop structure and segment order
+ *
+ * Each check is also available per segment/transaction so callers can
+ * re-validate only part of a document.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EdiSegment, EdiTransaction, getDeclaredVersion, getTransactions, ParsedEdi } from './parser';
+import { validateEnvelopes } from './envelopeValidator';
+import { ISA_CHECKED_POSITIONS } from './isaRepair';
+import { getTransactionStructure, matchTransactionStructure } from './transactionStructure';
+import { ElementSchema, validateDateWithFormat, validateElement, validateSyntaxRules, ValidationIssue, ValidationResult } from './validators';
+
+export interface ValidationSchema {
+    isEdifact: boolean;
+    version: string;                     // Schema version actually used, e.g. "004010", "d96a"
+    schemaDir: string;
+    segments: Record<string, any>;
+    elements: Record<string, any>;
+    composites: Record<string, any>;
+}
+
+// Loaded schemas per schema directory
+const schemaCache = new Map<string, ValidationSchema>();
+
+/**
+ * Resolve the schema directory for a document's declared version, with fallbacks
+ */
+export function resolveSchemaDir(extensionPath: string, parsed: ParsedEdi): { version: string; schemaDir: string } {
+    const isEdifact = parsed.standard === 'edifact';
+    const standardDir = path.join(extensionPath, 'schemas', isEdifact ? 'edifact' : 'x12');
+
+    let version = isEdifact ? detectEdifactVersion(parsed) : detectX12Version(parsed);
+    let schemaDir = path.join(standardDir, version);
+
+    // Fallback to common versions if detected version doesn't exist
+    if (!fs.existsSync(schemaDir)) {
+        console.log(`[EDI Validate] Version ${version} not found, trying fallbacks...`);
+        const fallbackVersions = isEdifact
+            ? ['d96a', 'd01b', 'd03a', 'd98b', 'd21a']
+            : ['004010', '005010', '008010', '003070', '003060', '003010', '007020'];
+
+        for (const fallback of fallbackVersions) {
+            const fallbackDir = path.join(standardDir, fallback);
+            if (fs.existsSync(fallbackDir)) {
+                console.log(`[EDI Validate] Using fallback version: ${fallback}`);
+                version = fallback;
+                schemaDir = fallbackDir;
+                break;
+            }
+        }
+    }
+
+    return { version, schemaDir };
+}
+
+/**
+ * Load (or reuse) the segment, element and composite schemas for a document
+ */
+export function loadValidationSchema(extensionPath: string, parsed: ParsedEdi): ValidationSchema {
+    const { version, schemaDir } = resolveSchemaDir(extensionPath, parsed);
+    const cached = schemaCache.get(schemaDir);
+    if (cached) {
+        return cached;
+    }
+
+    const isEdifact = parsed.standard === 'edifact';
+    const schema: ValidationSchema = { isEdifact, version, schemaDir, segments: {}, elements: {}, composites: {} };
+
+    const segmentsPath = path.join(schemaDir, 'segments.json');
+    const elementsPath = path.join(schemaDir, 'elements.json');
+    const compositesPath = path.join(schemaDir, 'composites.json');
+
+    if (fs.existsSync(segmentsPath)) {
+        schema.segments = JSON.parse(fs.readFileSync(segmentsPath, 'utf-8'));
+        console.log(`[EDI Validate] Loaded ${Object.keys(schema.segments).length} segments from ${schemaDir}`);
+    }
+    if (fs.existsSync(elementsPath)) {
+        schema.elements = JSON.parse(fs.readFileSync(elementsPath, 'utf-8'));
+        console.log(`[EDI Validate] Loaded ${Object.keys(schema.elements).length} elements from ${schemaDir}`);
+    }
+    if (isEdifact && fs.existsSync(compositesPath)) {
+        schema.composites = JSON.parse(fs.readFileSync(compositesPath, 'utf-8'));
+        console.log(`[EDI Validate] Loaded ${Object.keys(schema.composites).length} composites from ${schemaDir}`);
+    }
+
+    schemaCache.set(schemaDir, schema);
+    return schema;
+}
+
+/**
+ * Number of segments with syntax notes in a schema (0 for EDIFACT and for
+ * X12 releases without them)
+ */
+export function countSyntaxNoteSegments(schema: ValidationSchema): number {
+    return Object.values(schema.segments).filter(info => Array.isArray(info?.syntax) && info.syntax.length > 0).length;
+}
+
+/**
+ * Run every check on a parsed document
+ */
+export function validateParsedDocument(parsed: ParsedEdi, schema: ValidationSchema): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const segment of parsed.segments) {
+        issues.push(...validateSegment(segment, schema));
+    }
+    issues.push(...validateEnvelopes(parsed));
+    for (const transaction of getTransactions(parsed)) {
+        issues.push(...validateTransactionStructure(transaction, schema));
+    }
+
+    return issues;
+}
+
+/**
+ * Check loop structure and segment order of an X12 transaction set
+ */
+export function validateTransactionStructure(transaction: EdiTransaction, schema: ValidationSchema): ValidationIssue[] {
+    if (schema.isEdifact) {
+        return [];
+    }
+    const structure = getTransactionStructure(schema.schemaDir, transaction.type);
+    return structure ? matchTransactionStructure(transaction.segments, structure).issues : [];
+}
+
+/**
+ * Validate the elements of a single segment against its schema
+ */
+export function validateSegment(segment: EdiSegment, schema: ValidationSchema): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const segmentCode = segment.id;
+    if (!/^[A-Z0-9]{2,3}$/.test(segmentCode)) {
+        return issues;
+    }
+
+    const segmentInfo = schema.segments[segmentCode];
+    if (!segmentInfo || !segmentInfo.elements) {
+        return issues;
+    }
+
+    for (let i = 1; i <= segment.elements.length && i <= segmentInfo.elements.length; i++) {
+        const element = segment.elements[i - 1];
+        const elementValue = element.value;
+
+        // Get element schema
+        const elementInfo = segmentInfo.elements[i - 1];
+        if (!elementInfo) {
+            continue;
+        }
+
+        // Fixed-width ISA fields (blank-padded IDs, date/time formats) are checked with the envelope
+        if (!schema.isEdifact && segmentCode === 'ISA' && ISA_CHECKED_POSITIONS.includes(i)) {
+            continue;
+        }
+
+        // Build element position label (e.g., "N1-01", "BGM-01")
+        const elemLabel = `${segmentCode}-${String(i).padStart(2, '0')}`;
+
+        // Check for mandatory blank elements
+        if (!elementValue.trim()) {
+            if (elementInfo.requirement === 'M') {
+                issues.push({
+                    start: element.start,
+                    end: Math.max(element.end, element.start + 1),
+                    code: 'mandatory',
+                    message: `${elemLabel}: Mandatory element blank`,
+                    severity: 'error'
+                });
+            }
+            continue;
+        }
+
+        // Check if this is a composite or simple element
+        // Composites have types like C001, S001, etc.
+        const compositeInfo = schema.isEdifact ? schema.composites[elementInfo.type] : null;
+        const elementDetail = schema.elements[elementInfo.type];
+
+        // For EDIFACT, prioritize composites over simple elements
+        if (compositeInfo) {
+            // Check if this is a single-component composite or multi-component
+            const isSingleComponent = element.components.length === 1;
+
+            if (isSingleComponent && compositeInfo.components && compositeInfo.components.length > 0) {
+                // Single component - validate against first component's schema
+                const componentInfo = compositeInfo.components[0];
+                const componentDetail = schema.elements[componentInfo.elementId];
+
+                if (componentDetail) {
+                    const validation = validateElement(elementValue, {
+                        dataType: componentDetail.dataType || 'AN',
+                        minLength: componentDetail.minLength || 0,
+                        maxLength: componentDetail.maxLength || 999,
+                        codes: componentDetail.codes,
+                        elementNumber: componentInfo.elementId
+                    });
+                    if (!validation.isValid) {
+                        issues.push(resultIssue(validation, elemLabel, element.start, element.end));
+                    }
+                }
+            } else {
+                // Multi-component composite - validate each component
+                const components = element.components;
+
+                // Check if this is a date/time composite (C507, S004, etc.) and extract format qualifier
+                const isDateComposite = ['C507', 'S004'].includes(elementInfo.type);
+                const dateFormatQualifier = isDateComposite && components.length >= 3 ? components[2].value : undefined;
+
+                for (let c = 0; c < components.length; c++) {
+                    const component = components[c];
+                    const compLabel = `${elemLabel}-${String(c + 1).padStart(2, '0')}`;
+
+                    if (!compositeInfo.components || c >= compositeInfo.components.length) {
+                        continue;
+                    }
+                    const componentInfo = compositeInfo.components[c];
+
+                    if (component.value.trim()) {
+                        const componentDetail = schema.elements[componentInfo.elementId];
+                        if (!componentDetail) {
+                            continue;
+                        }
+
+                        let validation: ValidationResult;
+
+                        // Special handling for date/time values in date composites
+                        // Component 2 (index 1) is the actual date/time value
+                        if (isDateComposite && c === 1 && dateFormatQualifier) {
+                            // Use format-aware date validation
+                            validation = validateDateWithFormat(component.value, dateFormatQualifier);
+                        } else {
+                            // Standard element validation
+                            validation = validateElement(component.value, {
+                                dataType: componentDetail.dataType || 'AN',
+                                minLength: componentDetail.minLength || 0,
+                                maxLength: componentDetail.maxLength || 999,
+                                codes: componentDetail.codes,
+                                elementNumber: componentInfo.elementId
+                            });
+                        }
+
+                        if (!validation.isValid) {
+                            issues.push(resultIssue(validation, compLabel, component.start, component.end));
+                        }
+                    } else if (componentInfo.requirement === 'M') {
+                        // Check mandatory composite components
+                        issues.push({
+                            start: component.start,
+                            end: Math.max(component.end, component.start + 1),
+                            code: 'mandatory',
+                            message: `${compLabel}: Mandatory component blank`,
+                            severity: 'error'
+                        });
+                    }
+                }
+            }
+        } else if (elementDetail) {
+            // This is a simple element - validate each repetition separately
+            for (const repetition of element.repetitions) {
+                if (!repetition.value.trim()) {
+                    continue;
+                }
+
+                const validation = validateElement(repetition.value, {
+                    dataType: elementDetail.dataType || 'AN',
+                    minLength: elementDetail.minLength || 0,
+                    maxLength: elementDetail.maxLength || 999,
+                    codes: elementDetail.codes,
+                    elementNumber: elementInfo.type
+                });
+                if (!validation.isValid) {
+                    issues.push(resultIssue(validation, elemLabel, repetition.start, repetition.end));
+                }
+            }
+        }
+    }
+
+    // Check for trailing missing mandatory elements - point to the end of the segment
+    for (let i = segment.elements.length; i < segmentInfo.elements.length; i++) {
+        const elementInfo = segmentInfo.elements[i];
+        if (elementInfo && elementInfo.requirement === 'M') {
+            issues.push({
+                start: segment.end,
+                end: segment.end,
+                code: 'mandatory',
+                message: `${segmentCode}-${String(i + 1).padStart(2, '0')}: Mandatory element missing`,
+                severity: 'error'
+            });
+        }
+    }
+
+    // Check relational conditions (X12 syntax notes like P0304, R0203)
+    if (Array.isArray(segmentInfo.syntax)) {
+        const values = segment.elements.map(e => e.value);
+        for (const violation of validateSyntaxRules(segmentCode, segmentInfo.syntax, values)) {
+            for (const position of violation.positions) {
+                // Elements cut off at the end of the segment point to the segment end
+                const element = segment.elements[position - 1];
+                issues.push({
+                    start: element ? element.start : segment.end,
+                    end: element ? Math.max(element.end, element.start + 1) : segment.end,
+                    code: 'syntaxRule',
+                    message: violation.message,
+                    severity: violation.severity
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Resolve the schema of an element - or of one component of an EDIFACT composite -
+ * by 0-based element and component index
+ */
+export function resolveElementSchema(
+    schema: ValidationSchema,
+    segmentId: string,
+    elementIndex: number,
+    componentIndex: number
+): ElementSchema | null {
+    const elementInfo = schema.segments[segmentId]?.elements?.[elementIndex];
+    if (!elementInfo) {
+        return null;
+    }
+
+    let elementNumber: string = elementInfo.type;
+    const compositeInfo = schema.isEdifact ? schema.composites[elementInfo.type] : null;
+    if (compositeInfo) {
+        const componentInfo = compositeInfo.components?.[componentIndex];
+        if (!componentInfo) {
+            return null;
+        }
+        elementNumber = componentInfo.elementId;
+    }
+
+    const detail = schema.elements[elementNumber];
+    if (!detail) {
+        return null;
+    }
+    return {
+        dataType: detail.dataType || 'AN',
+        minLength: detail.minLength || 0,
+        maxLength: detail.maxLength || 999,
+        codes: detail.codes,
+        elementNumber
+    };
+}
+
+function resultIssue(validation: ValidationResult, label: string, start: number, end: number): ValidationIssue {
+    return {
+        start,
+        end,
+        code: validation.errorType || 'invalid',
+        message: `${label}: ${validation.message}`,
+        severity: validation.severity
+    };
+}
+
+/**
+ * Detect EDIFACT schema version from the UNH message identifier
+ */
+function detectEdifactVersion(parsed: ParsedEdi): string {
+    const release = getDeclaredVersion(parsed);
+    if (release && /^\d{2}[AB]$/i.test(release)) {
+        return 'd' + release.toLowerCase();
+    }
+    return 'd96a'; // Default fallback
+}
+
+/**
+ * Detect X12 schema version from ISA12/GS08
+ */
+function detectX12Version(parsed: ParsedEdi): string {
+    const isaVersion = getDeclaredVersion(parsed);
+    if (isaVersion) {
+        // Convert 5-char format (00401) to 6-char format (004010)
+        let version = isaVersion.length === 5 ? isaVersion + '0' : isaVersion.substring(0, 6);
+
+        // Map common version variations to available schemas
+        // e.g., 004000 -> 004010 (closest match)
+        const versionMappings: Record<string, string> = {
+            '002000': '002040',
+            '003000': '003010',
+            '004000': '004010',
+            '005000': '005010',
+            '006000': '006010',
+            '007000': '007010',
+            '008000': '008010',
+        };
+
+        if (versionMappings[version]) {
+            version = versionMappings[version];
+        }
+
+        return version;
+    }
+    return '004010'; // Default fallback
+}
@@ -0,0 +1,269 @@
+/**
+ * Semantic EDI Comparison
+ *
+ * Compares two parsed documents by structure rather than text, so line
+ * breaks and delimiters make no difference:
+ * - Envelopes and transactions are matched in order, loops by their key
+ *   element (PO1 line number, HL ID, ...), repeated segments by qualifier
+ * - Differences are reported per element with the schema element name
+ * - Envelope control numbers and date/time stamps can be ignored
+ * Also writes a normalized text form of a document for a plain diff editor.
+ */
+
+import { buildDocumentTree, EdiNode } from './documentTree';
+import { ValidationSchema } from './documentValidator';
+import { getEnvelopeLevels } from './envelopeValidator';
+import { EdiElement, EdiSegment, EdiStandard, ParsedEdi } from './parser';
+
+export interface DiffOptions {
+    ignoreControlNumbers: boolean;
+    ignoreDateTime: boolean;
+}
+
+export interface EdiDifference {
+    path: string;                // e.g. "ST 850 #0001 › PO1 1"
+    label: string;               // e.g. "PO1-02 Quantity Ordered", or the segment/loop name
+    kind: 'changed' | 'added' | 'removed';
+    left: string | null;
+    right: string | null;
+    leftOffset: number | null;
+    rightOffset: number | null;
+}
+
+// Key element of a loop's trigger segment, used to pair loop instances
+const LOOP_KEYS: Record<string, number> = {
+    PO1: 1,     // Assigned identification (line number)
+    HL: 1,      // Hierarchical ID
+    LIN: 1,
+    IT1: 1,
+    SLN: 1,
+    LX: 1
+};
+
+// Envelope date/time stamps (1-based positions)
+const DATE_TIME_ELEMENTS: Record<EdiStandard, Record<string, number[]>> = {
+    x12: { ISA: [9, 10], GS: [4, 5] },
+    edifact: { UNB: [4], UNG: [4] }
+};
+
+const IGNORED = '{ignored}';
+
+/**
+ * Element-level differences between two documents of the same standard
+ */
+export function compareDocuments(
+    left: ParsedEdi,
+    right: ParsedEdi,
+    options: DiffOptions,
+    schema?: ValidationSchema
+): EdiDifference[] {
+    if (left.standard !== right.standard) {
+        throw new Error(`Cannot compare ${left.standard.toUpperCase()} with ${right.standard.toUpperCase()}`);
+    }
+    const comparer = new DocumentComparer(left.standard, options, schema);
+    comparer.compareLists(buildDocumentTree(left, schema), buildDocumentTree(right, schema), []);
+    return comparer.differences;
+}
+
+/**
+ * One segment per line, indented by envelope/loop depth, with standard
+ * delimiters and ignored values masked
+ */
+export function normalizeDocument(parsed: ParsedEdi, options: DiffOptions, schema?: ValidationSchema): string {
+    const ignored = ignoredPositions(parsed.standard, options);
+    const [element, component, repetition] = parsed.standard === 'edifact' ? ['+', ':', '*'] : ['*', ':', '^'];
+    const lines: string[] = [];
+
+    const visit = (nodes: EdiNode[], depth: number) => {
+        for (const node of nodes) {
+            if (node.kind !== 'segment') {
+                visit(node.children, depth + 1);
+                continue;
+            }
+            const segment = node.segment;
+            if (segment.id === 'UNA') {
+                continue;
+            }
+            const values = segment.elements.map((e, index) => ignored.get(segment.id)?.includes(index + 1)
+                ? IGNORED
+                : elementText(segment, e, component, repetition));
+            lines.push('  '.repeat(Math.max(depth - 1, 0)) + [segment.id, ...values].join(element));
+        }
+    };
+    visit(buildDocumentTree(parsed, schema), 0);
+    return lines.join('\n') + '\n';
+}
+
+class DocumentComparer {
+    public differences: EdiDifference[] = [];
+    private ignored: Map<string, number[]>;
+
+    constructor(standard: EdiStandard, options: DiffOptions, private schema?: ValidationSchema) {
+        this.ignored = ignoredPositions(standard, options);
+    }
+
+    public compareLists(left: EdiNode[], right: EdiNode[], path: string[]): void {
+        // Segments repeated on either side are paired by qualifier on both
+        const repeated = new Set([...repeatedIds(left), ...repeatedIds(right)]);
+        const leftKeyed = keyNodes(left.filter(n => n.id !== 'UNA'), repeated);
+        const rightKeyed = keyNodes(right.filter(n => n.id !== 'UNA'), repeated);
+        const rightByKey = new Map(rightKeyed.map(k => [k.key, k.node]));
+        const leftKeys = new Set(leftKeyed.map(k => k.key));
+
+        for (const { key, node } of leftKeyed) {
+            const match = rightByKey.get(key);
+            if (!match) {
+                this.push(path, node.name, 'removed', describeNode(node), null, node.start, null);
+            } else if (node.kind === 'segment') {
+                this.compareSegments(node.segment, match.segment, path);
+            } else {
+                this.compareLists(node.children, match.children, [...path, node.name]);
+            }
+        }
+        for (const { key, node } of rightKeyed) {
+            if (!leftKeys.has(key)) {
+                this.push(path, node.name, 'added', null, describeNode(node), null, node.start);
+            }
+        }
+    }
+
+    private compareSegments(left: EdiSegment, right: EdiSegment, path: string[]): void {
+        const ignored = this.ignored.get(left.id) || [];
+        const count = Math.max(left.elements.length, right.elements.length);
+        for (let position = 1; position <= count; position++) {
+            if (ignored.includes(position)) {
+                continue;
+            }
+            const leftElement = left.elements[position - 1];
+            const rightElement = right.elements[position - 1];
+            const leftValue = leftElement ? elementText(left, leftElement, ':', '^') : '';
+            const rightValue = rightElement ? elementText(right, rightElement, ':', '^') : '';
+            // The ISA repetition separator (from 00501) is a delimiter, not data
+            if (leftValue === rightValue || (left.id === 'ISA' && position === 11 && !/[A-Za-z0-9]/.test(leftValue + rightValue))) {
+                continue;
+            }
+
+            const name = this.schema?.segments[left.id]?.elements?.[position - 1]?.name;
+            const label = `${left.id}-${String(position).padStart(2, '0')}${name ? ` ${name}` : ''}`;
+            // A loop's trigger segment is already named by the loop
+            const segment = segmentName(left);
+            this.push(
+                path[path.length - 1] === segment ? path : [...path, segment],
+                label,
+                leftValue === '' ? 'added' : rightValue === '' ? 'removed' : 'changed',
+                leftElement ? leftValue : null,
+                rightElement ? rightValue : null,
+                leftElement ? leftElement.start : left.start,
+                rightElement ? rightElement.start : right.start
+            );
+        }
+    }
+
+    private push(
+        path: string[],
+        label: string,
+        kind: EdiDifference['kind'],
+        left: string | null,
+        right: string | null,
+        leftOffset: number | null,
+        rightOffset: number | null
+    ): void {
+        this.differences.push({ path: path.join(' › '), label, kind, left, right, leftOffset, rightOffset });
+    }
+}
+
+/**
+ * Positions left out of the comparison per segment ID
+ */
+function ignoredPositions(standard: EdiStandard, options: DiffOptions): Map<string, number[]> {
+    const ignored = new Map<string, number[]>();
+    const add = (segmentId: string, ...positions: number[]) => {
+        ignored.set(segmentId, [...(ignored.get(segmentId) || []), ...positions]);
+    };
+
+    // ISA16 is the component separator itself
+    if (standard === 'x12') {
+        add('ISA', 16);
+    }
+    if (options.ignoreControlNumbers) {
+        for (const level of getEnvelopeLevels(standard)) {
+            add(level.header, level.headerControl);
+            add(level.trailer, level.trailerControl);
+        }
+    }
+    if (options.ignoreDateTime) {
+        for (const [segmentId, positions] of Object.entries(DATE_TIME_ELEMENTS[standard])) {
+            add(segmentId, ...positions);
+        }
+    }
+    return ignored;
+}
+
+/**
+ * Pair nodes across documents: loops by key element, repeated segments by
+ * qualifier (first element, or its first component for composites such as
+ * EDIFACT DTM+137:20230101:102), everything else by ID and occurrence
+ */
+function keyNodes(nodes: EdiNode[], repeated: Set<string>): Array<{ key: string; node: EdiNode }> {
+    const occurrences = new Map<string, number>();
+    return nodes.map(node => {
+        let base = `${node.kind}:${node.id}`;
+        if (node.kind === 'loop' && LOOP_KEYS[node.segment.id]) {
+            base += `=${node.segment.elements[LOOP_KEYS[node.segment.id] - 1]?.value.trim() || ''}`;
+        } else if (node.kind === 'transaction') {
+            base += `:${transactionType(node.segment)}`;
+        } else if (node.kind === 'segment' && repeated.has(node.id)) {
+            base += `=${qualifier(node.segment)}`;
+        }
+        const occurrence = (occurrences.get(base) || 0) + 1;
+        occurrences.set(base, occurrence);
+        return { key: `${base}#${occurrence}`, node };
+    });
+}
+
+function repeatedIds(nodes: EdiNode[]): string[] {
+    const seen = new Set<string>();
+    const repeated: string[] = [];
+    for (const node of nodes) {
+        if (node.kind === 'segment' && seen.has(node.id)) {
+            repeated.push(node.id);
+        }
+        seen.add(node.id);
+    }
+    return repeated;
+}
+
+function transactionType(header: EdiSegment): string {
+    return header.id === 'UNH'
+        ? header.elements[1]?.components[0]?.value || ''
+        : header.elements[0]?.value || '';
+}
+
+/**
+ * Decoded element value with normalized separators (ISA values are raw fields)
+ */
+function elementText(segment: EdiSegment, element: EdiElement, component: string, repetition: string): string {
+    if (segment.id === 'ISA') {
+        return element.value;
+    }
+    return element.repetitions
+        .map(r => r.components.length > 1 ? r.components.map(c => c.value).join(component) : r.value)
+        .join(repetition);
+}
+
+/**
+ * First element of a segment, or its first component when it is a composite
+ */
+function qualifier(segment: EdiSegment): string {
+    const first = segment.elements[0];
+    return (first?.components[0]?.value ?? first?.value ?? '').trim();
+}
+
+function segmentName(segment: EdiSegment): string {
+    const first = qualifier(segment);
+    return first ? `${segment.id} ${first}` : segment.id;
+}
+
+function describeNode(node: EdiNode): string {
+    return node.kind === 'segment' ? node.name : `${node.name} (${node.kind})`;
+}
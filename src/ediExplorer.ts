@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { buildDocumentTree, EdiNode, EdiNodeKind } from './documentTree';
+import { loadValidationSchema, ValidationSchema } from './documentValidator';
+import { describeValueItem, ExplorerItem, getComponentItems, getElementItems } from './ediExplorerItems';
+import { EdiSchemaLookup, EdiHoverProvider } from './hoverProvider';
+import { parseDocument } from './parser';
+
+const NODE_ICONS: Record<EdiNodeKind, string> = {
+    interchange: 'package',
+    group: 'folder',
+    transaction: 'file-text',
+    loop: 'symbol-structure',
+    segment: 'symbol-field'
+};
+
+/**
+ * "EDI Explorer" view: the active X12/EDIFACT document as a tree of
+ * envelopes -> transactions -> loops -> segments -> elements -> components,
+ * with element names from the hover schemas. Selecting an item selects its
+ * exact range in the editor.
+ */
+export class EdiExplorerProvider implements vscode.TreeDataProvider<ExplorerItem>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<ExplorerItem | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private disposables: vscode.Disposable[] = [this.changeEmitter];
+    private timer: NodeJS.Timeout | undefined;
+    private document: vscode.TextDocument | undefined;
+    private schema: ValidationSchema | undefined;
+    private lookup: EdiSchemaLookup | undefined;
+    private roots: EdiNode[] = [];
+
+    constructor(private extensionPath: string, private hoverProvider: EdiHoverProvider) {
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(() => this.refresh()),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document === this.document && event.contentChanges.length > 0) {
+                    this.scheduleRefresh();
+                }
+            }),
+            vscode.commands.registerCommand('ediX12Tools.explorer.refresh', () => this.refresh()),
+            vscode.commands.registerCommand('ediX12Tools.explorer.reveal', (uri: vscode.Uri, start: number, end: number) => this.reveal(uri, start, end))
+        );
+        this.refresh();
+    }
+
+    dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    public getChildren(item?: ExplorerItem): ExplorerItem[] {
+        if (!item) {
+            return this.roots.map(node => ({ type: 'node', node }));
+        }
+        if (item.type !== 'node') {
+            return getComponentItems(item);
+        }
+        if (item.node.kind !== 'segment') {
+            return item.node.children.map(node => ({ type: 'node', node }));
+        }
+        return getElementItems(item.node.segment);
+    }
+
+    public getTreeItem(item: ExplorerItem): vscode.TreeItem {
+        if (item.type === 'node') {
+            const { node } = item;
+            const hasChildren = node.children.length > 0 || (node.kind === 'segment' && node.segment.elements.length > 0);
+            const treeItem = new vscode.TreeItem(
+                node.name,
+                !hasChildren
+                    ? vscode.TreeItemCollapsibleState.None
+                    : node.kind === 'segment' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded
+            );
+            treeItem.description = node.detail;
+            treeItem.iconPath = new vscode.ThemeIcon(NODE_ICONS[node.kind]);
+            treeItem.tooltip = node.kind === 'segment'
+                ? this.lookup?.getSegment(node.segment.id)?.description || node.segment.id
+                : node.name;
+            treeItem.command = this.revealCommand(node.start, node.kind === 'segment' ? node.segment.end : node.end);
+            return treeItem;
+        }
+
+        const { label, description, tooltip } = describeValueItem(item, this.schema, this.lookup);
+        const treeItem = new vscode.TreeItem(
+            label,
+            item.type === 'element' && item.components.length > 0
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+        treeItem.description = description;
+        treeItem.tooltip = tooltip;
+        treeItem.iconPath = new vscode.ThemeIcon(item.type === 'element' ? 'symbol-variable' : 'symbol-constant');
+        treeItem.command = this.revealCommand(item.token.start, item.token.end);
+        return treeItem;
+    }
+
+    private revealCommand(start: number, end: number): vscode.Command | undefined {
+        return this.document
+            ? { title: 'Reveal', command: 'ediX12Tools.explorer.reveal', arguments: [this.document.uri, start, end] }
+            : undefined;
+    }
+
+    private async reveal(uri: vscode.Uri, start: number, end: number): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const editor = await vscode.window.showTextDocument(document, { preserveFocus: true, preview: false });
+        const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+        editor.selection = new vscode.Selection(range.start, range.end);
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    private scheduleRefresh(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.refresh();
+        }, 300);
+    }
+
+    private async refresh(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        const document = editor && (editor.document.languageId === 'x12' || editor.document.languageId === 'edifact')
+            ? editor.document
+            : undefined;
+
+        // Keep showing the last EDI document while another kind of editor (e.g. output) is active
+        if (!document && editor) {
+            return;
+        }
+
+        const parsed = document ? parseDocument(document) : null;
+        this.document = document;
+        this.schema = parsed ? loadValidationSchema(this.extensionPath, parsed) : undefined;
+        this.lookup = document ? await this.hoverProvider.getSchemaLookup(document) : undefined;
+        this.roots = parsed ? buildDocumentTree(parsed, this.schema) : [];
+        this.changeEmitter.fire(undefined);
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * EDI Explorer Items
+ *
+ * The element and component items below a segment in the EDI Explorer, and
+ * their labels: the tag ("BEG03", "BGM01-02" for a component), the schema
+ * name, and the value with its code description.
+ */
+
+import { describeCodeValue, EdiNode } from './documentTree';
+import { ValidationSchema } from './documentValidator';
+import type { EdiSchemaLookup } from './hoverProvider';
+import { EdiSegment, EdiToken } from './parser';
+
+export type ExplorerItem =
+    | { type: 'node'; node: EdiNode }
+    | ExplorerValueItem;
+
+export type ExplorerValueItem =
+    | { type: 'element'; segment: EdiSegment; position: number; token: EdiToken; components: EdiToken[]; repetition: number }
+    | { type: 'component'; segment: EdiSegment; position: number; component: number; token: EdiToken };
+
+export interface ExplorerValueLabel {
+    label: string;               // Tag and schema name, e.g. "BEG03 Purchase Order Number"
+    description: string;         // Value, with the code description when it is a known code
+    tooltip: string;
+}
+
+/**
+ * Elements of a segment; repeated elements get one item per repetition
+ */
+export function getElementItems(segment: EdiSegment): ExplorerValueItem[] {
+    const items: ExplorerValueItem[] = [];
+    segment.elements.forEach((element, index) => {
+        // ISA elements are fixed fields - ISA16 is the component separator itself
+        if (segment.id === 'ISA' || element.repetitions.length <= 1) {
+            const components = segment.id !== 'ISA' && element.components.length > 1 ? element.components : [];
+            items.push({ type: 'element', segment, position: index + 1, token: element, components, repetition: 1 });
+            return;
+        }
+        element.repetitions.forEach((repetition, repetitionIndex) => {
+            items.push({
+                type: 'element',
+                segment,
+                position: index + 1,
+                token: repetition,
+                components: repetition.components.length > 1 ? repetition.components : [],
+                repetition: repetitionIndex + 1
+            });
+        });
+    });
+    return items;
+}
+
+/**
+ * Components of an element item
+ */
+export function getComponentItems(item: ExplorerValueItem): ExplorerValueItem[] {
+    if (item.type !== 'element') {
+        return [];
+    }
+    return item.components.map((token, index) => ({
+        type: 'component',
+        segment: item.segment,
+        position: item.position,
+        component: index + 1,
+        token
+    }));
+}
+
+/**
+ * Label, value description and tooltip of an element or component item
+ */
+export function describeValueItem(item: ExplorerValueItem, schema?: ValidationSchema, lookup?: EdiSchemaLookup): ExplorerValueLabel {
+    const elementInfo = lookup?.getSegment(item.segment.id)?.elements?.[item.position - 1];
+    const tag = `${item.segment.id}${String(item.position).padStart(2, '0')}`;
+    let label: string;
+    let name: string | undefined;
+    if (item.type === 'element') {
+        label = item.repetition > 1 ? `${tag} [${item.repetition}]` : tag;
+        name = elementInfo?.name;
+    } else {
+        label = `${tag}-${String(item.component).padStart(2, '0')}`;
+        name = elementInfo ? lookup?.getComposite(elementInfo.type)?.components?.[item.component - 1]?.name : undefined;
+    }
+
+    const value = item.token.value;
+    const code = item.type === 'element' ? describeCodeValue(schema, item.segment.id, item.position, value.trim()) : null;
+    return {
+        label: name ? `${label} ${name}` : label,
+        description: value === '' ? '(empty)' : code ? `${value} (${code})` : value,
+        tooltip: elementInfo ? `${label}: ${name || ''}\nElement ${elementInfo.type}` : label
+    };
+}
@@ -0,0 +1,287 @@
+/**
+ * Element Path Queries
+ *
+ * Finds element values anywhere in a document with short path queries:
+ *   REF02 where REF01=PO      element, filtered by another element of the segment
+ *   N1[N101=ST]/N104          filtered segment, then an element in its loop
+ *   LIN/PIA-02                segment in the loop started by another segment
+ *   PIA02 where LIN03=VP      conditions may refer to any segment of the path
+ * Element references are SEGnn or SEG-nn, optionally with a component (SEG-nn-nn).
+ * Conditions use = or != and are joined with "and"; values may be quoted.
+ * A "/" step searches the loop started by the previous segment (from the
+ * transaction structure when known), otherwise the segments up to the next
+ * segment with the same ID.
+ */
+
+import { buildDocumentTree, EdiNode } from './documentTree';
+import { ValidationSchema } from './documentValidator';
+import { listTransactions, TransactionEntry } from './interchangeSplitter';
+import { EdiElement, EdiSegment, EdiToken, ParsedEdi } from './parser';
+
+export interface ElementReference {
+    segmentId: string;
+    position: number | null;     // 1-based element position, null for the whole segment
+    component: number | null;    // 1-based component position
+}
+
+export interface QueryCondition {
+    element: ElementReference;
+    operator: '=' | '!=';
+    value: string;
+}
+
+export interface QueryStep {
+    target: ElementReference;
+    conditions: QueryCondition[];
+}
+
+export interface ElementMatch {
+    label: string;               // e.g. "N1-04"
+    value: string;
+    start: number;               // Element offsets (segment offsets for segment matches)
+    end: number;
+    segment: EdiSegment;
+    transaction: TransactionEntry | null;
+}
+
+const REFERENCE_PATTERN = /^([A-Z][A-Z0-9]{1,2})(?:-?(\d{2})(?:-(\d{1,2}))?)?$/;
+
+/**
+ * Parse a query into its path steps; throws with a readable message
+ */
+export function parseElementQuery(query: string): QueryStep[] {
+    const [pathText, ...whereParts] = splitOutsideQuotes(query.trim(), /\s+where\s+/iy);
+    if (whereParts.length > 1) {
+        throw new Error('Only one "where" clause is allowed');
+    }
+    if (!pathText) {
+        throw new Error('Enter a path, e.g. N1[N101=ST]/N104');
+    }
+
+    const steps = splitPath(pathText).map(parseStep);
+    steps.slice(0, -1).forEach(step => {
+        if (step.target.position !== null) {
+            throw new Error(`${formatReference(step.target)}: Only the last step of a path can be an element`);
+        }
+    });
+
+    // "where" conditions belong to the last step with the same segment ID
+    for (const condition of whereParts.length > 0 ? parseConditions(whereParts[0]) : []) {
+        const step = [...steps].reverse().find(s => s.target.segmentId === condition.element.segmentId);
+        if (!step) {
+            throw new Error(`${formatReference(condition.element)}: Segment ${condition.element.segmentId} is not part of the path`);
+        }
+        step.conditions.push(condition);
+    }
+    return steps;
+}
+
+/**
+ * Every match of a query in the document, in document order
+ */
+export function findElements(parsed: ParsedEdi, query: string, schema?: ValidationSchema): ElementMatch[] {
+    const steps = parseElementQuery(query);
+    const scopes = loopScopes(buildDocumentTree(parsed, schema));
+    const transactions = new Map<EdiSegment, TransactionEntry>();
+    for (const entry of listTransactions(parsed)) {
+        entry.segments.forEach(segment => transactions.set(segment, entry));
+    }
+
+    const matches: ElementMatch[] = [];
+    const search = (stepIndex: number, candidates: EdiSegment[]) => {
+        const step = steps[stepIndex];
+        for (const segment of candidates) {
+            if (segment.id !== step.target.segmentId || !step.conditions.every(c => testCondition(segment, c))) {
+                continue;
+            }
+            if (stepIndex < steps.length - 1) {
+                search(stepIndex + 1, scopes.get(segment) || followingSegments(parsed.segments, segment));
+                continue;
+            }
+            const token = resolveReference(segment, step.target);
+            if (token && token.value.trim() !== '') {
+                matches.push({
+                    label: formatReference(step.target),
+                    value: token.value,
+                    start: token.start,
+                    end: token.end,
+                    segment,
+                    transaction: transactions.get(segment) || null
+                });
+            }
+        }
+    };
+    search(0, parsed.segments);
+
+    // Several paths can reach the same element
+    const unique = new Map(matches.map(m => [m.start, m]));
+    return [...unique.values()].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * "N1-04", "DTM-01-02", or the segment ID
+ */
+export function formatReference(reference: ElementReference): string {
+    if (reference.position === null) {
+        return reference.segmentId;
+    }
+    const component = reference.component !== null ? `-${String(reference.component).padStart(2, '0')}` : '';
+    return `${reference.segmentId}-${String(reference.position).padStart(2, '0')}${component}`;
+}
+
+/**
+ * Split on "/" outside of brackets and quotes
+ */
+function splitPath(text: string): string[] {
+    const parts = splitOutsideQuotes(text, /\//y).map(p => p.trim());
+    if (parts.some(p => p === '')) {
+        throw new Error('Empty path step');
+    }
+    return parts;
+}
+
+/**
+ * Split on a sticky separator pattern outside of brackets and quoted values.
+ * A quote only opens a value right after "=" or "!=", so O'Brien stays plain text.
+ */
+function splitOutsideQuotes(text: string, separator: RegExp): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+    let index = 0;
+    while (index < text.length) {
+        const char = text[index];
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            }
+        } else if ((char === '"' || char === "'") && /=\s*$/.test(current)) {
+            quote = char;
+        } else if (char === '[') {
+            depth++;
+        } else if (char === ']') {
+            depth--;
+        } else if (depth === 0) {
+            separator.lastIndex = index;
+            const match = separator.exec(text);
+            if (match && match[0].length > 0) {
+                parts.push(current);
+                current = '';
+                index += match[0].length;
+                continue;
+            }
+        }
+        current += char;
+        index++;
+    }
+    parts.push(current);
+    return parts;
+}
+
+function parseStep(text: string): QueryStep {
+    const match = /^([^[\]]+?)\s*(?:\[(.*)\])?$/.exec(text);
+    if (!match) {
+        throw new Error(`Invalid path step "${text}"`);
+    }
+    const target = parseReference(match[1]);
+    const conditions = match[2] !== undefined ? parseConditions(match[2]) : [];
+    for (const condition of conditions) {
+        if (condition.element.segmentId !== target.segmentId) {
+            throw new Error(`${formatReference(condition.element)}: Conditions in [...] must refer to ${target.segmentId} elements`);
+        }
+    }
+    return { target, conditions };
+}
+
+function parseConditions(text: string): QueryCondition[] {
+    return splitOutsideQuotes(text, /\s+and\s+|\s*,\s*/iy).map(part => {
+        const match = /^\s*([A-Za-z0-9-]+)\s*(!=|=)\s*(?:"([^"]*)"|'([^']*)'|(.*?))\s*$/.exec(part);
+        if (!match) {
+            throw new Error(`Invalid condition "${part.trim()}", expected e.g. N101=ST`);
+        }
+        const element = parseReference(match[1]);
+        if (element.position === null) {
+            throw new Error(`${element.segmentId}: A condition needs an element position, e.g. ${element.segmentId}01`);
+        }
+        return { element, operator: match[2] as '=' | '!=', value: match[3] ?? match[4] ?? match[5] };
+    });
+}
+
+function parseReference(text: string): ElementReference {
+    const match = REFERENCE_PATTERN.exec(text.trim().toUpperCase());
+    if (!match) {
+        throw new Error(`Invalid element reference "${text.trim()}", expected e.g. REF02 or PIA-02`);
+    }
+    const position = match[2] !== undefined ? parseInt(match[2], 10) : null;
+    const component = match[3] !== undefined ? parseInt(match[3], 10) : null;
+    if (position === 0 || component === 0) {
+        throw new Error(`${text.trim()}: Positions start at 01`);
+    }
+    return { segmentId: match[1], position, component };
+}
+
+/**
+ * The element, component or whole segment a reference points at
+ */
+function resolveReference(segment: EdiSegment, reference: ElementReference): EdiToken | null {
+    if (reference.position === null) {
+        return { value: segment.elements.map(e => e.value).join(' '), start: segment.start, end: segment.end };
+    }
+    const element: EdiElement | undefined = segment.elements[reference.position - 1];
+    if (!element || reference.component === null) {
+        return element || null;
+    }
+    // ISA values are raw fixed fields without components
+    return segment.id === 'ISA' ? null : element.components[reference.component - 1] || null;
+}
+
+function testCondition(segment: EdiSegment, condition: QueryCondition): boolean {
+    const token = resolveReference(segment, condition.element);
+    const values = [token?.value.trim() || ''];
+    // A composite compared as a whole also matches its first component (e.g. BGM01=220)
+    const element = token as EdiElement | null;
+    if (condition.element.component === null && element && element.components.length > 1) {
+        values.push(element.components[0].value.trim());
+    }
+    const equal = values.includes(condition.value.trim());
+    return condition.operator === '=' ? equal : !equal;
+}
+
+/**
+ * Segments of each loop instance, keyed by the loop's trigger segment
+ */
+function loopScopes(nodes: EdiNode[]): Map<EdiSegment, EdiSegment[]> {
+    const scopes = new Map<EdiSegment, EdiSegment[]>();
+    const collect = (node: EdiNode): EdiSegment[] => node.kind === 'segment'
+        ? [node.segment]
+        : node.children.flatMap(collect);
+    const visit = (list: EdiNode[]) => {
+        for (const node of list) {
+            if (node.kind === 'loop') {
+                scopes.set(node.segment, collect(node));
+            }
+            if (node.kind !== 'segment') {
+                visit(node.children);
+            }
+        }
+    };
+    visit(nodes);
+    return scopes;
+}
+
+/**
+ * Without a known loop: the segment and those after it, up to the next
+ * segment with the same ID or the end of the transaction
+ */
+function followingSegments(segments: EdiSegment[], anchor: EdiSegment): EdiSegment[] {
+    const scope = [anchor];
+    for (let index = anchor.index + 1; index < segments.length; index++) {
+        const segment = segments[index];
+        if (segment.id === anchor.id || ['SE', 'UNT', 'GE', 'UNE', 'IEA', 'UNZ'].includes(segment.id)) {
+            break;
+        }
+        scope.push(segment);
+    }
+    return scope;
+}
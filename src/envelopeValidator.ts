@@ -0,0 +1,183 @@
+/**
+ * EDI Envelope Validation
+ *
+ * Checks envelope integrity on a parsed document:
+ * - Header/trailer control numbers match (ISA13/IEA02, GS06/GE02, ST02/SE02, UNB05/UNZ02, UNG05/UNE02, UNH01/UNT02)
+ * - Trailer counts match the content (IEA01, GE01, SE01, UNZ01, UNE01, UNT01)
+ * - Every header has a trailer and every trailer has a header
+ * - X12 ISA fixed-width fields and total length (see isaRepair)
+ */
+
+import { EdiSegment, EdiStandard, getElementValue, ParsedEdi } from './parser';
+import { validateIsaSegment } from './isaRepair';
+import { ValidationIssue } from './validators';
+
+export interface EnvelopeLevel {
+    name: string;            // e.g. "Interchange"
+    depth: number;           // 0 = interchange, 1 = group, 2 = transaction/message
+    header: string;          // e.g. "ISA"
+    trailer: string;         // e.g. "IEA"
+    headerControl: number;   // 1-based element position of the control number in the header
+    trailerControl: number;  // 1-based element position of the control number in the trailer
+    trailerCount: number;    // 1-based element position of the count in the trailer
+    countLabel: string;
+    countsSegments: boolean; // true: count is segments (incl. header/trailer), false: child envelopes
+}
+
+export const X12_ENVELOPES: EnvelopeLevel[] = [
+    { name: 'Interchange', depth: 0, header: 'ISA', trailer: 'IEA', headerControl: 13, trailerControl: 2, trailerCount: 1, countLabel: 'Functional group count', countsSegments: false },
+    { name: 'Functional group', depth: 1, header: 'GS', trailer: 'GE', headerControl: 6, trailerControl: 2, trailerCount: 1, countLabel: 'Transaction set count', countsSegments: false },
+    { name: 'Transaction set', depth: 2, header: 'ST', trailer: 'SE', headerControl: 2, trailerControl: 2, trailerCount: 1, countLabel: 'Segment count', countsSegments: true }
+];
+
+export const EDIFACT_ENVELOPES: EnvelopeLevel[] = [
+    // UNZ01 counts groups when UNG is used, otherwise messages - both are direct children
+    { name: 'Interchange', depth: 0, header: 'UNB', trailer: 'UNZ', headerControl: 5, trailerControl: 2, trailerCount: 1, countLabel: 'Interchange control count', countsSegments: false },
+    { name: 'Functional group', depth: 1, header: 'UNG', trailer: 'UNE', headerControl: 5, trailerControl: 2, trailerCount: 1, countLabel: 'Message count', countsSegments: false },
+    { name: 'Message', depth: 2, header: 'UNH', trailer: 'UNT', headerControl: 1, trailerControl: 2, trailerCount: 1, countLabel: 'Segment count', countsSegments: true }
+];
+
+interface OpenEnvelope {
+    level: EnvelopeLevel;
+    header: EdiSegment;
+    childCount: number;
+    segmentCount: number;
+}
+
+export function getEnvelopeLevels(standard: EdiStandard): EnvelopeLevel[] {
+    return standard === 'edifact' ? EDIFACT_ENVELOPES : X12_ENVELOPES;
+}
+
+/**
+ * Validate envelope control numbers, trailer counts and header/trailer pairing
+ */
+export function validateEnvelopes(parsed: ParsedEdi): ValidationIssue[] {
+    const levels = getEnvelopeLevels(parsed.standard);
+    const headers = new Map(levels.map(l => [l.header, l]));
+    const trailers = new Map(levels.map(l => [l.trailer, l]));
+
+    const issues: ValidationIssue[] = [];
+    const stack: OpenEnvelope[] = [];
+
+    for (const segment of parsed.segments) {
+        if (parsed.standard === 'x12' && segment.id === 'ISA') {
+            issues.push(...validateIsaSegment(segment, parsed.delimiters));
+        }
+
+        const headerLevel = headers.get(segment.id);
+        if (headerLevel) {
+            // A new header closes anything open at the same or a deeper level
+            while (stack.length > 0 && stack[stack.length - 1].level.depth >= headerLevel.depth) {
+                issues.push(missingTrailerIssue(stack.pop()!));
+            }
+            if (stack.length > 0) {
+                stack[stack.length - 1].childCount++;
+            }
+            stack.push({ level: headerLevel, header: segment, childCount: 0, segmentCount: 1 });
+            continue;
+        }
+
+        const trailerLevel = trailers.get(segment.id);
+        if (trailerLevel) {
+            let index = stack.length - 1;
+            while (index >= 0 && stack[index].level !== trailerLevel) {
+                index--;
+            }
+
+            if (index < 0) {
+                issues.push({
+                    start: segment.start,
+                    end: segment.end,
+                    code: 'missingHeader',
+                    message: `${segment.id}: No matching ${trailerLevel.header} for this ${trailerLevel.name.toLowerCase()} trailer`,
+                    severity: 'error'
+                });
+                continue;
+            }
+
+            while (stack.length - 1 > index) {
+                issues.push(missingTrailerIssue(stack.pop()!));
+            }
+
+            const envelope = stack.pop()!;
+            envelope.segmentCount++;
+            issues.push(...checkTrailer(envelope, segment));
+            continue;
+        }
+
+        // Body segment - counts toward the enclosing transaction set/message
+        const current = stack[stack.length - 1];
+        if (current && current.level.countsSegments) {
+            current.segmentCount++;
+        }
+    }
+
+    while (stack.length > 0) {
+        issues.push(missingTrailerIssue(stack.pop()!));
+    }
+
+    return issues;
+}
+
+/**
+ * Compute the value a trailer count element should hold
+ */
+function expectedTrailerCount(envelope: OpenEnvelope): number {
+    return envelope.level.countsSegments ? envelope.segmentCount : envelope.childCount;
+}
+
+function checkTrailer(envelope: OpenEnvelope, trailer: EdiSegment): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const level = envelope.level;
+
+    // Trailer count
+    const declaredCount = getElementValue(trailer, level.trailerCount).trim();
+    const actualCount = expectedTrailerCount(envelope);
+    if (!/^\d+$/.test(declaredCount) || parseInt(declaredCount, 10) !== actualCount) {
+        issues.push({
+            ...elementRange(trailer, level.trailerCount),
+            code: 'count',
+            message: `${label(level.trailer, level.trailerCount)}: ${level.countLabel} "${declaredCount}" does not match actual count ${actualCount}`,
+            severity: 'error',
+            expected: String(actualCount)
+        });
+    }
+
+    // Control number
+    const headerControl = getElementValue(envelope.header, level.headerControl).trim();
+    const trailerControl = getElementValue(trailer, level.trailerControl).trim();
+    if (headerControl !== trailerControl) {
+        issues.push({
+            ...elementRange(trailer, level.trailerControl),
+            code: 'controlNumber',
+            message: `${label(level.trailer, level.trailerControl)}: Control number "${trailerControl}" does not match ${label(level.header, level.headerControl)} "${headerControl}"`,
+            severity: 'error',
+            expected: headerControl
+        });
+    }
+
+    return issues;
+}
+
+function missingTrailerIssue(envelope: OpenEnvelope): ValidationIssue {
+    const { level, header } = envelope;
+    const control = getElementValue(header, level.headerControl).trim();
+    return {
+        start: header.start,
+        end: header.start + header.id.length,
+        code: 'missingTrailer',
+        message: `${header.id}: ${level.name} ${control} is not closed (missing ${level.trailer})`,
+        severity: 'error'
+    };
+}
+
+function elementRange(segment: EdiSegment, position: number): { start: number; end: number } {
+    const element = segment.elements[position - 1];
+    return element
+        ? { start: element.start, end: Math.max(element.end, element.start + 1) }
+        : { start: segment.start, end: segment.end };
+}
+
+function label(segmentId: string, position: number): string {
+    return `${segmentId}-${String(position).padStart(2, '0')}`;
+}
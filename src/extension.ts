@@ -3,6 +3,13 @@ import { StatusBarController } from './statusBar';
 import { registerCommands, getDiagnosticCollection } from './commands';
 import { EdiHoverProvider } from './hoverProvider';
 import { EdiCodeLensProvider } from './codeLensProvider';
+import { EdiDocumentSymbolProvider } from './documentSymbolProvider';
+import { EdiFoldingRangeProvider } from './foldingRangeProvider';
+import { EdiCompletionProvider } from './completionProvider';
+import { EdiCodeActionProvider } from './codeActionProvider';
+import { EdiExplorerProvider } from './ediExplorer';
+import { LiveValidationController } from './liveValidation';
+import { TestFolderWarningController } from './testFolderWarning';
 
 let statusBarController: StatusBarController | undefined;
 
@@ -53,8 +60,11 @@ export async function activate(context: vscode.ExtensionContext) {
     statusBarController = new StatusBarController();
     context.subscriptions.push(statusBarController);
 
+    // Hover provider (its schema caches are shared with the XML export)
+    const hoverProvider = new EdiHoverProvider(context.extensionPath);
+
     // Register all commands
-    registerCommands(context);
+    registerCommands(context, hoverProvider);
 
     // Auto-detect EDI format for .txt files based on first line
     context.subscriptions.push(
@@ -71,13 +81,11 @@ export async function activate(context: vscode.ExtensionContext) {
         detectEdiLanguage(vscode.window.activeTextEditor.document);
     }
 
-    // Register hover provider for X12 and EDIFACT
-    const hoverProvider = new EdiHoverProvider(context.extensionPath);
-
     // Load schemas from local files
     console.log('[EDI Extension] Loading schemas from:', context.extensionPath);
     await hoverProvider.loadSchemas(context.extensionPath);
 
+    // Register hover provider for X12 and EDIFACT
     context.subscriptions.push(
         vscode.languages.registerHoverProvider(
             [{ language: 'x12' }, { language: 'edifact' }],
@@ -94,8 +102,56 @@ export async function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Register document symbol provider for the Outline view and breadcrumbs
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSymbolProvider(
+            [{ language: 'x12' }, { language: 'edifact' }],
+            new EdiDocumentSymbolProvider(context.extensionPath)
+        )
+    );
+
+    // Register folding range provider for envelopes, transaction sets and loops
+    context.subscriptions.push(
+        vscode.languages.registerFoldingRangeProvider(
+            [{ language: 'x12' }, { language: 'edifact' }],
+            new EdiFoldingRangeProvider(context.extensionPath)
+        )
+    );
+
+    // Register completion provider for segment IDs and code values
+    // (triggered by the common element and component delimiters)
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(
+            [{ language: 'x12' }, { language: 'edifact' }],
+            new EdiCompletionProvider(context.extensionPath),
+            '*', '|', '^', '>', ':', '+'
+        )
+    );
+
+    // Register code action provider for validation quick fixes
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            [{ language: 'x12' }, { language: 'edifact' }],
+            new EdiCodeActionProvider(context.extensionPath),
+            { providedCodeActionKinds: EdiCodeActionProvider.providedCodeActionKinds }
+        )
+    );
+
     // Register diagnostic collection for validation errors
     context.subscriptions.push(getDiagnosticCollection());
+
+    // Background validation on open/save/change (ediX12Tools.validation.live)
+    context.subscriptions.push(new LiveValidationController(context.extensionPath));
+
+    // EDI Explorer view: envelopes down to elements of the active document
+    const explorerProvider = new EdiExplorerProvider(context.extensionPath, hoverProvider);
+    context.subscriptions.push(
+        explorerProvider,
+        vscode.window.registerTreeDataProvider('ediExplorer', explorerProvider)
+    );
+
+    // Production files saved in a test data folder (ediX12Tools.usageIndicator.testFolders)
+    context.subscriptions.push(new TestFolderWarningController());
 }
 
 export function deactivate() {
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { buildDocumentTree, EdiNode } from './documentTree';
+import { loadValidationSchema } from './documentValidator';
+import { parseDocument } from './parser';
+
+/**
+ * Provides folding for EDI documents laid out one segment per line:
+ * interchanges, groups, transaction sets/messages, loop instances and segment groups
+ */
+export class EdiFoldingRangeProvider implements vscode.FoldingRangeProvider {
+    constructor(private extensionPath: string) {}
+
+    public provideFoldingRanges(
+        document: vscode.TextDocument,
+        _context: vscode.FoldingContext,
+        _token: vscode.CancellationToken
+    ): vscode.FoldingRange[] {
+        const parsed = parseDocument(document);
+        if (!parsed) {
+            return [];
+        }
+
+        const schema = loadValidationSchema(this.extensionPath, parsed);
+        const ranges: vscode.FoldingRange[] = [];
+        this.collectRanges(document, buildDocumentTree(parsed, schema), ranges);
+        return ranges;
+    }
+
+    private collectRanges(document: vscode.TextDocument, nodes: EdiNode[], ranges: vscode.FoldingRange[]): void {
+        for (const node of nodes) {
+            if (node.kind === 'segment') {
+                continue;
+            }
+
+            // Fold up to the line of the last segment (a newline terminator ends one line further)
+            const startLine = document.positionAt(node.start).line;
+            const end = document.positionAt(node.end);
+            const endLine = end.character === 0 && end.line > startLine ? end.line - 1 : end.line;
+
+            if (endLine > startLine) {
+                ranges.push(new vscode.FoldingRange(startLine, endLine, vscode.FoldingRangeKind.Region));
+            }
+            this.collectRanges(document, node.children, ranges);
+        }
+    }
+}
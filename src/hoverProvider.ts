@@ -1,16 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { validateElement, validateDateWithFormat, ElementSchema, isCompositeCodeElement, getCompositeCodeTranslation } from './validators';
+import { validateElement, validateDateWithFormat, ElementSchema, isCompositeCodeElement, getCompositeCodeTranslation, describeSyntaxRule } from './validators';
+import { EdiSegment, findComponentIndexAt, findElementIndexAt, findRepetitionAt, findSegmentAt, getDeclaredVersion, parseDocument } from './parser';
 
-interface SegmentInfo {
+export interface SegmentInfo {
     code: string;
     name: string;
     description: string;
     elements?: ElementInfo[];
+    syntax?: string[];           // X12 relational conditions, e.g. "P0304", "R0203"
 }
 
-interface ElementInfo {
+export interface ElementInfo {
     position: string;
     name: string;
     requirement: string;
@@ -22,7 +24,7 @@ interface ElementInfo {
     codeCount?: number;
 }
 
-interface ElementDetailInfo {
+export interface ElementDetailInfo {
     elementNumber: string;
     name: string;
     definition: string;
@@ -32,22 +34,34 @@ interface ElementDetailInfo {
     codes?: CodeValue[];
 }
 
-interface CodeValue {
+export interface CodeValue {
     code: string;
     description: string;
 }
 
-interface ComponentInfo {
+export interface ComponentInfo {
     position: string;
     elementId: string;
     name: string;
     requirement: string;
 }
 
-interface CompositeElementInfo extends ElementDetailInfo {
+export interface CompositeElementInfo extends ElementDetailInfo {
     components?: ComponentInfo[];
 }
 
+/**
+ * Schema lookups for one document's version, backed by the hover schema caches
+ */
+export interface EdiSchemaLookup {
+    languagePrefix: string;      // "x12" or "edifact"
+    version: string;
+    schemaDir: string;
+    getSegment(segmentCode: string): SegmentInfo | null;
+    getElement(elementNumber: string): ElementDetailInfo | null;
+    getComposite(compositeNumber: string): CompositeElementInfo | null;
+}
+
 // Schema caches with version-qualified keys (e.g., "x12:004010:ISA", "edifact:d96a:UNH")
 const segmentCache = new Map<string, SegmentInfo>();
 const elementCache = new Map<string, ElementDetailInfo>();
@@ -74,35 +88,50 @@ export class EdiHoverProvider implements vscode.HoverProvider {
         console.log('[EDI Hover] Ready for dynamic schema loading');
     }
 
+    /**
+     * Load the schemas for a document's version and return lookups into the caches
+     * (used by exports that name segments and elements like the hovers do)
+     */
+    public async getSchemaLookup(document: vscode.TextDocument): Promise<EdiSchemaLookup | undefined> {
+        const parsed = parseDocument(document);
+        if (!parsed) {
+            return undefined;
+        }
+
+        const isEdifact = parsed.standard === 'edifact';
+        const languagePrefix = isEdifact ? 'edifact' : 'x12';
+        const version = await this.getDocumentVersion(document, isEdifact);
+
+        return {
+            languagePrefix,
+            version,
+            schemaDir: path.join(this.extensionPath, 'schemas', languagePrefix, version),
+            getSegment: segmentCode => this.getSegmentInfo(segmentCode, languagePrefix, version),
+            getElement: elementNumber => this.getElementDetail(elementNumber, languagePrefix, version),
+            getComposite: compositeNumber => this.getCompositeDetail(compositeNumber, languagePrefix, version)
+        };
+    }
+
     /**
      * Detect EDIFACT version from UNH segment
      */
     private detectEdifactVersion(document: vscode.TextDocument): string | null {
-        // Read first 20 lines to find UNH segment
-        const lineCount = Math.min(20, document.lineCount);
-        for (let i = 0; i < lineCount; i++) {
-            const line = document.lineAt(i).text;
-            // UNH format: UNH+ref+MSGTYPE:D:VERSION:UN
-            const unhMatch = line.match(/^UNH\+[^+]+\+[^:]+:D:(\d{2}[AB]):UN/i);
-            if (unhMatch) {
-                return unhMatch[1].toUpperCase();
-            }
-        }
-        return null;
+        // UNH format: UNH+ref+MSGTYPE:D:VERSION:UN
+        const parsed = parseDocument(document);
+        const release = parsed ? getDeclaredVersion(parsed) : null;
+        return release && /^\d{2}[AB]$/.test(release) ? release : null;
     }
 
     /**
      * Detect X12 version from ISA segment
      */
     private detectX12Version(document: vscode.TextDocument): string | null {
-        // ISA version is at positions 85-89 (5 characters), format: 00401
-        if (document.lineCount > 0) {
-            const firstLine = document.lineAt(0).text;
-            if (firstLine.startsWith('ISA') && firstLine.length >= 89) {
-                const isaVersion = firstLine.substring(84, 89).trim();
-                // Convert 5-char format (00401) to 6-char format (004010)
-                return this.normalizeX12Version(isaVersion);
-            }
+        // ISA12 version is 5 characters, format: 00401
+        const parsed = parseDocument(document);
+        const isaVersion = parsed ? getDeclaredVersion(parsed) : null;
+        if (isaVersion) {
+            // Convert 5-char format (00401) to 6-char format (004010)
+            return this.normalizeX12Version(isaVersion);
         }
         return null;
     }
@@ -113,7 +142,8 @@ export class EdiHoverProvider implements vscode.HoverProvider {
     private normalizeX12Version(isaVersion: string): string {
         // ISA format: 00401 -> Standard format: 004010
         // Pattern: XXYYZ -> XXYY0Z or XXYY00 depending on Z
-        let version = isaVersion;
+        // GS08 may carry an implementation suffix (005010X222A1) - keep the 6-char version
+        let version = isaVersion.substring(0, 6);
         if (isaVersion.length === 5) {
             // Add a trailing 0: 00401 -> 004010
             version = isaVersion + '0';
@@ -284,14 +314,16 @@ export class EdiHoverProvider implements vscode.HoverProvider {
         position: vscode.Position,
         _token: vscode.CancellationToken
     ): Promise<vscode.Hover | undefined> {
-        const line = document.lineAt(position.line);
-        const lineText = line.text;
+        const parsed = parseDocument(document);
+        if (!parsed) {
+            return undefined;
+        }
 
-        console.log(`[EDI Hover] Line: "${lineText}", Cursor at position: ${position.character}`);
+        const offset = document.offsetAt(position);
+        console.log(`[EDI Hover] Cursor at offset: ${offset}`);
 
-        // Detect language based on file extension or content
-        const isEdifact = document.languageId === 'edifact' ||
-                         !!lineText.match(/^(UNA|UNB|UNH|UNT|UNZ)/);
+        // Language comes from the parsed envelope rather than the editor mode
+        const isEdifact = parsed.standard === 'edifact';
         const languagePrefix = isEdifact ? 'edifact' : 'x12';
 
         console.log(`[EDI Hover] Detected language: ${languagePrefix}`);
@@ -300,31 +332,27 @@ export class EdiHoverProvider implements vscode.HoverProvider {
         const version = await this.getDocumentVersion(document, isEdifact);
         console.log(`[EDI Hover] Using version: ${version}`);
 
-        // Extract segment code at the beginning of the line
-        const segmentMatch = lineText.match(/^([A-Z0-9]{2,3})(?=\*|\+|:)/);
-        if (!segmentMatch) {
+        // Find the segment under the cursor
+        const segment = findSegmentAt(parsed, offset);
+        if (!segment || offset > segment.end || !/^[A-Z0-9]{2,3}$/.test(segment.id)) {
             console.log('[EDI Hover] No segment match found');
             return undefined;
         }
 
-        const segmentCode = segmentMatch[1];
+        const segmentCode = segment.id;
         console.log(`[EDI Hover] Segment code: ${segmentCode}`);
 
-        // Detect element delimiter (usually * for X12, + for EDIFACT)
-        const elementDelimiter = lineText.includes('*') ? '*' : (lineText.includes('+') ? '+' : ':');
-        console.log(`[EDI Hover] Element delimiter: ${elementDelimiter}`);
-
         // Check if cursor is on the segment code or on an element
-        if (position.character <= segmentCode.length) {
+        if (offset <= segment.start + segmentCode.length) {
             // Cursor is on segment code - show segment info
             console.log('[EDI Hover] Cursor on segment code');
             return this.showSegmentHover(segmentCode, languagePrefix, version);
         } else {
             // Cursor is on an element - determine which element
-            const elementPosition = this.getElementPosition(lineText, position.character, segmentCode, elementDelimiter);
-            console.log(`[EDI Hover] Element position: ${elementPosition}`);
-            if (elementPosition) {
-                return this.showElementHover(segmentCode, elementPosition, lineText, elementDelimiter, languagePrefix, position.character, version);
+            const elementIndex = findElementIndexAt(segment, offset);
+            console.log(`[EDI Hover] Element position: ${elementIndex + 1}`);
+            if (elementIndex >= 0) {
+                return this.showElementHover(segment, elementIndex + 1, languagePrefix, offset, version);
             }
         }
 
@@ -351,15 +379,15 @@ export class EdiHoverProvider implements vscode.HoverProvider {
     }
 
     private async showElementHover(
-        segmentCode: string,
+        segment: EdiSegment,
         elementPosition: number,
-        lineText: string,
-        elementDelimiter: string,
         languagePrefix: string,
-        cursorPosition: number | undefined,
+        cursorOffset: number,
         version: string
     ): Promise<vscode.Hover | undefined> {
         try {
+            const segmentCode = segment.id;
+
             // First get segment info to find element number
             const segmentInfo = this.getSegmentInfo(segmentCode, languagePrefix, version);
             if (!segmentInfo || !segmentInfo.elements || elementPosition > segmentInfo.elements.length) {
@@ -371,20 +399,24 @@ export class EdiHoverProvider implements vscode.HoverProvider {
                 return undefined;
             }
 
-            // Get the actual value of this element from the line
-            const elementValue = this.getElementValue(lineText, elementPosition, elementDelimiter);
+            // Get the actual (unescaped) value of this element, or of the repetition under the cursor
+            const element = segment.elements[elementPosition - 1];
+            const repetition = findRepetitionAt(element, cursorOffset);
+            const elementValue = element.repetitions.length > 1 ? repetition.value : element.value;
 
             // For EDIFACT, check if this is a composite element (starts with 'C' or 'S')
             // 'C' = Composite data elements, 'S' = Service composite elements
-            // Also check if element value contains ':' separator
-            if (languagePrefix === 'edifact' && elementValue.includes(':') && cursorPosition !== undefined) {
+            // Also check if the element has more than one component
+            if (languagePrefix === 'edifact' && repetition.components.length > 1) {
                 const compositeInfo = this.getCompositeDetail(elementInfo.type, languagePrefix, version);
 
                 // Get component position within the composite
-                const componentPos = this.getComponentPosition(elementValue, cursorPosition, lineText, elementPosition, elementDelimiter, segmentCode);
+                const componentIndex = findComponentIndexAt(element, cursorOffset);
 
-                if (componentPos !== null) {
-                    const componentValue = this.getComponentValue(elementValue, componentPos);
+                if (componentIndex >= 0) {
+                    const componentPos = componentIndex + 1;
+                    const componentValues = repetition.components.map(c => c.value);
+                    const componentValue = componentValues[componentIndex];
 
                     // If we have composite metadata, use it
                     if (compositeInfo && compositeInfo.components && compositeInfo.components.length > 0 && componentPos <= compositeInfo.components.length) {
@@ -393,7 +425,7 @@ export class EdiHoverProvider implements vscode.HoverProvider {
 
                         vscode.window.setStatusBarMessage(`EDI: Showing ${segmentCode}-${elementPosition.toString().padStart(2, '0')}-${componentPos.toString().padStart(2, '0')}`, 2000);
 
-                        const markdown = this.createComponentMarkdown(segmentCode, elementPosition, componentPos, componentInfo, componentValue, componentDetail, languagePrefix, version, elementInfo.type, elementValue);
+                        const markdown = this.createComponentMarkdown(segmentCode, elementPosition, componentPos, componentInfo, componentValue, componentDetail, languagePrefix, version, elementInfo.type, componentValues);
                         return new vscode.Hover(markdown);
                     } else {
                         // No composite metadata available, show generic component info
@@ -418,7 +450,7 @@ export class EdiHoverProvider implements vscode.HoverProvider {
 
             vscode.window.setStatusBarMessage(`EDI: Showing ${segmentCode}-${elementPosition.toString().padStart(2, '0')}`, 2000);
 
-            const markdown = this.createElementMarkdown(segmentCode, elementPosition, elementInfo, elementValue, elementDetail, languagePrefix, version);
+            const markdown = this.createElementMarkdown(segmentCode, elementPosition, elementInfo, elementValue, elementDetail, languagePrefix, version, element.components.length);
             return new vscode.Hover(markdown);
         } catch (error) {
             console.error('Error fetching element info:', error);
@@ -426,42 +458,6 @@ export class EdiHoverProvider implements vscode.HoverProvider {
         }
     }
 
-    private getElementPosition(lineText: string, cursorPosition: number, segmentCode: string, delimiter: string): number | null {
-        // Split by delimiter to get elements
-        const parts = lineText.split(delimiter);
-
-        // First part is the segment code
-        if (parts.length < 2) {
-            return null;
-        }
-
-        let currentPos = segmentCode.length; // Start after segment code
-
-        for (let i = 1; i < parts.length; i++) {
-            currentPos++; // Account for delimiter
-            const elementEnd = currentPos + parts[i].length;
-
-            if (cursorPosition >= currentPos && cursorPosition <= elementEnd) {
-                return i; // Return 1-based element position
-            }
-
-            currentPos = elementEnd;
-        }
-
-        return null;
-    }
-
-    private getElementValue(lineText: string, elementPosition: number, delimiter: string): string {
-        const parts = lineText.split(delimiter);
-        if (elementPosition < parts.length) {
-            // Remove segment terminator (~, ', \n, \r) and trailing whitespace from the value
-            let value = parts[elementPosition].replace(/[~'\n\r]+$/g, '');
-            // Don't trim - whitespace can be significant in EDI
-            return value;
-        }
-        return '';
-    }
-
     private getSegmentInfo(segmentCode: string, languagePrefix: string, version: string): SegmentInfo | null {
         const cacheKey = `${languagePrefix}:${version}:${segmentCode}`;
         return segmentCache.get(cacheKey) || null;
@@ -477,57 +473,6 @@ export class EdiHoverProvider implements vscode.HoverProvider {
         return compositeCache.get(cacheKey) || null;
     }
 
-    /**
-     * Get component position within a composite element
-     */
-    private getComponentPosition(
-        elementValue: string,
-        cursorPosition: number,
-        lineText: string,
-        elementPosition: number,
-        elementDelimiter: string,
-        segmentCode: string
-    ): number | null {
-        // Calculate where this element starts in the line
-        const parts = lineText.split(elementDelimiter);
-        let elementStartPos = segmentCode.length;
-        for (let i = 1; i < elementPosition; i++) {
-            elementStartPos += 1 + parts[i].length; // +1 for delimiter
-        }
-        elementStartPos += 1; // Account for the delimiter before this element
-
-        // Calculate cursor position relative to element start
-        const relativePos = cursorPosition - elementStartPos;
-
-        // Split element value by component separator (:)
-        const components = elementValue.split(':');
-        let currentPos = 0;
-
-        for (let i = 0; i < components.length; i++) {
-            const componentEnd = currentPos + components[i].length;
-
-            if (relativePos >= currentPos && relativePos <= componentEnd) {
-                return i + 1; // Return 1-based component position
-            }
-
-            currentPos = componentEnd + 1; // +1 for the : separator
-        }
-
-        return null;
-    }
-
-    /**
-     * Get value of a specific component within a composite element
-     */
-    private getComponentValue(elementValue: string, componentPosition: number): string {
-        const components = elementValue.split(':');
-        if (componentPosition <= components.length) {
-            // Don't trim - preserve the actual value including whitespace
-            return components[componentPosition - 1];
-        }
-        return '';
-    }
-
     private createElementMarkdown(
         segmentCode: string,
         elementPosition: number,
@@ -535,7 +480,8 @@ export class EdiHoverProvider implements vscode.HoverProvider {
         elementValue: string,
         elementDetail: ElementDetailInfo | null,
         languagePrefix: string,
-        version: string
+        version: string,
+        componentCount: number = 1
     ): vscode.MarkdownString {
         const md = new vscode.MarkdownString();
         md.supportHtml = true;
@@ -560,7 +506,7 @@ export class EdiHoverProvider implements vscode.HoverProvider {
 
         // For composite elements, check if it's a single component (no colons) or multi-component
         if (compositeInfo && compositeInfo.components && compositeInfo.components.length > 0) {
-            const isSingleComponent = !elementValue.includes(':');
+            const isSingleComponent = componentCount === 1;
 
             if (isSingleComponent && compositeInfo.components.length > 0) {
                 // Single component composite - show the first component's details with codes
@@ -757,7 +703,7 @@ export class EdiHoverProvider implements vscode.HoverProvider {
         _languagePrefix: string,
         _version: string,
         compositeType?: string,
-        fullElementValue?: string
+        componentValues?: string[]
     ): vscode.MarkdownString {
         const md = new vscode.MarkdownString();
         md.supportHtml = true;
@@ -789,10 +735,9 @@ export class EdiHoverProvider implements vscode.HoverProvider {
                 const isDateValue = componentPosition === 2; // Component 2 is the date/time value
 
                 let validation;
-                if (isDateComposite && isDateValue && fullElementValue) {
+                if (isDateComposite && isDateValue && componentValues) {
                     // Extract format qualifier (component 3)
-                    const components = fullElementValue.split(':');
-                    const dateFormatQualifier = components.length >= 3 ? components[2] : undefined;
+                    const dateFormatQualifier = componentValues.length >= 3 ? componentValues[2] : undefined;
 
                     if (dateFormatQualifier) {
                         // Use format-aware date validation
@@ -890,6 +835,14 @@ export class EdiHoverProvider implements vscode.HoverProvider {
             }
         }
 
+        // Syntax notes (relational conditions between elements)
+        if (info.syntax && info.syntax.length > 0) {
+            md.appendMarkdown(`\n**Syntax Notes:**\n\n`);
+            for (const rule of info.syntax) {
+                md.appendMarkdown(`- \`${rule}\` ${describeSyntaxRule(rule, info.code)}\n`);
+            }
+        }
+
         // Link to full reference
         md.appendMarkdown(`\n\n---\n`);
         if (languagePrefix === 'edifact') {
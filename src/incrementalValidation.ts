@@ -0,0 +1,74 @@
+/**
+ * Incremental Validation
+ *
+ * Validates a parsed document while reusing the results of transaction
+ * sets/messages that did not change since the previous run. Results are
+ * cached per ST..SE / UNH..UNT block, keyed by a hash of the block text, with
+ * offsets relative to the block start so a block that only moved is reused.
+ * The cache is dropped when the schema or the delimiters change. Envelope
+ * checks always run over the whole document since they span blocks.
+ */
+
+import * as crypto from 'crypto';
+import { validateSegment, validateTransactionStructure, ValidationSchema } from './documentValidator';
+import { validateEnvelopes } from './envelopeValidator';
+import { EdiSegment, getTransactions, ParsedEdi } from './parser';
+import { ValidationIssue } from './validators';
+
+export interface BlockCache {
+    context: string;                         // Schema dir + delimiters the cached blocks were checked with
+    blocks: Map<string, ValidationIssue[]>;  // Block text hash -> issues relative to the block start
+}
+
+export interface IncrementalResult {
+    issues: ValidationIssue[];
+    cache: BlockCache;                       // Pass to the next run of the same document
+    validatedBlocks: number;                 // Blocks checked in this run (not taken from the cache)
+}
+
+/**
+ * Validate the document, reusing cached results for unchanged transaction sets/messages
+ */
+export function validateIncrementally(
+    parsed: ParsedEdi,
+    text: string,
+    schema: ValidationSchema,
+    previous?: BlockCache
+): IncrementalResult {
+    const context = `${schema.schemaDir}|${JSON.stringify(parsed.delimiters)}`;
+    const cached = previous && previous.context === context ? previous.blocks : new Map<string, ValidationIssue[]>();
+    const blocks = new Map<string, ValidationIssue[]>();
+
+    const issues: ValidationIssue[] = [];
+    const covered = new Set<EdiSegment>();
+    let validatedBlocks = 0;
+
+    for (const transaction of getTransactions(parsed)) {
+        const first = transaction.segments[0];
+        const last = transaction.segments[transaction.segments.length - 1];
+        const hash = crypto.createHash('sha1').update(text.substring(first.start, last.terminatorEnd)).digest('hex');
+
+        let relative = blocks.get(hash) || cached.get(hash);
+        if (!relative) {
+            relative = [
+                ...transaction.segments.flatMap(segment => validateSegment(segment, schema)),
+                ...validateTransactionStructure(transaction, schema)
+            ].map(issue => ({ ...issue, start: issue.start - first.start, end: issue.end - first.start }));
+            validatedBlocks++;
+        }
+        blocks.set(hash, relative);
+
+        issues.push(...relative.map(issue => ({ ...issue, start: issue.start + first.start, end: issue.end + first.start })));
+        transaction.segments.forEach(segment => covered.add(segment));
+    }
+
+    // Envelope segments and anything outside a transaction set/message
+    for (const segment of parsed.segments) {
+        if (!covered.has(segment)) {
+            issues.push(...validateSegment(segment, schema));
+        }
+    }
+    issues.push(...validateEnvelopes(parsed));
+
+    return { issues, cache: { context, blocks }, validatedBlocks };
+}
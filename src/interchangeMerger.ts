@@ -0,0 +1,193 @@
+/**
+ * Interchange Merging
+ *
+ * Combines the transaction sets (or messages) of several interchanges into one:
+ *   X12:     one ISA with one GS - or one GS per functional ID (GS01) - and
+ *            groups numbered from 1 (GS06/GE02)
+ *   EDIFACT: one UNB with the messages directly inside (UNG groups are dropped)
+ * The envelope headers come from the first source. Every trailer count
+ * (SE01/UNT01, GE01, IEA01/UNZ01) is recomputed, and the transaction set/message
+ * control numbers (ST02/SE02, UNH01/UNT02) are renumbered from 1 within each
+ * group, so transactions from different sources cannot share a control number.
+ */
+
+import { encodeSegment } from './delimiterProfiles';
+import { listTransactions, TransactionEntry } from './interchangeSplitter';
+import { Delimiters, EdiSegment, escapeValue, getElementValue, ParsedEdi } from './parser';
+
+export interface MergeSource {
+    name: string;                // File name, used in messages
+    parsed: ParsedEdi;
+    text: string;
+}
+
+export interface MergeCheck {
+    conflicts: string[];         // Envelope differences, e.g. "b.edi: Receiver ZZ*OTHER differs from ZZ*RECEIVER"
+    functionalIds: string[];     // Distinct GS01 values (X12)
+}
+
+interface MergeGroup {
+    header: { source: MergeSource; segment: EdiSegment } | null;   // GS template (X12 only)
+    entries: Array<{ source: MergeSource; entry: TransactionEntry }>;
+}
+
+/**
+ * Compare the envelopes of the sources with the first one
+ */
+export function checkMergeSources(sources: MergeSource[]): MergeCheck {
+    const conflicts: string[] = [];
+    const functionalIds: string[] = [];
+    if (sources.length === 0) {
+        return { conflicts, functionalIds };
+    }
+
+    const first = sources[0];
+    const reference = describeEnvelope(first.parsed);
+    for (const source of sources) {
+        if (source.parsed.standard !== first.parsed.standard) {
+            conflicts.push(`${source.name}: ${source.parsed.standard.toUpperCase()} cannot be merged with ${first.parsed.standard.toUpperCase()}`);
+            continue;
+        }
+
+        const envelope = describeEnvelope(source.parsed);
+        if (!envelope) {
+            conflicts.push(`${source.name}: No interchange header found`);
+            continue;
+        }
+        if (reference && source !== first) {
+            for (const key of ['Sender', 'Receiver', 'Version'] as const) {
+                if (envelope[key] !== reference[key]) {
+                    conflicts.push(`${source.name}: ${key} ${envelope[key]} differs from ${reference[key]} (${first.name})`);
+                }
+            }
+        }
+
+        for (const segment of source.parsed.segments) {
+            const id = segment.id === 'GS' ? getElementValue(segment, 1).trim() : null;
+            if (id && !functionalIds.includes(id)) {
+                functionalIds.push(id);
+            }
+        }
+    }
+
+    return { conflicts, functionalIds };
+}
+
+/**
+ * Merge the transaction sets/messages of all sources into one interchange.
+ * With separateGroups, X12 transaction sets are grouped by their GS01.
+ */
+export function mergeInterchanges(sources: MergeSource[], separateGroups: boolean): string {
+    const first = sources[0];
+    const isEdifact = first.parsed.standard === 'edifact';
+    const delimiters = first.parsed.delimiters;
+    const interchange = first.parsed.segments.find(s => s.id === (isEdifact ? 'UNB' : 'ISA'));
+    if (!interchange) {
+        throw new Error(`${first.name}: No interchange header found`);
+    }
+
+    const segments = first.parsed.segments;
+    const gap = segments.length > 1 ? first.text.substring(segments[0].terminatorEnd, segments[1].start) : '';
+    const separator = /^\s*$/.test(gap) ? gap : '';
+    const write = (...values: string[]) => values.join(delimiters.element) + delimiters.segment;
+
+    // Transaction sets/messages in source order, grouped under their group header
+    const groups: MergeGroup[] = [];
+    for (const source of sources) {
+        for (const entry of listTransactions(source.parsed)) {
+            let group: MergeGroup | undefined = groups[groups.length - 1];
+            if (!isEdifact) {
+                const functionalId = entry.group ? getElementValue(entry.group, 1).trim() : '';
+                group = groups.find(g => !separateGroups || (g.header ? getElementValue(g.header.segment, 1).trim() : '') === functionalId);
+                if (!group) {
+                    group = { header: entry.group ? { source, segment: entry.group } : null, entries: [] };
+                    groups.push(group);
+                }
+            } else if (!group) {
+                group = { header: null, entries: [] };
+                groups.push(group);
+            }
+            group.entries.push({ source, entry });
+        }
+    }
+    if (groups.length === 0) {
+        throw new Error('No transaction sets or messages found to merge');
+    }
+
+    const output: string[] = [];
+    const una = segments[0]?.id === 'UNA' ? segments[0] : null;
+    if (una) {
+        output.push(first.text.substring(una.start, una.terminatorEnd));
+    }
+    output.push(first.text.substring(interchange.start, interchange.terminatorEnd));
+
+    let messageCount = 0;
+    groups.forEach((group, index) => {
+        const groupControl = String(index + 1);
+        if (group.header) {
+            // GS06 numbered from 1 in the merged interchange
+            output.push(rewriteSegment(group.header.segment, group.header.source.parsed.delimiters, delimiters, { 6: groupControl }));
+        }
+
+        group.entries.forEach(({ source, entry }, entryIndex) => {
+            // ST02/UNH01 numbered from 1 (0001 for X12) within the group
+            const control = isEdifact ? String(entryIndex + 1) : String(entryIndex + 1).padStart(4, '0');
+            entry.segments.forEach((segment, position) => {
+                const isHeader = position === 0 && segment.id === (isEdifact ? 'UNH' : 'ST');
+                const isTrailer = position === entry.segments.length - 1 && segment.id === (isEdifact ? 'UNT' : 'SE');
+                if (isHeader) {
+                    output.push(rewriteSegment(segment, source.parsed.delimiters, delimiters, isEdifact ? { 1: control } : { 2: control }));
+                } else if (isTrailer) {
+                    output.push(rewriteSegment(segment, source.parsed.delimiters, delimiters, { 1: String(entry.segments.length), 2: control }));
+                } else {
+                    output.push(rewriteSegment(segment, source.parsed.delimiters, delimiters, {}, source.text));
+                }
+            });
+            messageCount++;
+        });
+
+        if (group.header) {
+            output.push(write('GE', String(group.entries.length), groupControl));
+        }
+    });
+
+    const interchangeControl = escapeValue(getElementValue(interchange, isEdifact ? 5 : 13).trim(), delimiters);
+    output.push(isEdifact
+        ? write('UNZ', String(messageCount), interchangeControl)
+        : write('IEA', String(groups.filter(g => g.header).length), interchangeControl));
+
+    return output.join(separator) + separator;
+}
+
+function describeEnvelope(parsed: ParsedEdi): Record<'Sender' | 'Receiver' | 'Version', string> | null {
+    if (parsed.standard === 'edifact') {
+        const unb = parsed.segments.find(s => s.id === 'UNB');
+        // Party identification and qualifier, syntax identifier and version
+        const composite = (position: number) => unb?.elements[position - 1]?.components.slice(0, 2).map(c => c.value.trim()).join(':') || '';
+        return unb ? { Sender: composite(2), Receiver: composite(3), Version: composite(1) } : null;
+    }
+
+    const isa = parsed.segments.find(s => s.id === 'ISA');
+    const value = (position: number) => isa ? getElementValue(isa, position).trim() : '';
+    return isa ? { Sender: `${value(5)}*${value(6)}`, Receiver: `${value(7)}*${value(8)}`, Version: value(12) } : null;
+}
+
+/**
+ * Write a segment with the target delimiters, replacing some element values.
+ * With the source text and unchanged delimiters, the segment is copied as is.
+ */
+function rewriteSegment(
+    segment: EdiSegment,
+    source: Delimiters,
+    target: Delimiters,
+    replacements: Record<number, string>,
+    text?: string
+): string {
+    const sameDelimiters = source.element === target.element && source.component === target.component &&
+        source.segment === target.segment && source.repetition === target.repetition && source.release === target.release;
+    if (text !== undefined && sameDelimiters) {
+        return text.substring(segment.start, segment.terminatorEnd);
+    }
+
+    return encodeSegment(segment, target, replacements);
+}
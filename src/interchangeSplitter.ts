@@ -0,0 +1,156 @@
+/**
+ * Interchange Splitting
+ *
+ * Lists the transaction sets (ST) or messages (UNH) of an interchange and
+ * writes a single one as a standalone interchange: the original ISA/GS or
+ * UNB/UNG headers are copied, the trailers are regenerated with counts for
+ * the one transaction, and the envelope control numbers can be replaced.
+ */
+
+import { EdiSegment, escapeValue, getElementValue, ParsedEdi } from './parser';
+
+export interface TransactionEntry {
+    type: string;                // ST01 or the UNH message type
+    controlNumber: string;       // ST02 or UNH01
+    reference: string;           // Key reference, e.g. BEG03 (PO number)
+    referenceLabel: string;      // e.g. "BEG-03"
+    interchange: EdiSegment | null;
+    group: EdiSegment | null;
+    segments: EdiSegment[];      // Header through trailer, inclusive
+}
+
+export interface EnvelopeControlNumbers {
+    interchange: string;         // ISA13 / UNB05
+    group: string;               // GS06 / UNG05
+}
+
+// Element position of the key reference per beginning segment
+const KEY_REFERENCES: Record<string, number> = {
+    BEG: 3,     // 850 purchase order number
+    BSN: 2,     // 856 shipment identification
+    BIG: 2,     // 810 invoice number
+    BGM: 2      // EDIFACT document/message number
+};
+
+/**
+ * List every transaction set/message with its envelope headers
+ */
+export function listTransactions(parsed: ParsedEdi): TransactionEntry[] {
+    const isEdifact = parsed.standard === 'edifact';
+    const [interchangeId, groupId, headerId, trailerId] = isEdifact
+        ? ['UNB', 'UNG', 'UNH', 'UNT']
+        : ['ISA', 'GS', 'ST', 'SE'];
+
+    const entries: TransactionEntry[] = [];
+    let interchange: EdiSegment | null = null;
+    let group: EdiSegment | null = null;
+    let current: TransactionEntry | null = null;
+
+    for (const segment of parsed.segments) {
+        if (segment.id === interchangeId) {
+            interchange = segment;
+            group = null;
+            current = null;
+        } else if (segment.id === groupId) {
+            group = segment;
+            current = null;
+        } else if (segment.id === headerId) {
+            current = {
+                type: isEdifact ? segment.elements[1]?.components[0]?.value || '' : getElementValue(segment, 1),
+                controlNumber: getElementValue(segment, isEdifact ? 1 : 2),
+                reference: '',
+                referenceLabel: '',
+                interchange,
+                group,
+                segments: [segment]
+            };
+            entries.push(current);
+            continue;
+        }
+
+        if (!current) {
+            continue;
+        }
+        current.segments.push(segment);
+
+        const position = KEY_REFERENCES[segment.id];
+        if (position && !current.referenceLabel) {
+            current.reference = getElementValue(segment, position).trim();
+            current.referenceLabel = `${segment.id}-${String(position).padStart(2, '0')}`;
+        }
+        if (segment.id === trailerId) {
+            current = null;
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Write one transaction set/message as its own interchange. Without control
+ * numbers, the original envelope control numbers are kept.
+ */
+export function extractTransaction(
+    parsed: ParsedEdi,
+    text: string,
+    entry: TransactionEntry,
+    controlNumbers?: EnvelopeControlNumbers
+): string {
+    if (!entry.interchange) {
+        throw new Error(`${entry.type} ${entry.controlNumber} is not inside an interchange envelope`);
+    }
+
+    const isEdifact = parsed.standard === 'edifact';
+    const delimiters = parsed.delimiters;
+    const segments = parsed.segments;
+    const gap = segments.length > 1 ? text.substring(segments[0].terminatorEnd, segments[1].start) : '';
+    const separator = /^\s*$/.test(gap) ? gap : '';
+    const write = (...values: string[]) => values.join(delimiters.element) + delimiters.segment;
+
+    const interchangeControl = controlNumbers
+        ? (isEdifact ? controlNumbers.interchange : controlNumbers.interchange.padStart(9, '0'))
+        : getElementValue(entry.interchange, isEdifact ? 5 : 13).trim();
+    const groupControl = entry.group
+        ? controlNumbers ? controlNumbers.group : getElementValue(entry.group, isEdifact ? 5 : 6).trim()
+        : '';
+
+    const output: string[] = [];
+    const una = segments[0]?.id === 'UNA' ? segments[0] : null;
+    if (una) {
+        output.push(text.substring(una.start, una.terminatorEnd));
+    }
+    output.push(controlNumbers
+        ? replaceElement(text, entry.interchange, isEdifact ? 5 : 13, escapeValue(interchangeControl, delimiters))
+        : rawSegment(text, entry.interchange));
+    if (entry.group) {
+        output.push(controlNumbers
+            ? replaceElement(text, entry.group, isEdifact ? 5 : 6, escapeValue(groupControl, delimiters))
+            : rawSegment(text, entry.group));
+    }
+
+    for (const segment of entry.segments) {
+        output.push(rawSegment(text, segment));
+    }
+
+    if (entry.group) {
+        output.push(write(isEdifact ? 'UNE' : 'GE', '1', escapeValue(groupControl, delimiters)));
+    }
+    output.push(write(isEdifact ? 'UNZ' : 'IEA', '1', escapeValue(interchangeControl, delimiters)));
+
+    return output.join(separator) + separator;
+}
+
+function rawSegment(text: string, segment: EdiSegment): string {
+    return text.substring(segment.start, segment.terminatorEnd);
+}
+
+/**
+ * Raw segment text with one element's value replaced (value already escaped)
+ */
+function replaceElement(text: string, segment: EdiSegment, position: number, value: string): string {
+    const element = segment.elements[position - 1];
+    if (!element) {
+        return rawSegment(text, segment);
+    }
+    return text.substring(segment.start, element.start) + value + text.substring(element.end, segment.terminatorEnd);
+}
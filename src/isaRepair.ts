@@ -0,0 +1,206 @@
+/**
+ * ISA Fixed-Width Checks and Repair
+ *
+ * The X12 ISA segment is exactly 106 characters (terminator included) with
+ * fixed-width fields. Checks the fields partners most often get wrong:
+ * - ISA02/ISA04 (10) and ISA06/ISA08 (15) padded with spaces
+ * - ISA09 as YYMMDD, ISA10 as HHMM
+ * - ISA13 as 9 digits, ISA15 as P or T
+ * - ISA16 differing from the element and segment delimiters
+ * Issues carry the repaired value in `expected` where it can be computed.
+ */
+
+import { Delimiters, EdiSegment, findElementIndexAt, ParsedEdi } from './parser';
+import { ValidationIssue } from './validators';
+
+export const ISA_LENGTH = 106;
+
+export interface IsaEdit {
+    start: number;
+    end: number;
+    value: string;
+}
+
+export interface IsaRepair {
+    edits: IsaEdit[];
+    unresolved: ValidationIssue[];   // Issues without a computable fix
+}
+
+// Space-padded identification fields and their widths
+const PADDED_FIELDS: Record<number, number> = { 2: 10, 4: 10, 6: 15, 8: 15 };
+
+// Element positions covered here rather than by the generic schema checks
+export const ISA_CHECKED_POSITIONS = [2, 4, 6, 8, 9, 10, 13, 15, 16];
+
+/**
+ * Check the fixed-width fields and the total length of an ISA segment
+ */
+export function validateIsaSegment(segment: EdiSegment, delimiters: Delimiters): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (segment.elements.length !== 16) {
+        issues.push({
+            start: segment.start,
+            end: segment.start + segment.id.length,
+            code: 'isaFormat',
+            message: `ISA: Expected 16 elements, found ${segment.elements.length}`,
+            severity: 'error'
+        });
+    }
+
+    const push = (position: number, message: string, expected?: string) => {
+        const element = segment.elements[position - 1];
+        issues.push({
+            start: element.start,
+            end: Math.max(element.end, element.start + 1),
+            code: 'isaFormat',
+            message: `${label(position)}: ${message}`,
+            severity: 'error',
+            expected
+        });
+    };
+    const value = (position: number) => segment.elements[position - 1]?.value;
+
+    for (const [key, width] of Object.entries(PADDED_FIELDS)) {
+        const position = Number(key);
+        const current = value(position);
+        if (current !== undefined && current.length !== width) {
+            const trimmed = current.trimEnd();
+            const lost = trimmed.length > width ? ` - "${trimmed.substring(width)}" is cut off` : '';
+            push(position, `Must be exactly ${width} characters, found ${current.length}${lost}`, trimmed.substring(0, width).padEnd(width, ' '));
+        }
+    }
+
+    const date = value(9);
+    if (date !== undefined && !isValidDate(date)) {
+        const normalized = normalizeDate(date);
+        push(9, `Interchange date "${date}" must be YYMMDD`, normalized ?? undefined);
+    }
+
+    const time = value(10);
+    if (time !== undefined && !isValidTime(time)) {
+        const normalized = normalizeTime(time);
+        push(10, `Interchange time "${time}" must be HHMM`, normalized ?? undefined);
+    }
+
+    const control = value(13);
+    if (control !== undefined && !/^\d{9}$/.test(control)) {
+        const digits = control.trim();
+        const normalized = /^\d+$/.test(digits) && String(parseInt(digits, 10)).length <= 9
+            ? String(parseInt(digits, 10)).padStart(9, '0')
+            : undefined;
+        push(13, `Interchange control number "${control}" must be 9 digits`, normalized);
+    }
+
+    const usage = value(15);
+    if (usage !== undefined && usage !== 'P' && usage !== 'T') {
+        const first = usage.trim().charAt(0).toUpperCase();
+        push(15, `Usage indicator "${usage}" must be P (production) or T (test)`, first === 'P' || first === 'T' ? first : undefined);
+    }
+
+    const component = value(16);
+    if (component !== undefined) {
+        if (component.length !== 1) {
+            push(16, `Component separator must be a single character, found "${component}"`);
+        } else if (component === delimiters.element || component === delimiters.segment) {
+            const clash = component === delimiters.element ? 'element delimiter' : 'segment terminator';
+            push(16, `Component separator "${component}" must differ from the ${clash}`);
+        }
+    }
+
+    // Total length - only meaningful once the element count is right
+    const length = segment.end - segment.start + 1;
+    if (segment.elements.length === 16 && length !== ISA_LENGTH) {
+        issues.push({
+            start: segment.start,
+            end: segment.start + segment.id.length,
+            code: 'isaLength',
+            message: `ISA: Segment is ${length} characters, expected ${ISA_LENGTH}`,
+            severity: 'error'
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Compute the edits that repair every ISA of a document. A repaired ISA13
+ * is copied to its IEA02 when both held the same number.
+ */
+export function repairIsa(parsed: ParsedEdi): IsaRepair {
+    const edits: IsaEdit[] = [];
+    const unresolved: ValidationIssue[] = [];
+    if (parsed.standard !== 'x12') {
+        return { edits, unresolved };
+    }
+
+    let controlNumber: { old: string; value: string } | null = null;
+    for (const segment of parsed.segments) {
+        if (segment.id === 'ISA') {
+            controlNumber = null;
+            for (const issue of validateIsaSegment(segment, parsed.delimiters)) {
+                if (issue.expected === undefined) {
+                    // The total length follows from the field fixes
+                    if (issue.code !== 'isaLength') {
+                        unresolved.push(issue);
+                    }
+                    continue;
+                }
+                const index = findElementIndexAt(segment, issue.start);
+                const element = segment.elements[index];
+                edits.push({ start: element.start, end: element.end, value: issue.expected });
+                if (index === 12) {
+                    controlNumber = { old: element.value, value: issue.expected };
+                }
+            }
+        } else if (segment.id === 'IEA' && controlNumber) {
+            const trailerControl = segment.elements[1];
+            if (trailerControl && parseInt(trailerControl.value, 10) === parseInt(controlNumber.old, 10)) {
+                edits.push({ start: trailerControl.start, end: trailerControl.end, value: controlNumber.value });
+            }
+            controlNumber = null;
+        }
+    }
+
+    return { edits, unresolved };
+}
+
+function isValidDate(value: string): boolean {
+    if (!/^\d{6}$/.test(value)) {
+        return false;
+    }
+    const month = parseInt(value.substring(2, 4), 10);
+    const day = parseInt(value.substring(4, 6), 10);
+    return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+function isValidTime(value: string): boolean {
+    return /^([01]\d|2[0-3])[0-5]\d$/.test(value);
+}
+
+/**
+ * YYMMDD from CCYYMMDD or a date with separators (e.g. "2023-01-15", "23/01/15")
+ */
+function normalizeDate(value: string): string | null {
+    const digits = value.trim().replace(/[-/.]/g, '');
+    const date = /^\d{8}$/.test(digits) ? digits.substring(2) : digits;
+    return isValidDate(date) ? date : null;
+}
+
+/**
+ * HHMM from HHMMSS, HMM or a time with separators (e.g. "12:30", "12:30:45")
+ */
+function normalizeTime(value: string): string | null {
+    const parts = value.trim().split(/[:.]/);
+    let time: string;
+    if (parts.length > 1) {
+        time = parts[0].padStart(2, '0') + (parts[1] || '').padStart(2, '0');
+    } else {
+        const digits = parts[0];
+        time = /^\d{6}$/.test(digits) ? digits.substring(0, 4) : digits.padStart(4, '0');
+    }
+    return isValidTime(time) ? time : null;
+}
+
+function label(position: number): string {
+    return `ISA-${String(position).padStart(2, '0')}`;
+}
@@ -0,0 +1,255 @@
+/**
+ * EDI <-> JSON Conversion
+ *
+ * Converts a parsed document into a JSON tree (envelopes, transactions and
+ * loops from the document tree, elements keyed like "BEG01" with schema names)
+ * and rebuilds EDI text from that JSON. Every element is kept - empty and
+ * trailing ones included - and so is the layout around the segments (line
+ * breaks, CRLF terminators, a missing final terminator), so EDI -> JSON -> EDI
+ * reproduces the text exactly.
+ */
+
+import { buildDocumentTree, EdiNode } from './documentTree';
+import { ValidationSchema } from './documentValidator';
+import type { ElementInfo } from './hoverProvider';
+import { Delimiters, EdiElement, EdiSegment, EdiStandard, escapeValue, ParsedEdi } from './parser';
+
+/**
+ * An element value: `value` for simple elements, `components` for composites,
+ * `repetitions` when the element repeats
+ */
+export interface EdiJsonElement {
+    name?: string;
+    value?: string;
+    components?: string[];
+    repetitions?: Array<{ value?: string; components?: string[] }>;
+}
+
+export interface EdiJsonSegment {
+    segment: string;
+    serviceString?: string;                       // UNA only: the five service characters before the terminator
+    elements?: Record<string, EdiJsonElement>;    // Keyed like "BEG01", in element order
+    terminator?: string;                          // Terminator text when it differs from the document's, e.g. "" at the end
+    separator?: string;                           // Text after the segment when it differs from `segmentSeparator`
+}
+
+export interface EdiJsonGroup {
+    type: 'interchange' | 'group' | 'transaction' | 'loop';
+    name: string;
+    loop?: string;                                // Loop ID from the transaction structure, e.g. "PO1Loop1"
+    children: EdiJsonNode[];
+}
+
+export type EdiJsonNode = EdiJsonSegment | EdiJsonGroup;
+
+export interface EdiJsonDocument {
+    standard: EdiStandard;
+    version?: string;                             // Schema version used for names
+    delimiters: Delimiters;
+    segmentSeparator: string;                     // Most common text after a segment's terminator, e.g. "\n"
+    segmentTerminator?: string;                   // Most common terminator text when it differs from the delimiter, e.g. "\r\n"
+    leadingText?: string;                         // Whitespace before the first segment
+    content: EdiJsonNode[];
+}
+
+/**
+ * Terminator and following text of each segment, as written in the source
+ */
+interface SegmentLayout {
+    terminator: string;
+    separator: string;
+}
+
+/**
+ * Convert a parsed document to its JSON tree
+ */
+export function ediToJson(parsed: ParsedEdi, text: string, schema?: ValidationSchema): EdiJsonDocument {
+    const segments = parsed.segments;
+    const layouts = new Map<EdiSegment, SegmentLayout>();
+    segments.forEach((segment, index) => layouts.set(segment, {
+        terminator: text.substring(segment.end, segment.terminatorEnd),
+        separator: text.substring(segment.terminatorEnd, index + 1 < segments.length ? segments[index + 1].start : text.length)
+    }));
+    const defaults: SegmentLayout = {
+        terminator: mostCommon([...layouts.values()].map(l => l.terminator)) ?? parsed.delimiters.segment,
+        separator: mostCommon([...layouts.values()].map(l => l.separator)) ?? ''
+    };
+
+    const doc: EdiJsonDocument = {
+        standard: parsed.standard,
+        version: schema?.version,
+        delimiters: { ...parsed.delimiters },
+        segmentSeparator: defaults.separator,
+        content: []
+    };
+    if (defaults.terminator !== parsed.delimiters.segment) {
+        doc.segmentTerminator = defaults.terminator;
+    }
+    const leadingText = segments.length > 0 ? text.substring(0, segments[0].start) : '';
+    if (leadingText) {
+        doc.leadingText = leadingText;
+    }
+    doc.content = buildDocumentTree(parsed, schema).map(node => nodeToJson(node, text, layouts, defaults, schema));
+    return doc;
+}
+
+/**
+ * Rebuild EDI text from a JSON tree. With `delimiters`, the document is written with
+ * those instead of the original ones (ISA11/ISA16 and UNA are updated to match).
+ */
+export function jsonToEdi(doc: EdiJsonDocument, delimiters?: Delimiters): string {
+    if (!doc || (doc.standard !== 'x12' && doc.standard !== 'edifact') || !doc.delimiters || !Array.isArray(doc.content)) {
+        throw new Error('Not an EDI JSON document (expected "standard", "delimiters" and "content")');
+    }
+
+    const original = doc.delimiters;
+    const target: Delimiters = delimiters || original;
+    // Source terminators (e.g. CRLF) only apply while the segment delimiter is kept
+    const keepTerminators = target.segment === original.segment;
+    const defaultTerminator = keepTerminators && typeof doc.segmentTerminator === 'string' ? doc.segmentTerminator : target.segment;
+    // Line breaks between segments would become empty segments once newline terminates them
+    const keepSeparators = target.segment !== '\n' || original.segment === '\n';
+
+    const segments: EdiJsonSegment[] = [];
+    collectSegments(doc.content, segments);
+
+    let text = typeof doc.leadingText === 'string' ? doc.leadingText : '';
+    for (const segment of segments) {
+        const terminator = keepTerminators && typeof segment.terminator === 'string' ? segment.terminator : defaultTerminator;
+        const separator = typeof segment.separator === 'string' ? segment.separator : (doc.segmentSeparator || '');
+        text += writeSegment(segment, doc.standard, original, target) + terminator + (keepSeparators ? separator : '');
+    }
+    return text;
+}
+
+function nodeToJson(node: EdiNode, text: string, layouts: Map<EdiSegment, SegmentLayout>, defaults: SegmentLayout, schema?: ValidationSchema): EdiJsonNode {
+    if (node.kind === 'segment') {
+        const json = segmentToJson(node.segment, text, schema);
+        const layout = layouts.get(node.segment);
+        if (layout && layout.terminator !== defaults.terminator) {
+            json.terminator = layout.terminator;
+        }
+        if (layout && layout.separator !== defaults.separator) {
+            json.separator = layout.separator;
+        }
+        return json;
+    }
+    const group: EdiJsonGroup = { type: node.kind, name: node.name, children: [] };
+    if (node.kind === 'loop') {
+        group.loop = node.id;
+    }
+    group.children = node.children.map(child => nodeToJson(child, text, layouts, defaults, schema));
+    return group;
+}
+
+function segmentToJson(segment: EdiSegment, text: string, schema?: ValidationSchema): EdiJsonSegment {
+    if (segment.id === 'UNA') {
+        return { segment: 'UNA', serviceString: text.substring(segment.start + 3, segment.start + 8) };
+    }
+
+    const elementInfos: ElementInfo[] = schema?.segments[segment.id]?.elements || [];
+    const elements: Record<string, EdiJsonElement> = {};
+    segment.elements.forEach((element, index) => {
+        const json = elementToJson(element, segment.id === 'ISA');
+        const name = elementInfos[index]?.name;
+        elements[`${segment.id}${String(index + 1).padStart(2, '0')}`] = name ? { name, ...json } : json;
+    });
+    return { segment: segment.id, elements };
+}
+
+function elementToJson(element: EdiElement, isIsa: boolean): EdiJsonElement {
+    // ISA elements are fixed fields - ISA11/ISA16 hold the delimiters themselves
+    if (isIsa) {
+        return { value: element.value };
+    }
+
+    const values = element.repetitions.map(repetition => repetition.components.length > 1
+        ? { components: repetition.components.map(c => c.value) }
+        : { value: repetition.value });
+    return values.length > 1 ? { repetitions: values } : values[0];
+}
+
+function mostCommon(values: string[]): string | undefined {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    let best: string | undefined;
+    for (const [value, count] of counts) {
+        if (best === undefined || count > counts.get(best)!) {
+            best = value;
+        }
+    }
+    return best;
+}
+
+function collectSegments(nodes: EdiJsonNode[], segments: EdiJsonSegment[]): void {
+    for (const node of nodes) {
+        if ('segment' in node) {
+            segments.push(node);
+        } else if (Array.isArray(node.children)) {
+            collectSegments(node.children, segments);
+        }
+    }
+}
+
+function writeSegment(segment: EdiJsonSegment, standard: EdiStandard, original: Delimiters, target: Delimiters): string {
+    if (segment.segment === 'UNA') {
+        // Regenerate the service string advice when delimiters change
+        return target === original && segment.serviceString
+            ? `UNA${segment.serviceString}`
+            : `UNA${target.component}${target.element}${target.decimal || '.'}${target.release || '?'}${target.repetition || ' '}`;
+    }
+
+    const elements = segment.elements || {};
+    const values: string[] = [];
+    for (const key of Object.keys(elements)) {
+        const position = parseInt(key.substring(segment.segment.length), 10);
+        if (!key.startsWith(segment.segment) || isNaN(position) || position < 1) {
+            throw new Error(`Element key "${key}" does not belong to segment ${segment.segment}`);
+        }
+        while (values.length < position - 1) {
+            values.push('');
+        }
+        values[position - 1] = segment.segment === 'ISA'
+            ? writeIsaElement(elements[key], position, original, target)
+            : writeElement(elements[key], key, standard, target);
+    }
+
+    return [segment.segment, ...values].join(target.element);
+}
+
+function writeIsaElement(element: EdiJsonElement, position: number, original: Delimiters, target: Delimiters): string {
+    const value = element.value ?? '';
+    if (position === 16) {
+        return target.component;
+    }
+    if (position === 11 && original.repetition && value === original.repetition && target.repetition) {
+        return target.repetition;
+    }
+    return value;
+}
+
+function writeElement(element: EdiJsonElement, key: string, standard: EdiStandard, delimiters: Delimiters): string {
+    const writeValue = (value: string) => {
+        if (standard === 'edifact') {
+            return escapeValue(value, delimiters);
+        }
+        // X12 has no release character - a delimiter inside a value cannot be written
+        const used = [delimiters.element, delimiters.component, delimiters.segment, delimiters.repetition].filter(Boolean) as string[];
+        const clash = used.find(d => value.includes(d));
+        if (clash) {
+            throw new Error(`${key}: Value "${value}" contains the delimiter "${clash === '\n' ? '\\n' : clash}"`);
+        }
+        return value;
+    };
+    const writeRepetition = (repetition: { value?: string; components?: string[] }) => Array.isArray(repetition.components)
+        ? repetition.components.map(writeValue).join(delimiters.component)
+        : writeValue(repetition.value ?? '');
+
+    if (Array.isArray(element.repetitions)) {
+        if (element.repetitions.length > 1 && !delimiters.repetition) {
+            throw new Error(`${key}: Repeated element but no repetition separator is defined`);
+        }
+        return element.repetitions.map(writeRepetition).join(delimiters.repetition || '');
+    }
+    return writeRepetition(element);
+}
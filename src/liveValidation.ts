@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { createIssueDiagnostic, getDiagnosticCollection } from './commands';
+import { loadValidationSchema } from './documentValidator';
+import { BlockCache, validateIncrementally } from './incrementalValidation';
+import { parseDocument } from './parser';
+
+/**
+ * Background validation: re-validates EDI documents on open, on save and
+ * (debounced) on change when "ediX12Tools.validation.live" is enabled.
+ *
+ * Results of each transaction set/message are cached by content per document
+ * (see incrementalValidation.ts), so an edit only re-checks the ST..SE or
+ * UNH..UNT block it touched.
+ */
+export class LiveValidationController implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private timers = new Map<string, NodeJS.Timeout>();
+    private states = new Map<string, BlockCache>();
+
+    constructor(private extensionPath: string) {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.validateNow(document)),
+            vscode.workspace.onDidSaveTextDocument(document => this.validateNow(document)),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.contentChanges.length > 0) {
+                    this.schedule(event.document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.forget(document)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ediX12Tools.validation')) {
+                    this.cancelAll();
+                    if (this.isEnabled()) {
+                        this.validateOpenDocuments();
+                    } else {
+                        this.clearAll();
+                    }
+                }
+            })
+        );
+
+        // Initial pass over documents that were open before activation
+        this.validateOpenDocuments();
+    }
+
+    dispose(): void {
+        this.cancelAll();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('ediX12Tools').get<boolean>('validation.live', false);
+    }
+
+    /**
+     * EDI files on disk and unsaved editors only - not git, diff or output views
+     */
+    private isEdiDocument(document: vscode.TextDocument): boolean {
+        return (document.uri.scheme === 'file' || document.uri.scheme === 'untitled') &&
+            (document.languageId === 'x12' || document.languageId === 'edifact');
+    }
+
+    private validateOpenDocuments(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            this.validateNow(document);
+        }
+    }
+
+    private schedule(document: vscode.TextDocument): void {
+        if (!this.isEnabled() || !this.isEdiDocument(document)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        const delay = vscode.workspace.getConfiguration('ediX12Tools').get<number>('validation.debounceDelay', 500);
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.validate(document);
+        }, Math.max(0, delay)));
+    }
+
+    private validateNow(document: vscode.TextDocument): void {
+        if (!this.isEnabled() || !this.isEdiDocument(document)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.timers.delete(key);
+        }
+        this.validate(document);
+    }
+
+    private validate(document: vscode.TextDocument): void {
+        if (document.isClosed) {
+            return;
+        }
+
+        const parsed = parseDocument(document);
+        if (!parsed) {
+            getDiagnosticCollection().delete(document.uri);
+            return;
+        }
+
+        try {
+            const key = document.uri.toString();
+            const schema = loadValidationSchema(this.extensionPath, parsed);
+            const result = validateIncrementally(parsed, document.getText(), schema, this.states.get(key));
+            this.states.set(key, result.cache);
+            getDiagnosticCollection().set(document.uri, result.issues.map(issue => createIssueDiagnostic(document, issue)));
+        } catch (error) {
+            console.error('[EDI Live Validation] Validation failed:', error);
+        }
+    }
+
+    private forget(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.timers.delete(key);
+        }
+        this.states.delete(key);
+    }
+
+    /**
+     * Remove the diagnostics of every document validated in the background
+     */
+    private clearAll(): void {
+        const collection = getDiagnosticCollection();
+        this.states.forEach((_, key) => collection.delete(vscode.Uri.parse(key)));
+        this.states.clear();
+    }
+
+    private cancelAll(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+}
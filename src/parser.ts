@@ -0,0 +1,546 @@
+/**
+ * EDI Parser
+ *
+ * Delimiter-aware tokenizer shared by every feature of the extension:
+ * - Reads delimiters from the ISA (X12) or UNA/UNB (EDIFACT) header
+ * - Honours the EDIFACT release character
+ * - Works with or without line breaks between segments
+ * - Returns exact source offsets for segments, elements, repetitions and components
+ */
+
+import type * as vscode from 'vscode';
+
+export type EdiStandard = 'x12' | 'edifact';
+
+export interface Delimiters {
+    element: string;
+    component: string;
+    segment: string;
+    repetition?: string;
+    release?: string;
+    decimal?: string;
+}
+
+/**
+ * A delimited value with its offsets in the source text.
+ * `value` has release characters removed; `start`/`end` cover the raw text.
+ */
+export interface EdiToken {
+    value: string;
+    start: number;
+    end: number;
+}
+
+export interface EdiRepetition extends EdiToken {
+    components: EdiToken[];
+}
+
+export interface EdiElement extends EdiToken {
+    repetitions: EdiRepetition[];
+    components: EdiToken[]; // Components of the first repetition
+}
+
+export interface EdiSegment {
+    id: string;
+    index: number;          // 0-based position of the segment in the document
+    start: number;          // Offset of the segment tag
+    end: number;            // Offset just past the last element (terminator excluded)
+    terminatorEnd: number;  // Offset just past the segment terminator (equals `end` when missing)
+    elements: EdiElement[]; // elements[0] is element 01
+}
+
+export interface ParsedEdi {
+    standard: EdiStandard;
+    delimiters: Delimiters;
+    segments: EdiSegment[];
+}
+
+const DEFAULT_EDIFACT_DELIMITERS: Delimiters = {
+    component: ':',
+    element: '+',
+    decimal: '.',
+    release: '?',
+    segment: "'"
+};
+
+/**
+ * Detect the EDI standard from the first segment tag
+ */
+export function detectStandard(text: string): EdiStandard | null {
+    const start = skipLeadingWhitespace(text, 0);
+    const tag = text.substring(start, start + 3);
+
+    if (tag === 'ISA' || tag.startsWith('GS') || tag.startsWith('ST')) {
+        return 'x12';
+    }
+    if (tag === 'UNA' || tag === 'UNB' || tag === 'UNG' || tag === 'UNH') {
+        return 'edifact';
+    }
+    return null;
+}
+
+/**
+ * Detect delimiters from the interchange header
+ */
+export function detectDelimiters(text: string, standard: EdiStandard): Delimiters {
+    const start = skipLeadingWhitespace(text, 0);
+    return standard === 'edifact'
+        ? detectEdifactDelimiters(text, start)
+        : detectX12Delimiters(text, start);
+}
+
+function detectX12Delimiters(text: string, start: number): Delimiters {
+    if (!text.startsWith('ISA', start)) {
+        // Envelope-less fragment (GS or ST first) - element delimiter follows the 2-char tag
+        const element = text.charAt(start + 2) || '*';
+        return {
+            element,
+            component: ':',
+            segment: text.includes('~') ? '~' : '\n'
+        };
+    }
+
+    // ISA is fixed width (106 chars) but is not always padded correctly,
+    // so walk the 16 element delimiters instead of trusting fixed offsets
+    const element = text.charAt(start + 3);
+    let delimCount = 0;
+    let isa11Start = -1;
+    let isa11End = -1;
+    let i = start + 3;
+    for (; i < text.length && delimCount < 16; i++) {
+        if (text.charAt(i) === element) {
+            delimCount++;
+            if (delimCount === 11) {
+                isa11Start = i + 1;
+            } else if (delimCount === 12) {
+                isa11End = i;
+            }
+        }
+    }
+
+    const component = text.charAt(i) || ':';
+    let segment = text.charAt(i + 1) || '~';
+    if (segment === '\r') {
+        segment = '\n'; // CRLF-terminated segments - the \r is trimmed while tokenizing
+    }
+
+    // ISA11 is the repetition separator from 00402 onwards (a code like "U" before that)
+    const isa11 = isa11Start >= 0 && isa11End >= 0 ? text.substring(isa11Start, isa11End) : '';
+    const repetition = isa11.length === 1 && !/[A-Za-z0-9 ]/.test(isa11) ? isa11 : undefined;
+
+    return { element, component, segment, repetition };
+}
+
+function detectEdifactDelimiters(text: string, start: number): Delimiters {
+    if (text.startsWith('UNA', start) && text.length >= start + 9) {
+        // UNA is always 9 characters: UNA + component, element, decimal, release, repetition, segment
+        const release = text.charAt(start + 6);
+        const repetition = text.charAt(start + 7);
+        return {
+            component: text.charAt(start + 3),
+            element: text.charAt(start + 4),
+            decimal: text.charAt(start + 5),
+            release: release !== ' ' ? release : undefined,
+            repetition: repetition !== ' ' ? repetition : undefined,
+            segment: text.charAt(start + 8)
+        };
+    }
+
+    const delimiters: Delimiters = { ...DEFAULT_EDIFACT_DELIMITERS };
+    if (!text.startsWith('UNB', start)) {
+        return delimiters;
+    }
+
+    // No UNA - infer delimiters from the UNB structure: UNB+UNOA:2+sender+receiver+...
+    delimiters.element = text.charAt(start + 3);
+
+    // Component delimiter sits between the syntax identifier and its version (e.g. "UNOA:2")
+    const firstElemEnd = text.indexOf(delimiters.element, start + 4);
+    if (firstElemEnd > start + 4) {
+        const firstElement = text.substring(start + 4, firstElemEnd);
+        const componentChar = firstElement.split('').find(c => !/[A-Za-z0-9]/.test(c));
+        if (componentChar) {
+            delimiters.component = componentChar;
+        }
+    }
+
+    // Segment terminator is the character right before the next service segment tag
+    const nextTag = /([^A-Za-z0-9\s])\s*UN[GHZ]/g;
+    nextTag.lastIndex = start + 3;
+    let match: RegExpExecArray | null;
+    while ((match = nextTag.exec(text)) !== null) {
+        const char = match[1];
+        if (char !== delimiters.element && char !== delimiters.component && char !== delimiters.release) {
+            delimiters.segment = char;
+            break;
+        }
+    }
+
+    return delimiters;
+}
+
+/**
+ * Parse EDI text into segments with exact offsets.
+ * Returns null when the text is not recognizable as X12 or EDIFACT.
+ */
+export function parseEdi(text: string, standard?: EdiStandard): ParsedEdi | null {
+    const detected = detectStandard(text) || standard;
+    if (!detected) {
+        return null;
+    }
+
+    const delimiters = detectDelimiters(text, detected);
+    const segments: EdiSegment[] = [];
+    const length = text.length;
+    let pos = 0;
+
+    while (pos < length) {
+        pos = skipLeadingWhitespace(text, pos);
+        if (pos >= length) {
+            break;
+        }
+
+        // UNA service string advice holds the delimiters themselves - never tokenize it
+        if (detected === 'edifact' && text.startsWith('UNA', pos) && pos + 9 <= length) {
+            segments.push({
+                id: 'UNA',
+                index: segments.length,
+                start: pos,
+                end: pos + 8,
+                terminatorEnd: pos + 9,
+                elements: []
+            });
+            pos += 9;
+            continue;
+        }
+
+        const isIsa = detected === 'x12' && text.startsWith('ISA', pos);
+        const contentEnd = isIsa
+            ? findIsaEnd(text, pos, delimiters)
+            : findSegmentEnd(text, pos, delimiters);
+
+        let end = contentEnd;
+        if (delimiters.segment === '\n' && end > pos && text.charAt(end - 1) === '\r') {
+            end--;
+        }
+        const hasTerminator = contentEnd < length && text.charAt(contentEnd) === delimiters.segment;
+        if (!hasTerminator) {
+            // Unterminated last segment - ignore trailing whitespace
+            while (end > pos && /\s/.test(text.charAt(end - 1))) {
+                end--;
+            }
+        }
+
+        segments.push(tokenizeSegment(text, pos, end, delimiters, isIsa, segments.length,
+            hasTerminator ? contentEnd + 1 : contentEnd));
+
+        pos = hasTerminator ? contentEnd + 1 : contentEnd;
+    }
+
+    return { standard: detected, delimiters, segments };
+}
+
+/**
+ * Find the offset of the segment terminator (or end of text), skipping released characters
+ */
+function findSegmentEnd(text: string, start: number, delimiters: Delimiters): number {
+    const { segment, release } = delimiters;
+    let i = start;
+    while (i < text.length) {
+        const char = text.charAt(i);
+        if (release && char === release) {
+            i += 2;
+            continue;
+        }
+        if (char === segment) {
+            return i;
+        }
+        i++;
+    }
+    return text.length;
+}
+
+/**
+ * ISA16 holds the component separator, which may equal other delimiters -
+ * the segment ends right after the character following the 16th element delimiter
+ */
+function findIsaEnd(text: string, start: number, delimiters: Delimiters): number {
+    let delimCount = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text.charAt(i) === delimiters.element) {
+            delimCount++;
+            if (delimCount === 16) {
+                const terminator = i + 2;
+                if (delimiters.segment === '\n' && text.charAt(terminator) === '\r') {
+                    return Math.min(terminator + 1, text.length);
+                }
+                return Math.min(terminator, text.length);
+            }
+        }
+    }
+    return findSegmentEnd(text, start, delimiters);
+}
+
+function tokenizeSegment(
+    text: string,
+    start: number,
+    end: number,
+    delimiters: Delimiters,
+    isIsa: boolean,
+    index: number,
+    terminatorEnd: number
+): EdiSegment {
+    // ISA carries the repetition and component separators as values, so only split on elements
+    const release = isIsa ? undefined : delimiters.release;
+
+    const idEnd = findDelimiter(text, start, end, delimiters.element, release);
+    const id = text.substring(start, idEnd).trim();
+
+    const elements: EdiElement[] = [];
+    if (idEnd < end) {
+        for (const token of splitTokens(text, idEnd + 1, end, delimiters.element, release)) {
+            const repetitionTokens = !isIsa && delimiters.repetition
+                ? splitTokens(text, token.start, token.end, delimiters.repetition, release)
+                : [token];
+
+            const repetitions: EdiRepetition[] = repetitionTokens.map(rep => ({
+                ...rep,
+                components: isIsa
+                    ? [rep]
+                    : splitTokens(text, rep.start, rep.end, delimiters.component, release)
+            }));
+
+            elements.push({
+                ...token,
+                repetitions,
+                components: repetitions[0].components
+            });
+        }
+    }
+
+    return { id, index, start, end, terminatorEnd, elements };
+}
+
+function findDelimiter(text: string, start: number, end: number, delimiter: string, release?: string): number {
+    for (let i = start; i < end; i++) {
+        const char = text.charAt(i);
+        if (release && char === release) {
+            i++;
+            continue;
+        }
+        if (char === delimiter) {
+            return i;
+        }
+    }
+    return end;
+}
+
+function splitTokens(text: string, start: number, end: number, delimiter: string, release?: string): EdiToken[] {
+    const tokens: EdiToken[] = [];
+    let tokenStart = start;
+    for (let i = start; i < end; i++) {
+        const char = text.charAt(i);
+        if (release && char === release) {
+            i++;
+            continue;
+        }
+        if (char === delimiter) {
+            tokens.push(makeToken(text, tokenStart, i, release));
+            tokenStart = i + 1;
+        }
+    }
+    tokens.push(makeToken(text, tokenStart, end, release));
+    return tokens;
+}
+
+function makeToken(text: string, start: number, end: number, release?: string): EdiToken {
+    const raw = text.substring(start, end);
+    return { value: release ? unescapeValue(raw, release) : raw, start, end };
+}
+
+function unescapeValue(raw: string, release: string): string {
+    if (!raw.includes(release)) {
+        return raw;
+    }
+    let value = '';
+    for (let i = 0; i < raw.length; i++) {
+        const char = raw.charAt(i);
+        if (char === release && i + 1 < raw.length) {
+            i++;
+            value += raw.charAt(i);
+        } else {
+            value += char;
+        }
+    }
+    return value;
+}
+
+/**
+ * Escape a value for output with the given delimiters (EDIFACT release character only)
+ */
+export function escapeValue(value: string, delimiters: Delimiters): string {
+    const release = delimiters.release;
+    if (!release) {
+        return value;
+    }
+    const special = [release, delimiters.element, delimiters.component, delimiters.segment, delimiters.repetition]
+        .filter((d): d is string => !!d);
+    let escaped = '';
+    for (const char of value) {
+        escaped += special.includes(char) ? release + char : char;
+    }
+    return escaped;
+}
+
+function skipLeadingWhitespace(text: string, pos: number): number {
+    while (pos < text.length && /[\s\uFEFF]/.test(text.charAt(pos))) {
+        pos++;
+    }
+    return pos;
+}
+
+/**
+ * Find the segment containing an offset (or the segment just before it
+ * when the offset falls on whitespace between segments)
+ */
+export function findSegmentAt(parsed: ParsedEdi, offset: number): EdiSegment | null {
+    const segments = parsed.segments;
+    let low = 0;
+    let high = segments.length - 1;
+    let found: EdiSegment | null = null;
+
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (segments[mid].start <= offset) {
+            found = segments[mid];
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Find the 0-based index of the element containing an offset.
+ * An offset on a delimiter belongs to the element before it.
+ */
+export function findElementIndexAt(segment: EdiSegment, offset: number): number {
+    return segment.elements.findIndex(e => offset >= e.start && offset <= e.end);
+}
+
+/**
+ * Find the repetition of an element containing an offset (the first one if none does)
+ */
+export function findRepetitionAt(element: EdiElement, offset: number): EdiRepetition {
+    return element.repetitions.find(r => offset >= r.start && offset <= r.end) || element.repetitions[0];
+}
+
+/**
+ * Find the 0-based index of the component containing an offset
+ */
+export function findComponentIndexAt(element: EdiElement, offset: number): number {
+    return findRepetitionAt(element, offset).components.findIndex(c => offset >= c.start && offset <= c.end);
+}
+
+/**
+ * Get the (unescaped) value of an element by 1-based position, or '' if absent
+ */
+export function getElementValue(segment: EdiSegment, position: number): string {
+    const element = segment.elements[position - 1];
+    return element ? element.value : '';
+}
+
+export interface EdiTransaction {
+    type: string;            // ST01 or the UNH message type (e.g. "850", "ORDERS")
+    controlNumber: string;   // ST02 or UNH01
+    segments: EdiSegment[];  // Header through trailer, inclusive
+}
+
+const TRANSACTION_BOUNDARIES: Record<EdiStandard, { header: string; trailer: string; envelopes: string[] }> = {
+    x12: { header: 'ST', trailer: 'SE', envelopes: ['ISA', 'IEA', 'GS', 'GE'] },
+    edifact: { header: 'UNH', trailer: 'UNT', envelopes: ['UNA', 'UNB', 'UNZ', 'UNG', 'UNE'] }
+};
+
+/**
+ * Collect the transaction sets (ST..SE) or messages (UNH..UNT) of a document.
+ * A transaction missing its trailer ends at the next envelope segment.
+ */
+export function getTransactions(parsed: ParsedEdi): EdiTransaction[] {
+    const { header, trailer, envelopes } = TRANSACTION_BOUNDARIES[parsed.standard];
+    const transactions: EdiTransaction[] = [];
+    let current: EdiTransaction | null = null;
+
+    for (const segment of parsed.segments) {
+        if (segment.id === header) {
+            const isEdifact = parsed.standard === 'edifact';
+            current = {
+                type: isEdifact ? segment.elements[1]?.components[0].value || '' : getElementValue(segment, 1),
+                controlNumber: getElementValue(segment, isEdifact ? 1 : 2),
+                segments: [segment]
+            };
+            transactions.push(current);
+        } else if (envelopes.includes(segment.id)) {
+            current = null;
+        } else if (current) {
+            current.segments.push(segment);
+            if (segment.id === trailer) {
+                current = null;
+            }
+        }
+    }
+
+    return transactions;
+}
+
+/**
+ * Get the version declared in the interchange header:
+ * X12 ISA12 (e.g. "00401") or EDIFACT UNH message version/release (e.g. "96A")
+ */
+export function getDeclaredVersion(parsed: ParsedEdi): string | null {
+    if (parsed.standard === 'x12') {
+        const isa = parsed.segments.find(s => s.id === 'ISA');
+        if (isa) {
+            return getElementValue(isa, 12).trim() || null;
+        }
+        const gs = parsed.segments.find(s => s.id === 'GS');
+        return gs ? getElementValue(gs, 8).trim() || null : null;
+    }
+
+    // UNH+ref+ORDERS:D:96A:UN - S009 components: type, version, release, agency
+    const unh = parsed.segments.find(s => s.id === 'UNH');
+    const identifier = unh?.elements[1];
+    if (identifier && identifier.components.length >= 3 && identifier.components[1].value.toUpperCase() === 'D') {
+        return identifier.components[2].value.toUpperCase() || null;
+    }
+    return null;
+}
+
+// Parsed documents keyed by URI, reused until the document version changes
+const documentCache = new Map<string, { version: number; parsed: ParsedEdi | null }>();
+
+/**
+ * Parse a text document, reusing the previous result while the document is unchanged
+ */
+export function parseDocument(document: vscode.TextDocument): ParsedEdi | null {
+    const key = document.uri.toString();
+    const cached = documentCache.get(key);
+    if (cached && cached.version === document.version) {
+        return cached.parsed;
+    }
+
+    const hint: EdiStandard | undefined = document.languageId === 'edifact'
+        ? 'edifact'
+        : document.languageId === 'x12' ? 'x12' : undefined;
+    const parsed = parseEdi(document.getText(), hint);
+    documentCache.set(key, { version: document.version, parsed });
+    return parsed;
+}
+
+/**
+ * Drop the cached parse for a closed document
+ */
+export function forgetDocument(document: vscode.TextDocument): void {
+    documentCache.delete(document.uri.toString());
+}
@@ -0,0 +1,13 @@
+/**
+ * Settings Values
+ *
+ * Type guards for values parsed from JSON - settings and workspace files,
+ * which can hold anything the user typed, and the bundled schema files.
+ */
+
+/**
+ * A plain JSON object (not null or an array)
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
+import { findElementIndexAt, findSegmentAt, parseDocument } from './parser';
+import { getUsageIndicator } from './usageIndicator';
 
 export class StatusBarController {
     private statusBarItem: vscode.StatusBarItem;
+    private usageItem: vscode.StatusBarItem;
     private disposables: vscode.Disposable[] = [];
 
     constructor() {
@@ -12,6 +15,14 @@ export class StatusBarController {
         );
         this.disposables.push(this.statusBarItem);
 
+        // TEST/PRODUCTION badge (ISA15 / UNB11), click to toggle
+        this.usageItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Right,
+            101
+        );
+        this.usageItem.command = 'ediX12Tools.toggleUsageIndicator';
+        this.disposables.push(this.usageItem);
+
         // Register event handlers
         this.disposables.push(
             vscode.window.onDidChangeTextEditorSelection(
@@ -25,6 +36,13 @@ export class StatusBarController {
                 this
             )
         );
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document === vscode.window.activeTextEditor?.document) {
+                    this.updateUsageBadge();
+                }
+            })
+        );
 
         // Initial update
         this.updateStatusBar();
@@ -33,6 +51,8 @@ export class StatusBarController {
     private updateStatusBar(): void {
         const editor = vscode.window.activeTextEditor;
 
+        this.updateUsageBadge();
+
         if (!editor) {
             this.statusBarItem.hide();
             return;
@@ -59,57 +79,67 @@ export class StatusBarController {
         }
     }
 
+    private updateUsageBadge(): void {
+        const document = vscode.window.activeTextEditor?.document;
+        const parsed = document && (document.languageId === 'x12' || document.languageId === 'edifact')
+            ? parseDocument(document)
+            : null;
+        const indicator = parsed ? getUsageIndicator(parsed) : null;
+        if (!indicator) {
+            this.usageItem.hide();
+            return;
+        }
+
+        const field = parsed!.standard === 'edifact' ? 'UNB-11' : 'ISA-15';
+        if (indicator === 'test') {
+            this.usageItem.text = '$(beaker) TEST';
+            this.usageItem.backgroundColor = undefined;
+        } else {
+            // Production (or a mix) is what a partner processes for real
+            this.usageItem.text = indicator === 'production' ? '$(flame) PRODUCTION' : '$(warning) TEST/PRODUCTION';
+            this.usageItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        }
+        this.usageItem.tooltip = `Usage indicator (${field}) - click to switch between test and production`;
+        this.usageItem.show();
+    }
+
     private getSegmentElementPosition(
         editor: vscode.TextEditor,
         position: vscode.Position
     ): string | null {
         const document = editor.document;
-        const line = document.lineAt(position.line);
-        const lineText = line.text;
-        const cursorOffset = position.character;
-
-        // Handle multi-line selections
-        if (!lineText) {
+        const parsed = parseDocument(document);
+        if (!parsed) {
             return null;
         }
 
-        // Get segment delimiter (usually ~ for X12, ' for EDIFACT)
-        const isEdifact = document.languageId === 'edifact';
-        const elementDelim = isEdifact ? '+' : '*';
-
-        // Extract segment name (first 2-3 characters before first delimiter)
-        const segmentMatch = lineText.match(/^([A-Z0-9]{2,3})(?=\\*|\\+|\\:)/);
-        if (!segmentMatch) {
+        // Find the segment under the cursor
+        const offset = document.offsetAt(position);
+        const segment = findSegmentAt(parsed, offset);
+        if (!segment || offset > segment.end || !/^[A-Z0-9]{2,3}$/.test(segment.id)) {
             return null;
         }
 
-        const segment = segmentMatch[1];
+        // Check if selection spans multiple segments or elements
+        if (!editor.selection.isEmpty) {
+            const selectionStart = document.offsetAt(editor.selection.start);
+            const selectionEnd = document.offsetAt(editor.selection.end);
 
-        // Count element delimiters before cursor position
-        const textBeforeCursor = lineText.substring(0, cursorOffset);
-        const elementCount = (textBeforeCursor.match(new RegExp('\\' + elementDelim, 'g')) || []).length;
+            if (findSegmentAt(parsed, selectionStart) !== findSegmentAt(parsed, selectionEnd)) {
+                return document.languageId.toUpperCase();
+            }
 
-        // Check if selection spans multiple elements
-        const selection = document.getText(
-            new vscode.Range(
-                editor.selection.start,
-                editor.selection.end
-            )
-        );
-        const hasMultipleElements = selection.includes(elementDelim);
-        const hasMultipleLines = selection.includes('\n');
-
-        if (hasMultipleLines) {
-            return document.languageId.toUpperCase();
+            if (findElementIndexAt(segment, selectionStart) !== findElementIndexAt(segment, selectionEnd)) {
+                return segment.id;
+            }
         }
 
-        if (hasMultipleElements) {
-            return segment;
-        }
+        // Element position under the cursor (00 when on the segment tag)
+        const elementCount = findElementIndexAt(segment, offset) + 1;
 
         // Format element count with leading zero if less than 10
         const elementStr = elementCount < 10 ? `0${elementCount}` : `${elementCount}`;
-        return `${segment}-${elementStr}`;
+        return `${segment.id}-${elementStr}`;
     }
 
     dispose(): void {
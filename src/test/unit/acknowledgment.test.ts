@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { generateContrlMessage, generateFunctionalAcknowledgment } from '../../acknowledgment';
+import { loadValidationSchema, validateParsedDocument } from '../../documentValidator';
+import { ValidationIssue } from '../../validators';
+import { parse, x12Purchase } from './helpers';
+
+const EXTENSION_PATH = path.resolve(__dirname, '../../..');
+const OPTIONS = { controlNumber: 42, date: new Date(2023, 4, 6, 7, 8) };
+
+const segmentsOf = (text: string) => parse(text).segments.map(s => [s.id, ...s.elements.map(e => e.value)].join('*'));
+
+const ORDERS = "UNA:+.? 'UNB+UNOA:2+S:ZZ+R:ZZ+230101:1200+1'UNH+1+ORDERS:D:96A:UN'BGM+220+PO1+9'DTM+137:2023013X:102'UNT+4+1'UNZ+1+1'";
+
+// An error issue covering the first occurrence of `value` in the text
+const issueAt = (text: string, value: string, code: string, message: string): ValidationIssue =>
+    ({ start: text.indexOf(value), end: text.indexOf(value) + value.length, code, message, severity: 'error' });
+
+suite('acknowledgment', () => {
+    test('accepts a valid 850 with a 997', () => {
+        const parsed = parse(x12Purchase(['BEG*00*SA*PO1**20230101', 'PO1*1*1*EA*1**BP*X', 'CTT*1']));
+        const ack = generateFunctionalAcknowledgment(parsed, [], loadValidationSchema(EXTENSION_PATH, parsed), OPTIONS);
+        assert.strictEqual(ack.type, '997');
+        assert.deepStrictEqual([ack.accepted, ack.rejected], [1, 0]);
+
+        const segments = segmentsOf(ack.text);
+        // Sender and receiver are swapped
+        assert.ok(segments[0].startsWith('ISA*00*          *00*          *ZZ*RECEIVER       *ZZ*SENDER         *230506*0708*'));
+        assert.ok(segments[0].includes('*000000042*'));
+        assert.deepStrictEqual(segments.slice(2, -2), [
+            'ST*997*0001',
+            'AK1*PO*1',
+            'AK2*850*0001',
+            'AK5*A',
+            'AK9*A*1*1*1',
+            'SE*6*0001'
+        ]);
+    });
+
+    test('rejects a transaction set with errors', () => {
+        const text = x12Purchase(['BEG*00*SA*PO1**20230101', 'PO1*1*1*EA*1**BP*X', 'CTT*1']).replace('SE*5*0001', 'SE*9*0001');
+        const parsed = parse(text);
+        const schema = loadValidationSchema(EXTENSION_PATH, parsed);
+        const ack = generateFunctionalAcknowledgment(parsed, validateParsedDocument(parsed, schema), schema, OPTIONS);
+        assert.deepStrictEqual([ack.accepted, ack.rejected], [0, 1]);
+
+        const segments = segmentsOf(ack.text);
+        assert.ok(segments.some(s => s.startsWith('AK5*R')));
+        assert.ok(segments.includes('AK9*R*1*1*0'));
+    });
+
+    test('acknowledges an EDIFACT interchange with CONTRL', () => {
+        const ack = generateContrlMessage(parse(ORDERS), [], OPTIONS);
+        assert.strictEqual(ack.type, 'CONTRL');
+        assert.deepStrictEqual([ack.accepted, ack.rejected], [1, 0]);
+
+        const segments = segmentsOf(ack.text);
+        assert.deepStrictEqual(segments.slice(1), [
+            'UNB*UNOA:2*R:ZZ*S:ZZ*230506:0708*42',
+            'UNH*1*CONTRL:D:3:UN',
+            'UCI*1*S:ZZ*R:ZZ*7',
+            'UCM*1*ORDERS:D:96A:UN*7',
+            'UNT*4*1',
+            'UNZ*1*42'
+        ]);
+    });
+
+    test('reports element errors in UCS and UCD', () => {
+        const issues = [
+            issueAt(ORDERS, '2023013X', 'dataType', 'DTM-01-02: Invalid date'),
+            issueAt(ORDERS, '220', 'invalidCode', 'BGM-01-01: Invalid code "220"'),
+            { ...issueAt(ORDERS, '9', 'length', 'BGM-03: Too long'), severity: 'warning' as const }
+        ];
+        const ack = generateContrlMessage(parse(ORDERS), issues, OPTIONS);
+        assert.deepStrictEqual([ack.accepted, ack.rejected], [0, 1]);
+        assert.deepStrictEqual(segmentsOf(ack.text).slice(4, -2), [
+            'UCM*1*ORDERS:D:96A:UN*4',
+            'UCS*2',
+            'UCD*12*1:1',
+            'UCS*3',
+            'UCD*12*1:2'
+        ]);
+    });
+
+    test('reports unexpected segments and a wrong UNT count', () => {
+        const issues = [
+            issueAt(ORDERS, 'DTM', 'segmentOrder', 'DTM: Out of order'),
+            issueAt(ORDERS, 'UNT+4', 'count', 'UNT-01: Segment count is 4, expected 5')
+        ];
+        const segments = segmentsOf(generateContrlMessage(parse(ORDERS), issues, OPTIONS).text);
+        assert.deepStrictEqual(segments.slice(4, -2), ['UCM*1*ORDERS:D:96A:UN*4*29', 'UCS*3*15']);
+    });
+
+    test('reports interchange errors in UCI', () => {
+        const unbIssue = issueAt(ORDERS, 'UNOA', 'invalidCode', 'UNB-01-01: Invalid code "UNOA"');
+        assert.strictEqual(segmentsOf(generateContrlMessage(parse(ORDERS), [unbIssue], OPTIONS).text)[3], 'UCI*1*S:ZZ*R:ZZ*4*12*UNB*1:1');
+
+        const withoutTrailer = parse(ORDERS.replace("UNZ+1+1'", ''));
+        assert.strictEqual(segmentsOf(generateContrlMessage(withoutTrailer, [], OPTIONS).text)[3], 'UCI*1*S:ZZ*R:ZZ*4*13*UNZ');
+    });
+});
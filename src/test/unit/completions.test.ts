@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { getCodeSuggestions, getSegmentSuggestions } from '../../completions';
+import { loadValidationSchema } from '../../documentValidator';
+import { parse, x12Purchase } from './helpers';
+
+const EXTENSION_PATH = path.resolve(__dirname, '../../..');
+
+const TEXT = x12Purchase(['BEG*00*SA*PO1**20230101', 'N1*ST*Store']);
+
+const suggest = (text: string, offset: number) => {
+    const parsed = parse(text);
+    const schema = loadValidationSchema(EXTENSION_PATH, parsed);
+    return { segments: getSegmentSuggestions(parsed, schema, offset), codes: getCodeSuggestions(parsed, schema, offset) };
+};
+
+suite('completions', () => {
+    test('suggests the segments the transaction structure allows next', () => {
+        const { ids, ordered } = suggest(TEXT, TEXT.indexOf('SE*')).segments;
+        assert.ok(ordered);
+        assert.ok(ids.includes('N1') && ids.includes('PO1'));
+        assert.ok(!ids.includes('BEG') && !ids.includes('ST'));
+        assert.ok(ids.indexOf('N1') < ids.indexOf('PO1'));
+    });
+
+    test('suggests every segment alphabetically outside a transaction set', () => {
+        const { ids, ordered } = suggest(TEXT, TEXT.indexOf('IEA')).segments;
+        assert.ok(!ordered);
+        assert.ok(ids.includes('ISA') && ids.includes('BEG'));
+        assert.deepStrictEqual(ids, [...ids].sort());
+    });
+
+    test('suggests the codes of the element under the cursor', () => {
+        const offset = TEXT.indexOf('*SA*') + 2;
+        const codes = suggest(TEXT, offset).codes!;
+        assert.ok(codes.codes.some(c => c.code === 'SA'));
+        assert.deepStrictEqual([codes.start, codes.end], [offset - 1, offset + 1]);
+    });
+
+    test('suggests no codes for uncoded elements or the segment tag', () => {
+        assert.strictEqual(suggest(TEXT, TEXT.indexOf('*PO1*') + 2).codes, null);
+        assert.strictEqual(suggest(TEXT, TEXT.indexOf('BEG') + 1).codes, null);
+    });
+});
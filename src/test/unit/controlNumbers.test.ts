@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { resequenceControlNumbers } from '../../controlNumbers';
+import { validateEnvelopes } from '../../envelopeValidator';
+import { applyEdits, parse, X12_ISA } from './helpers';
+
+// Two functional groups, the second with two transaction sets
+const TEXT = [
+    X12_ISA.slice(0, -1),
+    'GS*PO*S*R*20230101*1200*1*X*004010',
+    'ST*850*0001', 'BEG*00*SA*PO-1**20230101', 'SE*3*0001',
+    'GE*1*1',
+    'GS*IN*S*R*20230101*1200*2*X*004010',
+    'ST*810*0001', 'BIG*20230101*INV-1', 'SE*3*0001',
+    'ST*810*0002', 'BIG*20230101*INV-2', 'SE*3*0002',
+    'GE*2*2',
+    'IEA*2*000000001'
+].join('~\n') + '~\n';
+
+const controls = (text: string) => parse(text).segments
+    .filter(s => ['ISA', 'GS', 'ST', 'SE', 'GE', 'IEA'].includes(s.id))
+    .map(s => `${s.id} ${s.elements[{ ISA: 12, GS: 5, ST: 1, SE: 1, GE: 1, IEA: 1 }[s.id]!].value}`);
+
+suite('controlNumbers', () => {
+    test('numbers groups and transaction sets on across the interchange', () => {
+        const result = resequenceControlNumbers(parse(TEXT), { interchange: 17, group: 40, transaction: 7 });
+        const output = applyEdits(TEXT, result.edits);
+        assert.deepStrictEqual(controls(output), [
+            'ISA 000000017',
+            'GS 40', 'ST 0007', 'SE 0007', 'GE 40',
+            'GS 41', 'ST 0008', 'SE 0008', 'ST 0009', 'SE 0009', 'GE 41',
+            'IEA 000000017'
+        ]);
+        assert.deepStrictEqual(result.next, { interchange: 18, group: 42, transaction: 10 });
+        assert.deepStrictEqual(validateEnvelopes(parse(output)), []);
+    });
+
+    test('wraps back to 1 after 999999999', () => {
+        const result = resequenceControlNumbers(parse(TEXT), { interchange: 999999999, group: 999999999, transaction: 1000000000 });
+        assert.deepStrictEqual(controls(applyEdits(TEXT, result.edits)).filter(c => /^(ISA|GS|ST)/.test(c)), [
+            'ISA 999999999', 'GS 999999999', 'ST 0001', 'GS 1', 'ST 0002', 'ST 0003'
+        ]);
+        assert.deepStrictEqual(result.next, { interchange: 1, group: 2, transaction: 4 });
+    });
+
+    test('renumbers EDIFACT references', () => {
+        const text = "UNB+UNOA:2+S+R+230101:1200+5'UNH+9+ORDERS:D:96A:UN'BGM+220+PO1'UNT+3+9'UNZ+1+5'";
+        const output = applyEdits(text, resequenceControlNumbers(parse(text), { interchange: 100, group: 1, transaction: 1 }).edits);
+        assert.strictEqual(output, "UNB+UNOA:2+S+R+230101:1200+100'UNH+1+ORDERS:D:96A:UN'BGM+220+PO1'UNT+3+1'UNZ+1+100'");
+    });
+});
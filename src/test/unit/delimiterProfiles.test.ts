@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { applyDelimiterProfile, BUILTIN_PROFILES, checkDelimiters, compactDocument, normalizeDelimiterProfiles, resolveDelimiters } from '../../delimiterProfiles';
+import { ParsedEdi } from '../../parser';
+import { parse, x12Purchase } from './helpers';
+
+const values = (parsed: ParsedEdi) => parsed.segments
+    .filter(s => s.id !== 'ISA' && s.id !== 'UNA')
+    .map(s => [s.id, ...s.elements.map(e => e.repetitions.map(r => r.components.map(c => c.value)))]);
+
+const profile = (name: string) => BUILTIN_PROFILES.find(p => p.name.startsWith(name))!;
+
+suite('delimiterProfiles', () => {
+    test('rewrites X12 with new delimiters and keeps every value', () => {
+        const text = x12Purchase(['BEG*00*SA*PO1**20230101', 'MEA*PD*WT*10*LB>1']);
+        const parsed = parse(text);
+        const output = applyDelimiterProfile(parsed, profile('Pipe-delimited'));
+        const rewritten = parse(output);
+
+        assert.ok(output.startsWith('ISA|00|'));
+        assert.ok(output.includes('\nMEA|PD|WT|10|LB^1\n'));
+        assert.strictEqual(rewritten.delimiters.component, '^');
+        assert.deepStrictEqual(values(rewritten), values(parsed));
+    });
+
+    test('writes UNA for non-default EDIFACT delimiters and escapes values', () => {
+        const text = "UNB+UNOA:2+S+R+230101:1200+1'UNH+1+ORDERS:D:96A:UN'FTX+AAI+++A|B'UNT+3+1'UNZ+1+1'";
+        const parsed = parse(text);
+        const output = applyDelimiterProfile(parsed, { name: 'Pipes', element: '|', component: ':', release: '?', segment: "'", lineEnding: 'none' });
+
+        assert.ok(output.startsWith("UNA:|.? 'UNB|UNOA:2|"));
+        assert.ok(output.includes("FTX|AAI|||A?|B'"));
+        assert.deepStrictEqual(values(parse(output)), values(parsed));
+    });
+
+    test('rejects X12 values that contain a target delimiter', () => {
+        const parsed = parse(x12Purchase(['BEG*00*SA*PO|1**20230101']));
+        assert.throws(() => applyDelimiterProfile(parsed, profile('Pipe-delimited')), /contains the delimiter "\|"/);
+    });
+
+    test('keeps omitted delimiters and checks the result', () => {
+        const parsed = parse(x12Purchase(['BEG*00*SA*PO1**20230101']));
+        const kept = resolveDelimiters(parsed, { name: 'CRLF', lineEnding: 'crlf' });
+        assert.deepStrictEqual([kept.element, kept.component, kept.segment], ['*', '>', '~']);
+        assert.strictEqual(checkDelimiters({ element: '*', component: '*', segment: '~' }), 'Delimiter "*" is used twice');
+        assert.strictEqual(checkDelimiters({ element: 'A', component: ':', segment: '~' }), 'Delimiter "A" must not be a letter, digit or space');
+    });
+
+    test('compacts and re-breaks line layouts', () => {
+        const text = x12Purchase(['BEG*00*SA*PO1**20230101']);
+        const parsed = parse(text);
+        assert.strictEqual(compactDocument(parsed, text), text.replace(/\n/g, ''));
+        assert.strictEqual(applyDelimiterProfile(parsed, profile('Keep delimiters, CRLF')), text.replace(/\n/g, '\r\n'));
+    });
+
+    test('keeps only named profiles from the settings', () => {
+        assert.deepStrictEqual(normalizeDelimiterProfiles([{ name: 'A', element: '|' }, { element: '|' }, null, 'x', { name: ' ' }]), [
+            { name: 'A', element: '|' }
+        ]);
+        assert.deepStrictEqual(normalizeDelimiterProfiles(undefined), []);
+    });
+});
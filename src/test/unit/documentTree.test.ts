@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { buildDocumentTree, EdiNode } from '../../documentTree';
+import { loadValidationSchema } from '../../documentValidator';
+import { parse, x12Purchase } from './helpers';
+
+const EXTENSION_PATH = path.resolve(__dirname, '../../..');
+
+const ORDERS = [
+    "UNA:+.? '",
+    "UNB+UNOA:2+SENDER+RECEIVER+230101:1200+1'",
+    "UNH+1+ORDERS:D:96A:UN'",
+    "BGM+220+PO1+9'",
+    "DTM+137:20230101:102'",
+    "RFF+CT:4711'",
+    "NAD+BY+5412345000013::9'",
+    "RFF+VA:BE0123456789'",
+    "CTA+PD+:Buyer'",
+    "COM+0123456789:TE'",
+    "NAD+SU+4012345000009::9'",
+    "CUX+2:EUR:9'",
+    "LIN+1++4000862141404:SRS'",
+    "QTY+21:10'",
+    "PRI+AAA:9.99'",
+    "LIN+2++4000862141411:SRS'",
+    "QTY+21:5'",
+    "UNS+S'",
+    "CNT+2:2'",
+    "UNT+17+1'",
+    "UNZ+1+1'"
+].join('\n');
+
+// Containers as { name: children }, segments as their IDs
+const outline = (nodes: EdiNode[]): unknown[] => nodes.map(node => node.kind === 'segment'
+    ? node.id
+    : { [node.kind === 'loop' ? node.id : node.name]: outline(node.children) });
+
+const tree = (text: string) => {
+    const parsed = parse(text);
+    return buildDocumentTree(parsed, loadValidationSchema(EXTENSION_PATH, parsed));
+};
+
+suite('documentTree', () => {
+    test('nests X12 transaction sets by their loops', () => {
+        const nodes = tree(x12Purchase(['BEG*00*SA*PO1**20230101', 'N1*ST*Store', 'PO1*1*1*EA', 'CTT*1']));
+        const transaction = nodes[0].children[1].children[1];
+        assert.strictEqual(transaction.name, 'ST 850 #0001');
+        assert.deepStrictEqual(outline(transaction.children), [
+            'ST', 'BEG', { N1Loop1: ['N1'] }, { PO1Loop1: ['PO1'] }, { CTTLoop1: ['CTT'] }, 'SE'
+        ]);
+    });
+
+    test('nests EDIFACT messages by their segment groups', () => {
+        const message = tree(ORDERS)[1].children[1];
+        assert.strictEqual(message.name, 'UNH ORDERS #1');
+        assert.deepStrictEqual(outline(message.children), [
+            'UNH', 'BGM', 'DTM',
+            { SG1: ['RFF'] },
+            { SG2: ['NAD', { SG3: ['RFF'] }, { SG5: ['CTA', 'COM'] }] },
+            { SG2: ['NAD'] },
+            { SG7: ['CUX'] },
+            { SG25: ['LIN', 'QTY', { SG28: ['PRI'] }] },
+            { SG25: ['LIN', 'QTY'] },
+            'UNS', 'CNT', 'UNT'
+        ]);
+        const group = message.children[4];
+        assert.strictEqual(group.name, 'NAD BY (Buyer)');
+        assert.strictEqual(group.end, message.children[5].start - 1);
+    });
+
+    test('leaves messages without a bundled structure flat', () => {
+        const message = tree(ORDERS.replace('ORDERS:D:96A', 'ORDRSP:D:96A'))[1].children[1];
+        assert.ok(message.children.every(child => child.kind === 'segment'));
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { compareDocuments, DiffOptions } from '../../ediDiff';
+import { parse, x12Purchase } from './helpers';
+
+const OPTIONS: DiffOptions = { ignoreControlNumbers: false, ignoreDateTime: false };
+
+const ORDERS = [
+    "UNB+UNOA:2+S+R+230101:1200+1'",
+    "UNH+1+ORDERS:D:96A:UN'",
+    "BGM+220+PO1'",
+    "DTM+137:20210101:102'",
+    "DTM+2:20210201:102'",
+    "QTY+21:10'",
+    "QTY+12:5'",
+    "UNT+7+1'",
+    "UNZ+1+1'"
+].join('\n');
+
+const compare = (left: string, right: string, options = OPTIONS) =>
+    compareDocuments(parse(left), parse(right), options).map(d => [d.path, d.label, d.kind, d.left, d.right]);
+
+suite('ediDiff', () => {
+    test('reports no differences for identical documents', () => {
+        assert.deepStrictEqual(compare(ORDERS, ORDERS), []);
+    });
+
+    test('pairs repeated EDIFACT segments by the qualifier component', () => {
+        const right = ORDERS.replace('DTM+2:20210201:102', 'DTM+2:20210215:102').replace('QTY+12:5', 'QTY+12:7');
+        assert.deepStrictEqual(compare(ORDERS, right), [
+            ['UNB 1 › UNH ORDERS #1 › DTM 2', 'DTM-01', 'changed', '2:20210201:102', '2:20210215:102'],
+            ['UNB 1 › UNH ORDERS #1 › QTY 12', 'QTY-01', 'changed', '12:5', '12:7']
+        ]);
+    });
+
+    test('reports segments with a new qualifier as removed and added', () => {
+        const right = ORDERS.replace("DTM+2:20210201:102'", "DTM+63:20210201:102'");
+        assert.deepStrictEqual(compare(ORDERS, right).map(d => d[2]), ['removed', 'added']);
+    });
+
+    test('pairs repeated X12 segments by qualifier and skips ignored control numbers', () => {
+        const left = x12Purchase(['BEG*00*SA*PO1**20230101', 'REF*DP*038', 'REF*PO*4711']);
+        const right = x12Purchase(['BEG*00*SA*PO1**20230101', 'REF*PO*4712', 'REF*DP*038'], '0002');
+        assert.deepStrictEqual(compare(left, right, { ignoreControlNumbers: true, ignoreDateTime: false }).map(([, label, , before, after]) => [label, before, after]), [
+            ['REF-02', '4711', '4712']
+        ]);
+    });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadValidationSchema } from '../../documentValidator';
+import { describeValueItem, getComponentItems, getElementItems } from '../../ediExplorerItems';
+import type { EdiSchemaLookup } from '../../hoverProvider';
+import { parse, x12Purchase } from './helpers';
+
+const EXTENSION_PATH = path.resolve(__dirname, '../../..');
+
+// Names for BEG01 only
+const LOOKUP: EdiSchemaLookup = {
+    languagePrefix: 'x12',
+    version: '004010',
+    schemaDir: '',
+    getSegment: code => code === 'BEG'
+        ? { code, name: '', description: '', elements: [{ position: '01', name: 'Purpose', requirement: 'M', type: '353' }] }
+        : null,
+    getElement: () => null,
+    getComposite: () => null
+};
+
+const TEXT = x12Purchase(['BEG*00*SA*PO1**20230101', 'REF*ZZ*A>B']);
+
+// ISA11 "^" repeats elements from 00501
+const REPEATED = TEXT.replace('*U*00401*', '*^*00501*').replace('REF*ZZ*A>B', 'REF*ZZ*A>B^C');
+
+const segment = (id: string, text = TEXT) => parse(text).segments.find(s => s.id === id)!;
+
+suite('ediExplorerItems', () => {
+    test('lists one item per element and per repetition', () => {
+        const items = getElementItems(segment('REF', REPEATED));
+        assert.deepStrictEqual(items.map(i => i.type === 'element' && [i.position, i.repetition, i.token.value]), [
+            [1, 1, 'ZZ'],
+            [2, 1, 'A>B'],
+            [2, 2, 'C']
+        ]);
+        assert.deepStrictEqual(getComponentItems(items[1]).map(i => [describeValueItem(i).label, i.token.value]), [
+            ['REF02-01', 'A'],
+            ['REF02-02', 'B']
+        ]);
+        assert.deepStrictEqual(getComponentItems(items[2]), []);
+        assert.strictEqual(describeValueItem(items[2]).label, 'REF02 [2]');
+    });
+
+    test('keeps ISA elements whole', () => {
+        const items = getElementItems(segment('ISA'));
+        assert.strictEqual(items.length, 16);
+        assert.ok(items.every(i => getComponentItems(i).length === 0));
+    });
+
+    test('names elements and describes code values', () => {
+        const parsed = parse(TEXT);
+        const schema = loadValidationSchema(EXTENSION_PATH, parsed);
+        const [purpose, , , empty] = getElementItems(segment('BEG'));
+
+        const described = describeValueItem(purpose, schema, LOOKUP);
+        assert.strictEqual(described.label, 'BEG01 Purpose');
+        assert.match(described.description, /^00 \(.+\)$/);
+        assert.strictEqual(described.tooltip, 'BEG01: Purpose\nElement 353');
+        assert.strictEqual(describeValueItem(empty, schema, LOOKUP).description, '(empty)');
+    });
+});
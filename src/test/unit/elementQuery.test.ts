@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadValidationSchema } from '../../documentValidator';
+import { findElements, parseElementQuery } from '../../elementQuery';
+import { parse, x12Purchase } from './helpers';
+
+const EXTENSION_PATH = path.resolve(__dirname, '../../..');
+
+const PURCHASE = x12Purchase([
+    'BEG*00*SA*PO1**20230101',
+    'REF*DP*038',
+    'REF*PO*4711',
+    'N1*ST*Acme Store*92*0042',
+    'N3*1 Main St',
+    'N1*BY*Smith and Sons, Ltd where/else',
+    'N1*BT*O\'Brien',
+    'PO1*1*10*EA*9.99*PE*BP*ABC-1',
+    'PID*F****Blue widget',
+    'PO1*2*5*CA*20**UP*012345678905',
+    'N1*ST*Other Store*92*0043',
+    'CTT*2'
+]);
+
+const search = (text: string, query: string) => {
+    const parsed = parse(text);
+    return findElements(parsed, query, loadValidationSchema(EXTENSION_PATH, parsed))
+        .map(m => [m.label, m.value, text.substring(m.start, m.end)]);
+};
+
+suite('elementQuery', () => {
+    test('parses element references in both notations', () => {
+        assert.deepStrictEqual(parseElementQuery('pia-02'), [
+            { target: { segmentId: 'PIA', position: 2, component: null }, conditions: [] }
+        ]);
+        assert.deepStrictEqual(parseElementQuery('N104')[0].target, { segmentId: 'N1', position: 4, component: null });
+        assert.deepStrictEqual(parseElementQuery('N1002')[0].target, { segmentId: 'N10', position: 2, component: null });
+        assert.deepStrictEqual(parseElementQuery('DTM-01-02')[0].target, { segmentId: 'DTM', position: 1, component: 2 });
+    });
+
+    test('rejects malformed queries with a readable message', () => {
+        assert.throws(() => parseElementQuery('N1[N101=ST'), /Invalid path step/);
+        assert.throws(() => parseElementQuery('N104/N3'), /Only the last step of a path can be an element/);
+        assert.throws(() => parseElementQuery('REF02 where N101=ST'), /Segment N1 is not part of the path/);
+        assert.throws(() => parseElementQuery('N1[REF01=PO]/N104'), /Conditions in \[\.\.\.\] must refer to N1 elements/);
+    });
+
+    test('filters with a where clause', () => {
+        assert.deepStrictEqual(search(PURCHASE, 'REF02 where REF01=PO'), [['REF-02', '4711', '4711']]);
+        assert.deepStrictEqual(search(PURCHASE, 'REF02 where REF01 != "PO"'), [['REF-02', '038', '038']]);
+    });
+
+    test('keeps separators inside quoted values', () => {
+        assert.deepStrictEqual(parseElementQuery('N102 where N102="Smith and Sons, Ltd where/else"')[0].conditions, [
+            { element: { segmentId: 'N1', position: 2, component: null }, operator: '=', value: 'Smith and Sons, Ltd where/else' }
+        ]);
+        assert.deepStrictEqual(search(PURCHASE, "N1[N102='Smith and Sons, Ltd where/else']/N101"), [['N1-01', 'BY', 'BY']]);
+        assert.deepStrictEqual(search(PURCHASE, 'N101 where N102="Smith and Sons, Ltd where/else" and N101!=ST'), [['N1-01', 'BY', 'BY']]);
+        assert.deepStrictEqual(search(PURCHASE, "N101 where N102=O'Brien"), [['N1-01', 'BT', 'BT']]);
+    });
+
+    test('finds elements in the loop of a filtered segment', () => {
+        assert.deepStrictEqual(search(PURCHASE, 'N1[N101=ST]/N104'), [
+            ['N1-04', '0042', '0042'],
+            ['N1-04', '0043', '0043']
+        ]);
+        assert.deepStrictEqual(search(PURCHASE, 'PO1[PO101=2]/N1/N102'), [['N1-02', 'Other Store', 'Other Store']]);
+        assert.deepStrictEqual(search(PURCHASE, 'PO1/PID-05'), [['PID-05', 'Blue widget', 'Blue widget']]);
+    });
+
+    test('applies where conditions to earlier steps of the path', () => {
+        assert.deepStrictEqual(search(PURCHASE, 'PO1/N102 where PO101=1'), []);
+        assert.deepStrictEqual(search(PURCHASE, 'PO1/N102 where PO101=2'), [['N1-02', 'Other Store', 'Other Store']]);
+    });
+
+    test('reports the transaction of each match', () => {
+        const parsed = parse(PURCHASE);
+        const [match] = findElements(parsed, 'BEG03');
+        assert.strictEqual(match.transaction?.type, '850');
+        assert.strictEqual(match.transaction?.reference, 'PO1');
+    });
+
+    test('finds components and loop scopes in EDIFACT', () => {
+        const text = "UNA:+.? 'UNB+UNOA:2+S+R+230101:1200+1'UNH+1+ORDERS:D:96A:UN'BGM+220+PO1+9'" +
+            "NAD+BY+5412345000013::9'LIN+1++4000862141404:SRS'PIA+1+ABC:SA'QTY+21:48'LIN+2++4000862141411:SRS'QTY+21:12'" +
+            "UNT+9+1'UNZ+1+1'";
+        assert.deepStrictEqual(search(text, 'NAD[NAD01=BY]/NAD02-01'), [['NAD-02-01', '5412345000013', '5412345000013']]);
+        assert.deepStrictEqual(search(text, 'LIN[LIN01=2]/QTY-01-02'), [['QTY-01-02', '12', '12']]);
+        assert.deepStrictEqual(search(text, 'LIN/PIA-02-01'), [['PIA-02-01', 'ABC', 'ABC']]);
+    });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { validateEnvelopes } from '../../envelopeValidator';
+import { parse, x12Purchase } from './helpers';
+
+suite('envelopeValidator', () => {
+    test('accepts consistent X12 envelopes', () => {
+        assert.deepStrictEqual(validateEnvelopes(parse(x12Purchase(['BEG*00*SA*PO1**20230101']))), []);
+    });
+
+    test('reports a wrong segment count', () => {
+        const text = x12Purchase(['BEG*00*SA*PO1**20230101']).replace('SE*3*0001', 'SE*5*0001');
+        const issues = validateEnvelopes(parse(text));
+        assert.deepStrictEqual(issues.map(i => i.code), ['count']);
+        assert.match(issues[0].message, /^SE-01: Segment count "5" does not match actual count 3/);
+        assert.strictEqual(text.substring(issues[0].start, issues[0].end), '5');
+    });
+
+    test('reports mismatched control numbers', () => {
+        const text = x12Purchase(['BEG*00*SA*PO1**20230101']).replace('SE*3*0001', 'SE*3*0002');
+        const issues = validateEnvelopes(parse(text));
+        assert.deepStrictEqual(issues.map(i => i.code), ['controlNumber']);
+        assert.match(issues[0].message, /SE-02: Control number "0002" does not match ST-02 "0001"/);
+    });
+
+    test('reports missing trailers and headers', () => {
+        const missingSe = x12Purchase(['BEG*00*SA*PO1**20230101']).replace('SE*3*0001~\n', '');
+        assert.ok(validateEnvelopes(parse(missingSe)).some(i => /Transaction set 0001 is not closed \(missing SE\)/.test(i.message)));
+
+        const strayGe = x12Purchase(['BEG*00*SA*PO1**20230101']).replace('GS*PO*SENDER*RECEIVER*20230101*1200*1*X*004010~\n', '');
+        assert.ok(validateEnvelopes(parse(strayGe)).some(i => i.code === 'missingHeader'));
+    });
+
+    test('counts EDIFACT messages and segments', () => {
+        const text = "UNA:+.? 'UNB+UNOA:2+S+R+230101:1200+1'UNH+1+ORDERS:D:96A:UN'BGM+220+PO1+9'UNT+3+1'UNZ+1+1'";
+        assert.deepStrictEqual(validateEnvelopes(parse(text)), []);
+
+        const wrong = validateEnvelopes(parse(text.replace("UNZ+1+1'", "UNZ+2+7'")));
+        assert.deepStrictEqual(wrong.map(i => i.message.split(':')[0]).sort(), ['UNZ-01', 'UNZ-02']);
+    });
+});
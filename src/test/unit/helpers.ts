@@ -0,0 +1,34 @@
+import { parseEdi, ParsedEdi } from '../../parser';
+
+export const X12_ISA = 'ISA*00*          *00*          *ZZ*SENDER         *ZZ*RECEIVER       *230101*1200*U*00401*000000001*0*T*>~';
+
+/**
+ * A one-interchange X12 850 with the given transaction body (BEG through CTT)
+ */
+export function x12Purchase(body: string[], controlNumber = '0001'): string {
+    const segments = [`ST*850*${controlNumber}`, ...body, `SE*${body.length + 2}*${controlNumber}`];
+    return [
+        X12_ISA.slice(0, -1),
+        'GS*PO*SENDER*RECEIVER*20230101*1200*1*X*004010',
+        ...segments,
+        'GE*1*1',
+        'IEA*1*000000001'
+    ].join('~\n') + '~\n';
+}
+
+export function parse(text: string): ParsedEdi {
+    const parsed = parseEdi(text);
+    if (!parsed) {
+        throw new Error('Test fixture is not EDI');
+    }
+    return parsed;
+}
+
+/**
+ * Apply offset edits ({ start, end, value }) to a text
+ */
+export function applyEdits(text: string, edits: Array<{ start: number; end: number; value: string }>): string {
+    return [...edits]
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, edit) => result.substring(0, edit.start) + edit.value + result.substring(edit.end), text);
+}
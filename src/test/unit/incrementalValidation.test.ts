@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadValidationSchema } from '../../documentValidator';
+import { validateIncrementally } from '../../incrementalValidation';
+import { parse, x12Purchase } from './helpers';
+
+const EXTENSION_PATH = path.resolve(__dirname, '../../..');
+
+// Two transaction sets; the first has an invalid date
+const TEXT = x12Purchase(['BEG*00*SA*PO1**20231340'])
+    .replace('GE*1*1', 'ST*850*0002~\nBEG*00*SA*PO2**20230101~\nSE*3*0002~\nGE*2*1');
+
+const run = (text: string, previous?: ReturnType<typeof validateIncrementally>['cache']) => {
+    const parsed = parse(text);
+    return validateIncrementally(parsed, text, loadValidationSchema(EXTENSION_PATH, parsed), previous);
+};
+
+const located = (text: string, result: ReturnType<typeof validateIncrementally>) =>
+    result.issues.map(i => [text.substring(i.start, i.end), i.message]);
+
+suite('incrementalValidation', () => {
+    test('validates every block on the first run', () => {
+        const result = run(TEXT);
+        assert.strictEqual(result.validatedBlocks, 2);
+        assert.strictEqual(result.cache.blocks.size, 2);
+        assert.ok(located(TEXT, result).some(([value]) => value === '20231340'));
+    });
+
+    test('reuses every block of an unchanged document', () => {
+        const first = run(TEXT);
+        const second = run(TEXT, first.cache);
+        assert.strictEqual(second.validatedBlocks, 0);
+        assert.deepStrictEqual(second.issues, first.issues);
+    });
+
+    test('re-checks only the edited block', () => {
+        const first = run(TEXT);
+        const edited = TEXT.replace('PO2**20230101', 'PO2**20230199');
+        const second = run(edited, first.cache);
+        assert.strictEqual(second.validatedBlocks, 1);
+        const values = located(edited, second).map(([value]) => value);
+        assert.ok(values.includes('20231340') && values.includes('20230199'));
+        // Blocks that are gone are not kept
+        assert.strictEqual(second.cache.blocks.size, 2);
+    });
+
+    test('moves cached issues with their block', () => {
+        const first = run(TEXT);
+        const shifted = TEXT.replace('GS*PO*SENDER*', 'GS*PO*LONGER-SENDER-ID*');
+        const second = run(shifted, first.cache);
+        assert.strictEqual(second.validatedBlocks, 0);
+        assert.ok(located(shifted, second).some(([value]) => value === '20231340'));
+    });
+
+    test('drops the cache when the delimiters change', () => {
+        const first = run(TEXT);
+        const piped = TEXT.replace(/\*/g, '|');
+        assert.strictEqual(run(piped, first.cache).validatedBlocks, 2);
+    });
+});
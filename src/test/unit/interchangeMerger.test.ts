@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { checkMergeSources, mergeInterchanges, MergeSource } from '../../interchangeMerger';
+import { parse, x12Purchase } from './helpers';
+
+const source = (name: string, text: string): MergeSource => ({ name, parsed: parse(text), text });
+
+const elements = (text: string, id: string) => parse(text).segments
+    .filter(s => s.id === id)
+    .map(s => s.elements.map(e => e.value));
+
+suite('interchangeMerger', () => {
+    test('renumbers transaction sets that share a control number', () => {
+        const merged = mergeInterchanges([
+            source('a.edi', x12Purchase(['BEG*00*SA*PO1**20230101'])),
+            source('b.edi', x12Purchase(['BEG*00*SA*PO2**20230102', 'CTT*0']))
+        ], false);
+
+        assert.deepStrictEqual(elements(merged, 'ST'), [['850', '0001'], ['850', '0002']]);
+        assert.deepStrictEqual(elements(merged, 'SE'), [['3', '0001'], ['4', '0002']]);
+        assert.deepStrictEqual(elements(merged, 'GE'), [['2', '1']]);
+        assert.deepStrictEqual(elements(merged, 'IEA'), [['1', '000000001']]);
+        assert.ok(merged.includes('BEG*00*SA*PO2**20230102~\n'));
+    });
+
+    test('numbers transaction sets from 1 in each separate GS group', () => {
+        const invoice = x12Purchase(['BIG*20230101*INV1'], '0007')
+            .replace('GS*PO', 'GS*IN').replace('ST*850', 'ST*810');
+        const merged = mergeInterchanges([
+            source('a.edi', x12Purchase(['BEG*00*SA*PO1**20230101'], '0005')),
+            source('b.edi', invoice),
+            source('c.edi', x12Purchase(['BEG*00*SA*PO2**20230101'], '0005'))
+        ], true);
+
+        assert.deepStrictEqual(elements(merged, 'GS').map(e => [e[0], e[5]]), [['PO', '1'], ['IN', '2']]);
+        assert.deepStrictEqual(elements(merged, 'ST'), [['850', '0001'], ['850', '0002'], ['810', '0001']]);
+        assert.deepStrictEqual(elements(merged, 'SE').map(e => e[1]), ['0001', '0002', '0001']);
+    });
+
+    test('renumbers EDIFACT message references', () => {
+        const message = "UNB+UNOA:2+S+R+230101:1200+1'UNH+1+ORDERS:D:96A:UN'BGM+220+PO1'UNT+3+1'UNZ+1+1'";
+        const merged = mergeInterchanges([source('a.edi', message), source('b.edi', message)], false);
+
+        assert.deepStrictEqual(elements(merged, 'UNH').map(e => e[0]), ['1', '2']);
+        assert.deepStrictEqual(elements(merged, 'UNT'), [['3', '1'], ['3', '2']]);
+        assert.deepStrictEqual(elements(merged, 'UNZ'), [['2', '1']]);
+    });
+
+    test('reports envelope conflicts and mixed standards', () => {
+        const other = x12Purchase(['BEG*00*SA*PO1**20230101']).replace('RECEIVER       ', 'OTHER          ');
+        const check = checkMergeSources([
+            source('a.edi', x12Purchase(['BEG*00*SA*PO1**20230101'])),
+            source('b.edi', other),
+            source('c.edi', "UNB+UNOA:2+S+R+230101:1200+1'UNH+1+ORDERS:D:96A:UN'UNT+2+1'UNZ+1+1'")
+        ]);
+
+        assert.deepStrictEqual(check.conflicts, [
+            'b.edi: Receiver ZZ*OTHER differs from ZZ*RECEIVER (a.edi)',
+            'c.edi: EDIFACT cannot be merged with X12'
+        ]);
+        assert.deepStrictEqual(check.functionalIds, ['PO']);
+    });
+});
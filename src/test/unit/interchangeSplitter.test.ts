@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { extractTransaction, listTransactions } from '../../interchangeSplitter';
+import { validateEnvelopes } from '../../envelopeValidator';
+import { parse, X12_ISA } from './helpers';
+
+const TEXT = [
+    X12_ISA.slice(0, -1),
+    'GS*PO*S*R*20230101*1200*1*X*004010',
+    'ST*850*0001', 'BEG*00*SA*PO-1**20230101', 'SE*3*0001',
+    'ST*850*0002', 'BEG*00*SA*PO-2**20230101', 'SE*3*0002',
+    'GE*2*1',
+    'IEA*1*000000001'
+].join('~\n') + '~\n';
+
+suite('interchangeSplitter', () => {
+    test('lists transactions with their key reference and envelopes', () => {
+        const entries = listTransactions(parse(TEXT));
+        assert.deepStrictEqual(entries.map(e => [e.type, e.controlNumber, e.referenceLabel, e.reference]), [
+            ['850', '0001', 'BEG-03', 'PO-1'],
+            ['850', '0002', 'BEG-03', 'PO-2']
+        ]);
+        assert.strictEqual(entries[1].group?.id, 'GS');
+        assert.strictEqual(entries[1].interchange?.id, 'ISA');
+        assert.deepStrictEqual(entries[1].segments.map(s => s.id), ['ST', 'BEG', 'SE']);
+    });
+
+    test('extracts one transaction as a complete interchange', () => {
+        const parsed = parse(TEXT);
+        const output = extractTransaction(parsed, TEXT, listTransactions(parsed)[1]);
+        assert.strictEqual(output, [
+            X12_ISA.slice(0, -1),
+            'GS*PO*S*R*20230101*1200*1*X*004010',
+            'ST*850*0002', 'BEG*00*SA*PO-2**20230101', 'SE*3*0002',
+            'GE*1*1',
+            'IEA*1*000000001'
+        ].join('~\n') + '~\n');
+        assert.deepStrictEqual(validateEnvelopes(parse(output)), []);
+    });
+
+    test('writes new envelope control numbers when given', () => {
+        const parsed = parse(TEXT);
+        const output = extractTransaction(parsed, TEXT, listTransactions(parsed)[0], { interchange: '7', group: '8' });
+        const segments = parse(output).segments;
+        assert.strictEqual(segments[0].elements[12].value, '000000007');
+        assert.strictEqual(segments[1].elements[5].value, '8');
+        assert.deepStrictEqual(validateEnvelopes(parse(output)), []);
+    });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { ISA_LENGTH, repairIsa, validateIsaSegment } from '../../isaRepair';
+import { applyEdits, parse, X12_ISA } from './helpers';
+
+const BODY = 'GS*PO*S*R*20230101*1200*1*X*004010~GE*0*1~IEA*1*000000001~';
+
+suite('isaRepair', () => {
+    test('accepts a well-formed ISA', () => {
+        const parsed = parse(X12_ISA + BODY);
+        assert.strictEqual(X12_ISA.length, ISA_LENGTH);  // Including the terminator
+        assert.deepStrictEqual(validateIsaSegment(parsed.segments[0], parsed.delimiters), []);
+    });
+
+    test('reports unpadded and misformatted fields with the expected values', () => {
+        const text = 'ISA*00*          *00*          *ZZ*SENDER*ZZ*RECEIVER       *20230101*12:00*U*00401*1*0*t*>~' + BODY;
+        const parsed = parse(text);
+        const issues = validateIsaSegment(parsed.segments[0], parsed.delimiters);
+        const expected = issues.filter(i => i.expected !== undefined).map(i => [i.message.split(':')[0], i.expected]);
+        assert.deepStrictEqual(expected, [
+            ['ISA-06', 'SENDER         '],
+            ['ISA-09', '230101'],
+            ['ISA-10', '1200'],
+            ['ISA-13', '000000001'],
+            ['ISA-15', 'T']
+        ]);
+        assert.ok(issues.some(i => i.code === 'isaLength'));
+    });
+
+    test('repairs the ISA to 106 characters and keeps IEA02 in step', () => {
+        const text = 'ISA*00*          *00*          *ZZ*SENDER*ZZ*RECEIVER       *230101*1200*U*00401*7*0*T*>~' +
+            'GS*PO*S*R*20230101*1200*1*X*004010~GE*0*1~IEA*1*7~';
+        const repair = repairIsa(parse(text));
+        assert.deepStrictEqual(repair.unresolved, []);
+
+        const repaired = applyEdits(text, repair.edits);
+        const parsed = parse(repaired);
+        const isa = parsed.segments[0];
+        assert.strictEqual(isa.end - isa.start + 1, ISA_LENGTH);
+        assert.deepStrictEqual(validateIsaSegment(isa, parsed.delimiters), []);
+        assert.ok(repaired.endsWith('IEA*1*000000007~'));
+    });
+
+    test('leaves a component separator that clashes with a delimiter unresolved', () => {
+        const text = X12_ISA.replace('*>~', '***~') + BODY;
+        const parsed = parse(text);
+        const repair = repairIsa(parsed);
+        assert.deepStrictEqual(repair.edits, []);
+        assert.ok(repair.unresolved.length > 0);
+    });
+});
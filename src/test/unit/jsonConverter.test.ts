@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadValidationSchema } from '../../documentValidator';
+import { EdiJsonNode, EdiJsonSegment, ediToJson, jsonToEdi } from '../../jsonConverter';
+import { parse, x12Purchase } from './helpers';
+
+const EXTENSION_PATH = path.resolve(__dirname, '../../..');
+
+const PURCHASE = x12Purchase(['BEG*00*SA*PO1**20230101', 'REF*DP*', 'PO1*1*10*EA*9.99**BP*ABC-1', 'CTT*1']);
+
+const toJson = (text: string) => {
+    const parsed = parse(text);
+    return ediToJson(parsed, text, loadValidationSchema(EXTENSION_PATH, parsed));
+};
+
+// The JSON is written to and read from files, so round-trip through its text
+const roundTrip = (text: string) => jsonToEdi(JSON.parse(JSON.stringify(toJson(text))));
+
+suite('jsonConverter', () => {
+    test('round-trips X12 with LF line breaks and a trailing newline', () => {
+        assert.strictEqual(roundTrip(PURCHASE), PURCHASE);
+    });
+
+    test('round-trips X12 without a trailing newline', () => {
+        const text = PURCHASE.replace(/\n$/, '');
+        assert.strictEqual(roundTrip(text), text);
+    });
+
+    test('round-trips compact X12', () => {
+        const text = PURCHASE.replace(/\n/g, '');
+        assert.strictEqual(roundTrip(text), text);
+    });
+
+    test('round-trips CRLF line breaks and mixed layouts', () => {
+        const crlf = PURCHASE.replace(/\n/g, '\r\n');
+        assert.strictEqual(roundTrip(crlf), crlf);
+        const mixed = '\n' + PURCHASE.replace('~\nBEG', '~BEG').replace('~\nCTT', '~\r\n\r\nCTT') + '\n\n';
+        assert.strictEqual(roundTrip(mixed), mixed);
+    });
+
+    test('round-trips newline-terminated X12 with CRLF', () => {
+        const text = PURCHASE.replace(/~\n/g, '\r\n');
+        assert.strictEqual(roundTrip(text), text);
+        assert.strictEqual(roundTrip(text.replace(/\r\n$/, '')), text.replace(/\r\n$/, ''));
+    });
+
+    test('round-trips EDIFACT with UNA and release characters', () => {
+        const text = "UNA:+.? '\nUNB+UNOA:2+S+R+230101:1200+1'\nUNH+1+ORDERS:D:96A:UN'\nFTX+AAI+++It?'s 5?+5'\nUNT+3+1'\nUNZ+1+1'\n";
+        assert.strictEqual(roundTrip(text), text);
+    });
+
+    test('names elements from the schema and keeps empty ones', () => {
+        const json = toJson(PURCHASE);
+        const segments: EdiJsonSegment[] = [];
+        const collect = (nodes: EdiJsonNode[]) => nodes.forEach(n => 'segment' in n ? segments.push(n) : collect(n.children));
+        collect(json.content);
+        const elements = segments.find(s => s.segment === 'REF')!.elements!;
+        assert.deepStrictEqual(Object.keys(elements), ['REF01', 'REF02']);
+        assert.strictEqual(elements.REF02.value, '');
+        assert.ok(elements.REF01.name);
+        assert.strictEqual(json.segmentSeparator, '\n');
+        assert.strictEqual(segments[segments.length - 1].separator, undefined);
+    });
+
+    test('rewrites the document with other delimiters', () => {
+        const text = jsonToEdi(toJson(PURCHASE), { element: '|', component: ':', segment: '\n' });
+        assert.ok(text.startsWith('ISA|00|'));
+        assert.ok(text.includes('\nGS|PO|SENDER|RECEIVER|'));
+        assert.ok(!text.includes('\n\n'));
+        assert.strictEqual(text.split('\n')[0].slice(-2), '|:');
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { detectDelimiters, detectStandard, escapeValue, findSegmentAt, getTransactions, parseEdi } from '../../parser';
+
+const ISA = 'ISA*00*          *00*          *ZZ*SENDER         *ZZ*RECEIVER       *230101*1200*U*00401*000000001*0*T*>~';
+const ISA_00501 = 'ISA*00*          *00*          *ZZ*SENDER         *ZZ*RECEIVER       *230101*1200*^*00501*000000001*0*T*>~';
+
+suite('parser', () => {
+    test('detects the standard from the first segment', () => {
+        assert.strictEqual(detectStandard(ISA), 'x12');
+        assert.strictEqual(detectStandard('\n  ST*850*0001~'), 'x12');
+        assert.strictEqual(detectStandard("UNA:+.? 'UNB+UNOA:2'"), 'edifact');
+        assert.strictEqual(detectStandard("UNH+1+ORDERS:D:96A:UN'"), 'edifact');
+        assert.strictEqual(detectStandard('hello'), null);
+    });
+
+    test('reads X12 delimiters from the ISA segment', () => {
+        assert.deepStrictEqual(detectDelimiters(ISA + 'GS*PO~', 'x12'), {
+            element: '*', component: '>', segment: '~', repetition: undefined
+        });
+        assert.strictEqual(detectDelimiters(ISA_00501, 'x12').repetition, '^');
+    });
+
+    test('walks the ISA delimiters when the fixed fields are not padded', () => {
+        const short = 'ISA|00||00||ZZ|SENDER|ZZ|RECEIVER|230101|1200|U|00401|1|0|T|:\nGS|PO\n';
+        assert.deepStrictEqual(detectDelimiters(short, 'x12'), {
+            element: '|', component: ':', segment: '\n', repetition: undefined
+        });
+    });
+
+    test('treats CRLF after the ISA as a newline terminator', () => {
+        assert.strictEqual(detectDelimiters(ISA.replace(/~$/, '\r\n'), 'x12').segment, '\n');
+    });
+
+    test('reads EDIFACT delimiters from UNA', () => {
+        const delimiters = detectDelimiters("UNA|*.# !UNB*UNOA|2!", 'edifact');
+        assert.deepStrictEqual(delimiters, {
+            component: '|', element: '*', decimal: '.', release: '#', repetition: undefined, segment: '!'
+        });
+    });
+
+    test('infers EDIFACT delimiters from UNB without UNA', () => {
+        const delimiters = detectDelimiters("UNB+UNOA;2+S+R+230101:1200+1|UNH+1+ORDERS;D;96A;UN|", 'edifact');
+        assert.strictEqual(delimiters.element, '+');
+        assert.strictEqual(delimiters.component, ';');
+        assert.strictEqual(delimiters.segment, '|');
+    });
+
+    test('parses segments with exact offsets', () => {
+        const text = ISA + '\nGS*PO*S*R*20230101*1200*1*X*004010~\n';
+        const parsed = parseEdi(text)!;
+        assert.deepStrictEqual(parsed.segments.map(s => s.id), ['ISA', 'GS']);
+        const gs = parsed.segments[1];
+        assert.strictEqual(text.substring(gs.start, gs.end), 'GS*PO*S*R*20230101*1200*1*X*004010');
+        assert.strictEqual(text.substring(gs.elements[1].start, gs.elements[1].end), 'S');
+        assert.strictEqual(findSegmentAt(parsed, gs.start + 3), gs);
+    });
+
+    test('splits repetitions and components', () => {
+        const text = ISA_00501 + 'PO1*1*1*EA*1**BP*X^Y~MEA*PD*WT*10*LB>1~';
+        const parsed = parseEdi(text)!;
+        const po1 = parsed.segments[1];
+        assert.deepStrictEqual(po1.elements[6].repetitions.map(r => r.value), ['X', 'Y']);
+        const mea = parsed.segments[2];
+        assert.deepStrictEqual(mea.elements[3].components.map(c => c.value), ['LB', '1']);
+    });
+
+    test('removes EDIFACT release characters from values', () => {
+        const parsed = parseEdi("UNA:+.? 'UNB+UNOA:2+S+R+230101:1200+1'FTX+AAI+++It?'s 5?+5'")!;
+        const ftx = parsed.segments.find(s => s.id === 'FTX')!;
+        assert.strictEqual(ftx.elements[3].value, "It's 5+5");
+        assert.strictEqual(escapeValue("It's 5+5", parsed.delimiters), "It?'s 5?+5");
+    });
+
+    test('groups segments into transactions', () => {
+        const text = ISA + 'GS*PO*S*R*20230101*1200*1*X*004010~ST*850*0001~BEG*00~SE*3*0001~ST*850*0002~SE*2*0002~GE*2*1~IEA*1*000000001~';
+        const transactions = getTransactions(parseEdi(text)!);
+        assert.deepStrictEqual(transactions.map(t => [t.type, t.segments.length]), [['850', 3], ['850', 2]]);
+    });
+});
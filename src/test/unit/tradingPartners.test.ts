@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { buildProfileEdits, buildSwapEdits, checkProfileVersion, normalizeProfiles } from '../../tradingPartners';
+import { applyEdits, parse, x12Purchase } from './helpers';
+
+const X12 = x12Purchase(['BEG*00*SA*PO1**20230101']);
+const EDIFACT = "UNA:+.? 'UNB+UNOA:2+SENDER:ZZ+RECEIVER:ZZ:ROUTE+230101:1200+1'UNH+1+ORDERS:D:96A:UN'BGM+220+PO1'UNT+3+1'UNZ+1+1'";
+
+const segmentText = (text: string, id: string) => text.split(/[~']\n?/).find(s => s.startsWith(id));
+
+suite('tradingPartners', () => {
+    test('keeps named profiles and reads numbers as text', () => {
+        const profiles = normalizeProfiles({
+            profiles: [
+                { name: 'Acme', isaQualifier: 1, isaId: 123456789, gsId: 'ACME', version: { id: '00401' } },
+                { name: ' ' },
+                { isaId: 'NONAME' },
+                'Acme'
+            ]
+        });
+        assert.deepStrictEqual(profiles, [{ name: 'Acme', isaQualifier: '1', isaId: '123456789', gsId: 'ACME' }]);
+        assert.deepStrictEqual(normalizeProfiles(null), []);
+    });
+
+    test('sets the X12 sender and receiver with padded ISA fields', () => {
+        const output = applyEdits(X12, buildProfileEdits(parse(X12),
+            { name: 'Us', isaQualifier: '1', isaId: '123456789', gsId: 'US' },
+            { name: 'Them', isaQualifier: 'ZZ', isaId: 'A-VERY-LONG-PARTNER-ID', gsId: 'THEM', usageIndicator: 'P' }));
+        assert.ok(segmentText(output, 'ISA')!.includes('*1 *123456789      *ZZ*A-VERY-LONG-PAR*'));
+        assert.ok(segmentText(output, 'ISA')!.includes('*0*P*>'));
+        assert.ok(segmentText(output, 'GS')!.startsWith('GS*PO*US*THEM*'));
+    });
+
+    test('sets the UNB identification and keeps the routing address', () => {
+        const output = applyEdits(EDIFACT, buildProfileEdits(parse(EDIFACT), { name: 'Us', unbId: 'US?+1' }, { name: 'Them', unbId: 'THEM', unbQualifier: '14' }));
+        assert.ok(output.includes('UNB+UNOA:2+US???+1+THEM:14:ROUTE+230101'));
+    });
+
+    test('swaps sender and receiver', () => {
+        const output = applyEdits(X12, buildSwapEdits(parse(X12), X12));
+        assert.ok(segmentText(output, 'ISA')!.includes('*ZZ*RECEIVER       *ZZ*SENDER         *'));
+        assert.ok(segmentText(output, 'GS')!.startsWith('GS*PO*RECEIVER*SENDER*'));
+
+        const swapped = applyEdits(EDIFACT, buildSwapEdits(parse(EDIFACT), EDIFACT));
+        assert.ok(swapped.includes('UNB+UNOA:2+RECEIVER:ZZ:ROUTE+SENDER:ZZ+'));
+    });
+
+    test('reports a version the partner does not expect', () => {
+        assert.strictEqual(checkProfileVersion(parse(X12), { name: 'Acme', version: '00401' }), null);
+        assert.strictEqual(checkProfileVersion(parse(X12), { name: 'Acme' }), null);
+        assert.match(checkProfileVersion(parse(X12), { name: 'Acme', version: '00501' })!, /Acme expects version 00501/);
+        assert.strictEqual(checkProfileVersion(parse(EDIFACT), { name: 'Acme', version: 'D96A' }), null);
+        assert.ok(checkProfileVersion(parse(EDIFACT), { name: 'Acme', version: 'D01B' }));
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { listTransactions } from '../../interchangeSplitter';
+import { isLoopInstance, LoopInstance, matchTransactionStructure, TransactionStructure } from '../../transactionStructure';
+import { parse, x12Purchase } from './helpers';
+
+const STRUCTURE: TransactionStructure = {
+    Release: '004010',
+    DocumentType: '850',
+    TransactionSet: [
+        { Id: 'ST' },
+        { Id: 'BEG' },
+        { Id: 'REF', Min: 0, Max: 'unbounded' },
+        { Id: 'N1Loop1', Min: 0, Max: 2, Loop: [{ Id: 'N1' }, { Id: 'N3', Min: 0, Max: 2 }] },
+        { Id: 'PO1Loop1', Max: 'unbounded', Loop: [{ Id: 'PO1' }, { Id: 'PID', Min: 0 }] },
+        { Id: 'CTT', Min: 0 },
+        { Id: 'SE' }
+    ]
+};
+
+const match = (body: string[]) => {
+    const text = x12Purchase(body);
+    const result = matchTransactionStructure(listTransactions(parse(text))[0].segments, STRUCTURE);
+    return {
+        issues: result.issues.map(i => [i.code, i.message, text.substring(i.start, i.end)]),
+        root: result.root
+    };
+};
+
+const outline = (loop: LoopInstance): unknown[] =>
+    loop.children.map(child => isLoopInstance(child) ? { [child.id]: outline(child) } : child.id);
+
+suite('transactionStructure', () => {
+    test('builds loop instances for a valid transaction set', () => {
+        const { issues, root } = match(['BEG*00*SA*PO1**20230101', 'N1*ST*Store', 'N3*Main St', 'PO1*1*1*EA', 'PID*F', 'PO1*2*1*EA', 'CTT*2']);
+        assert.deepStrictEqual(issues, []);
+        assert.deepStrictEqual(outline(root), [
+            'ST', 'BEG',
+            { N1Loop1: ['N1', 'N3'] },
+            { PO1Loop1: ['PO1', 'PID'] },
+            { PO1Loop1: ['PO1'] },
+            'CTT', 'SE'
+        ]);
+    });
+
+    test('reports segments out of order', () => {
+        const { issues } = match(['REF*DP*038', 'BEG*00*SA*PO1**20230101', 'PO1*1*1*EA']);
+        assert.deepStrictEqual(issues, [
+            ['missingSegment', 'BEG: Required segment missing from transaction set 850', 'REF'],
+            ['segmentOrder', 'BEG: Segment out of order in transaction set 850', 'BEG']
+        ]);
+    });
+
+    test('reports loops repeated above their maximum', () => {
+        const { issues } = match(['BEG*00*SA*PO1**20230101', 'N1*ST', 'N1*BT', 'N1*BY', 'PO1*1*1*EA']);
+        assert.deepStrictEqual(issues, [['maxUse', 'N1 loop: Exceeds maximum repeat of 2 in transaction set 850', 'N1']]);
+    });
+
+    test('reports a missing mandatory loop on the next segment', () => {
+        const { issues } = match(['BEG*00*SA*PO1**20230101', 'N1*ST', 'CTT*0']);
+        assert.deepStrictEqual(issues, [['missingLoop', 'PO1 loop: Required loop missing from transaction set 850', 'CTT']]);
+    });
+
+    test('reports unknown segments and keeps them in the tree', () => {
+        const { issues, root } = match(['BEG*00*SA*PO1**20230101', 'PO1*1*1*EA', 'ZZZ*1']);
+        assert.deepStrictEqual(issues, [['unexpectedSegment', 'ZZZ: Unexpected segment in PO1 loop', 'ZZZ']]);
+        assert.deepStrictEqual(outline(root), ['ST', 'BEG', { PO1Loop1: ['PO1', 'ZZZ'] }, 'SE']);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { listTransactions } from '../../interchangeSplitter';
+import { translateTransaction, TranslatedValue } from '../../translatedView';
+import { parse, x12Purchase } from './helpers';
+
+const texts = (values: TranslatedValue[]) => values.map(v => v.text);
+
+suite('translatedView', () => {
+    test('keeps detail segments of a line item in its Other column', () => {
+        const text = x12Purchase([
+            'BEG*00*SA*PO1**20230101',
+            'PO1*1*10*EA*9.99**BP*ABC-1',
+            'REF*DP*038',
+            'DTM*002*20230201',
+            'MSG*Handle with care',
+            'PO1*2*5*EA*1.50',
+            'CTT*2',
+            'MSG*Thank you'
+        ]);
+        const translated = translateTransaction(listTransactions(parse(text))[0]);
+
+        const lines = translated.sections.find(s => s.title === 'Line Items')!.table!;
+        assert.strictEqual(lines.columns[7], 'Other');
+        assert.deepStrictEqual(texts(lines.rows[0][7]), ['038', '2023-02-01', 'Handle with care']);
+        assert.deepStrictEqual(lines.rows[0][7].map(v => v.translation), ['REF DP', 'DTM 002', 'MSG01']);
+        assert.deepStrictEqual(texts(lines.rows[1][7]), []);
+
+        const ref = lines.rows[0][7][0];
+        assert.strictEqual(text.substring(ref.start, ref.end), '038');
+
+        const totals = translated.sections.find(s => s.title === 'Totals')!.fields!;
+        assert.deepStrictEqual(totals.map(f => texts(f.values)), [['2'], ['Thank you']]);
+    });
+});
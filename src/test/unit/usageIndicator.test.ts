@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { buildUsageEdits, getUsageIndicator } from '../../usageIndicator';
+import { applyEdits, parse, x12Purchase } from './helpers';
+
+const UNB = 'UNB+UNOA:2+S+R+230101:1200+1';
+
+const edifact = (unb: string) => `${unb}'UNH+1+ORDERS:D:96A:UN'BGM+220+PO1'UNT+3+1'UNZ+1+1'`;
+
+const toggle = (text: string, test: boolean) => applyEdits(text, buildUsageEdits(parse(text), test));
+
+suite('usageIndicator', () => {
+    test('reads and sets ISA15', () => {
+        const text = x12Purchase(['BEG*00*SA*PO1**20230101']);
+        assert.strictEqual(getUsageIndicator(parse(text)), 'test');
+        const production = toggle(text, false);
+        assert.ok(production.includes('*0*P*>~'));
+        assert.strictEqual(getUsageIndicator(parse(production)), 'production');
+        assert.deepStrictEqual(buildUsageEdits(parse(production), false), []);
+    });
+
+    test('appends UNB11 with the empty elements before it', () => {
+        const text = edifact(UNB);
+        assert.strictEqual(getUsageIndicator(parse(text)), 'production');
+        assert.strictEqual(toggle(text, true), edifact(`${UNB}++++++1`));
+    });
+
+    test('trims trailing empty elements along with UNB11', () => {
+        assert.strictEqual(toggle(edifact(`${UNB}++++++1`), false), edifact(UNB));
+        assert.strictEqual(toggle(edifact(`${UNB}++ORDERS++++1`), false), edifact(`${UNB}++ORDERS`));
+    });
+
+    test('only empties UNB11 when elements follow it', () => {
+        assert.strictEqual(toggle(edifact(`${UNB}++++++1+X`), false), edifact(`${UNB}+++++++X`));
+    });
+
+    test('reports mixed indicators', () => {
+        const text = edifact(`${UNB}++++++1`) + edifact(UNB.replace('+1', '+2')).replace('UNZ+1+1', 'UNZ+1+2');
+        assert.strictEqual(getUsageIndicator(parse(text)), 'mixed');
+    });
+});
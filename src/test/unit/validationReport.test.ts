@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { failedFile, formatValidationReport, summarizeFile } from '../../validationReport';
+import { ValidationIssue } from '../../validators';
+import { parse, x12Purchase } from './helpers';
+
+const TEXT = x12Purchase(['BEG*00*SA*PO1**20230101']);
+
+const issue = (message: string, severity: ValidationIssue['severity'] = 'error'): ValidationIssue =>
+    ({ start: 0, end: 1, code: 'test', message, severity });
+
+const BLANK = 'REF-04: Mandatory element blank';
+const DATE = 'BEG-05: Invalid date';
+
+suite('validationReport', () => {
+    test('counts transaction types and recurring issues of a file', () => {
+        const text = TEXT.replace('GE*1*1', 'ST*850*0002~\nBEG*00*SA*PO2**20230101~\nSE*3*0002~\nGE*2*1');
+        const result = summarizeFile('a.edi', parse(text), [issue(DATE, 'warning'), issue(BLANK), issue(DATE), issue(BLANK)]);
+        assert.deepStrictEqual(result.transactions, [{ type: '850', count: 2 }]);
+        assert.deepStrictEqual([result.transactionCount, result.errors, result.warnings], [2, 3, 1]);
+        // Errors before warnings, then by count; the same message with another severity stays apart
+        assert.deepStrictEqual(result.allIssues.map(i => [i.message, i.severity, i.count]), [
+            [BLANK, 'error', 2],
+            [DATE, 'error', 1],
+            [DATE, 'warning', 1]
+        ]);
+    });
+
+    test('keeps the five most frequent issues per file', () => {
+        const issues = ['A', 'B', 'C', 'D', 'E', 'F'].flatMap((message, index) => Array<ValidationIssue>(6 - index).fill(issue(message)));
+        const result = summarizeFile('a.edi', parse(TEXT), issues);
+        assert.deepStrictEqual(result.topIssues.map(i => i.message), ['A', 'B', 'C', 'D', 'E']);
+        assert.strictEqual(result.allIssues.length, 6);
+    });
+
+    test('merges issues across files and lists failing files first', () => {
+        const results = [
+            summarizeFile('clean.edi', parse(TEXT), []),
+            summarizeFile('one.edi', parse(TEXT), [issue(BLANK)]),
+            summarizeFile('two.edi', parse(TEXT), [issue(BLANK), issue(BLANK), issue('N1|02: Too long')]),
+            failedFile('broken.edi', 'Not an EDI document')
+        ];
+        const report = formatValidationReport(results, '**/*.edi');
+        const lines = report.split('\n');
+
+        assert.ok(lines.includes('- 4 file(s): 1 passed, 3 failed'));
+        assert.ok(lines.includes('- 3 transaction(s): 850 ×3'));
+        assert.ok(lines.includes('- 4 error(s), 0 warning(s)'));
+
+        const rows = lines.filter(l => /^\| \S+\.edi \|/.test(l));
+        assert.deepStrictEqual(rows, [
+            '| broken.edi | - | _Not an EDI document_ | 0 | 0 |',
+            '| two.edi | X12 | 850 ×1 | 3 | 0 |',
+            '| one.edi | X12 | 850 ×1 | 1 | 0 |',
+            '| clean.edi | X12 | 850 ×1 | 0 | 0 |'
+        ]);
+        assert.ok(lines.includes(`| ${BLANK} | error | 3 | 2 |`));
+        assert.ok(lines.includes('| N1\\|02: Too long | error | 1 | 1 |'));
+        assert.ok(lines.includes(`- 2× \`${BLANK}\``));
+        assert.ok(!lines.includes('### clean.edi'));
+    });
+});
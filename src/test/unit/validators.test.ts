@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadValidationSchema, validateParsedDocument } from '../../documentValidator';
+import { describeSyntaxRule, parseSyntaxRule, validateDate, validateSyntaxRules, validateTime } from '../../validators';
+import { parse, x12Purchase } from './helpers';
+
+const EXTENSION_PATH = path.resolve(__dirname, '../../..');
+
+const bundledSyntax = (version: string, segmentId: string): string[] | undefined =>
+    JSON.parse(fs.readFileSync(path.join(EXTENSION_PATH, 'schemas', 'x12', version, 'segments.json'), 'utf-8'))[segmentId]?.syntax;
+
+const rules = (segmentId: string, rule: string, values: string[]) =>
+    validateSyntaxRules(segmentId, [rule], values).map(v => [v.positions, v.message]);
+
+suite('validators', () => {
+    suite('syntax rules', () => {
+        test('parses the rule type and positions', () => {
+            assert.deepStrictEqual(parseSyntaxRule('l010203'), { rule: 'L010203', type: 'L', positions: [1, 2, 3] });
+            assert.strictEqual(parseSyntaxRule('P03'), null);
+            assert.strictEqual(parseSyntaxRule('X0102'), null);
+        });
+
+        test('P: paired elements are all present or all absent', () => {
+            assert.deepStrictEqual(rules('N1', 'P0304', ['ST', 'Ship', '', '']), []);
+            assert.deepStrictEqual(rules('N1', 'P0304', ['ST', 'Ship', '92', '0042']), []);
+            assert.deepStrictEqual(rules('N1', 'P0304', ['ST', 'Ship', '92']), [
+                [[4], 'N1-04: Required when N1-03 is present (syntax P0304)']
+            ]);
+        });
+
+        test('R: at least one is required', () => {
+            assert.deepStrictEqual(rules('N1', 'R0203', ['ST', '', ' ']), [
+                [[2], 'N1: At least one of N1-02 or N1-03 is required (syntax R0203)']
+            ]);
+            assert.deepStrictEqual(rules('N1', 'R0203', ['ST', '', '92']), []);
+        });
+
+        test('E: not more than one may be present', () => {
+            assert.deepStrictEqual(rules('CUR', 'E0708', ['BY', 'USD', '', '', '', '', 'A', 'B']), [
+                [[8], 'CUR-08: Not allowed together with CUR-07 (syntax E0708)']
+            ]);
+        });
+
+        test('C: the first requires all others', () => {
+            assert.deepStrictEqual(rules('REF', 'C0506', ['DP', '1', '', '', 'X']), [
+                [[6], 'REF-06: Required when REF-05 is present (syntax C0506)']
+            ]);
+            assert.deepStrictEqual(rules('REF', 'C0506', ['DP', '1', '', '', '', 'Y']), []);
+        });
+
+        test('L: the first requires at least one of the others', () => {
+            assert.deepStrictEqual(rules('PO4', 'L130405', ['1', '', '', '', '', '', '', '', '', '', '', '', 'X']), [
+                [[13], 'PO4-13: Requires at least one of PO4-04 or PO4-05 (syntax L130405)']
+            ]);
+        });
+
+        test('describes rules in words', () => {
+            assert.strictEqual(describeSyntaxRule('C0506', 'REF'), 'If REF-05 is present, REF-06 is required');
+            assert.strictEqual(describeSyntaxRule('P0304', 'N1'), 'If any of N1-03 or N1-04 is present, all are required');
+        });
+    });
+
+    suite('bundled syntax notes', () => {
+        test('SAC carries its conditional and list-conditional notes', () => {
+            for (const version of ['004010', '005010', '008010']) {
+                assert.deepStrictEqual(bundledSyntax(version, 'SAC'),
+                    ['R0203', 'P0304', 'P0607', 'P0910', 'C1110', 'L130204', 'C1413', 'C1615'], version);
+            }
+        });
+
+        test('DMG checks the industry code from 004030 on', () => {
+            assert.deepStrictEqual(bundledSyntax('004010', 'DMG'), ['P0102']);
+            for (const version of ['004030', '005010', '008010']) {
+                assert.deepStrictEqual(bundledSyntax(version, 'DMG'), ['P0102', 'P1011', 'C1105'], version);
+            }
+        });
+
+        test('G62, N9, SLN and TD5 carry their notes', () => {
+            assert.deepStrictEqual(bundledSyntax('004010', 'G62'), ['R0103', 'P0102', 'P0304']);
+            assert.deepStrictEqual(bundledSyntax('004010', 'N9'), ['R0203', 'C0605']);
+            assert.deepStrictEqual(bundledSyntax('005010', 'SLN')?.slice(0, 4), ['P0405', 'C0706', 'C0806', 'P0910']);
+            assert.deepStrictEqual(bundledSyntax('005010', 'TD5'), ['R0204050612', 'C0203', 'C0708', 'C1011', 'C1312', 'C1413', 'C1512']);
+        });
+
+        test('are applied by document validation', () => {
+            // SAC from its element values by position
+            const sac = (values: Record<number, string>) => ['SAC', ...Array.from({ length: 13 }, (_, i) => values[i + 1] || '')].join('*');
+            const syntaxMessages = (segment: string) => {
+                const parsed = parse(x12Purchase(['BEG*00*SA*PO1**20230101', segment]));
+                return validateParsedDocument(parsed, loadValidationSchema(EXTENSION_PATH, parsed))
+                    .map(i => i.message)
+                    .filter(m => /\(syntax /.test(m));
+            };
+
+            assert.deepStrictEqual(syntaxMessages(sac({ 1: 'A', 2: 'C310', 5: '100', 13: 'X' })), []);
+            assert.deepStrictEqual(syntaxMessages(sac({ 1: 'A', 5: '100', 11: '5', 13: 'X' })), [
+                'SAC: At least one of SAC-02 or SAC-03 is required (syntax R0203)',
+                'SAC-10: Required when SAC-11 is present (syntax C1110)',
+                'SAC-13: Requires at least one of SAC-02 or SAC-04 (syntax L130204)'
+            ]);
+        });
+    });
+
+    test('validates dates and times', () => {
+        assert.strictEqual(validateDate('20230228').isValid, true);
+        assert.strictEqual(validateDate('20230230').isValid, false);
+        assert.strictEqual(validateTime('1200').isValid, true);
+        assert.strictEqual(validateTime('2561').isValid, false);
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import type { EdiSchemaLookup } from '../../hoverProvider';
+import { ediToXml } from '../../xmlConverter';
+import { parse, x12Purchase } from './helpers';
+
+const SCHEMA_DIR = path.resolve(__dirname, '../../../schemas/x12/004010');
+
+// Names only for BEG - enough to check the attributes
+const LOOKUP: EdiSchemaLookup = {
+    languagePrefix: 'x12',
+    version: '004010',
+    schemaDir: SCHEMA_DIR,
+    getSegment: code => code === 'BEG'
+        ? { code, name: 'Beginning Segment', description: '', elements: [{ position: '01', name: 'Purpose', requirement: 'M', type: '353' }] }
+        : null,
+    getElement: () => null,
+    getComposite: () => null
+};
+
+const TEXT = x12Purchase(['BEG*00*SA*PO1**20230101', 'N1*ST*Smith & Sons', 'PO1*1*1*EA', 'CTT*1']);
+
+const toXml = (text: string, layout: 'nested' | 'flat', schema?: EdiSchemaLookup) => ediToXml(parse(text), text, layout, schema);
+
+suite('xmlConverter', () => {
+    test('nests envelopes and loops, leaving out empty elements', () => {
+        const xml = toXml(TEXT, 'nested', LOOKUP);
+        assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<X12 version="004010">\n  <Interchange controlNumber="000000001">'));
+        assert.ok(xml.includes('<FunctionalGroup controlNumber="1">'));
+        assert.ok(xml.includes('<TransactionSet controlNumber="0001" type="850">'));
+        assert.ok(xml.includes('<BEG01 name="Purpose">00</BEG01>'));
+        assert.ok(!xml.includes('<BEG04'));
+        assert.ok(xml.includes('<N1Loop1>\n          <N1>\n            <N101>ST</N101>\n            <N102>Smith &amp; Sons</N102>'));
+        assert.ok(xml.includes('<PO1Loop1>'));
+    });
+
+    test('writes transaction sets flat without a schema', () => {
+        const xml = toXml(TEXT, 'nested');
+        assert.ok(xml.includes('<X12>'));
+        assert.ok(!xml.includes('Loop1'));
+        assert.ok(!xml.includes('name='));
+    });
+
+    test('writes every segment under the root in the flat layout', () => {
+        const xml = toXml(TEXT, 'flat', LOOKUP);
+        assert.ok(!xml.includes('<Interchange'));
+        assert.ok(xml.includes('\n  <ISA>') && xml.includes('\n  <IEA>'));
+    });
+
+    test('writes EDIFACT components and the UNA service string', () => {
+        const text = "UNA:+.? 'UNB+UNOA:2+SENDER+RECEIVER+230101:1200+1'UNH+1+ORDERS:D:96A:UN'BGM+220+PO1'UNT+3+1'UNZ+1+1'";
+        const xml = toXml(text, 'nested');
+        assert.ok(xml.includes('<UNA>:+.? </UNA>'));
+        assert.ok(xml.includes('<Message controlNumber="1" type="ORDERS">'));
+        assert.ok(xml.includes('<UNH02>\n          <UNH02-01>ORDERS</UNH02-01>'));
+    });
+});
@@ -0,0 +1,89 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseDocument } from './parser';
+import { buildUsageEdits, getUsageIndicator } from './usageIndicator';
+
+/**
+ * Warns when an EDI file with a production usage indicator (ISA15 "P",
+ * UNB11 not "1") is saved inside a folder listed in
+ * "ediX12Tools.usageIndicator.testFolders". No folders, no warning.
+ */
+export class TestFolderWarningController implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(document => this.checkDocument(document))
+        );
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private async checkDocument(document: vscode.TextDocument): Promise<void> {
+        if (document.languageId !== 'x12' && document.languageId !== 'edifact') {
+            return;
+        }
+        const folder = this.findTestFolder(document.uri);
+        if (!folder) {
+            return;
+        }
+
+        const parsed = parseDocument(document);
+        const indicator = parsed ? getUsageIndicator(parsed) : null;
+        if (!parsed || !indicator || indicator === 'test') {
+            return;
+        }
+
+        const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
+        const field = parsed.standard === 'edifact' ? 'UNB-11' : 'ISA-15';
+        const choice = await vscode.window.showWarningMessage(
+            `EDI: ${fileName} is marked as PRODUCTION (${field}) but is saved in the test folder "${folder}"`,
+            'Switch to Test'
+        );
+        if (choice !== 'Switch to Test') {
+            return;
+        }
+
+        // Re-parse - the document may have changed while the message was shown
+        const current = parseDocument(document);
+        if (!current) {
+            return;
+        }
+        const edit = new vscode.WorkspaceEdit();
+        for (const change of buildUsageEdits(current, true)) {
+            edit.replace(document.uri, new vscode.Range(document.positionAt(change.start), document.positionAt(change.end)), change.value);
+        }
+        if (await vscode.workspace.applyEdit(edit)) {
+            await document.save();
+        }
+    }
+
+    /**
+     * The configured test folder containing the file, if any. Relative folders
+     * are resolved against every workspace folder.
+     */
+    private findTestFolder(uri: vscode.Uri): string | null {
+        if (uri.scheme !== 'file') {
+            return null;
+        }
+        const folders = vscode.workspace.getConfiguration('ediX12Tools').get<string[]>('usageIndicator.testFolders', []);
+        const roots = (vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath);
+
+        for (const folder of folders) {
+            if (typeof folder !== 'string' || folder.trim() === '') {
+                continue;
+            }
+            const candidates = path.isAbsolute(folder) ? [folder] : roots.map(root => path.join(root, folder));
+            for (const candidate of candidates) {
+                const relative = path.relative(candidate, uri.fsPath);
+                if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+                    return folder;
+                }
+            }
+        }
+        return null;
+    }
+}
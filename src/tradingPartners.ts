@@ -0,0 +1,158 @@
+/**
+ * Trading Partner Profiles
+ *
+ * Named sender/receiver identities used by Update IDs. A profile holds the
+ * X12 (ISA qualifier/ID, GS ID) and EDIFACT (UNB ID/qualifier) identities,
+ * the version the partner expects and its usage indicator (T/P).
+ * Profiles come from the "ediX12Tools.tradingPartners.profiles" setting or
+ * a workspace JSON file; this module only computes the envelope edits.
+ */
+
+import { EdiSegment, escapeValue, getDeclaredVersion, ParsedEdi } from './parser';
+import { isRecord } from './settingsValues';
+import { buildUsageEdit } from './usageIndicator';
+
+export interface TradingPartnerProfile {
+    name: string;
+    isaQualifier?: string;       // ISA05/ISA07, e.g. "ZZ"
+    isaId?: string;              // ISA06/ISA08 (padded to 15)
+    gsId?: string;               // GS02/GS03
+    unbId?: string;              // UNB02/UNB03 identification
+    unbQualifier?: string;       // UNB02/UNB03 code qualifier
+    version?: string;            // Expected version, e.g. "00401", "D96A"
+    usageIndicator?: string;     // "T" or "P"
+}
+
+export interface EnvelopeEdit {
+    start: number;
+    end: number;
+    value: string;
+}
+
+// Optional profile fields, all strings
+const PROFILE_FIELDS = ['isaQualifier', 'isaId', 'gsId', 'unbId', 'unbQualifier', 'version', 'usageIndicator'] as const;
+
+/**
+ * Keep the well-formed profiles of a settings or file value (an array, or an object with "profiles").
+ * Numbers are read as text (e.g. an ISA ID typed without quotes); fields of other types are dropped.
+ */
+export function normalizeProfiles(raw: unknown): TradingPartnerProfile[] {
+    const list: unknown[] = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.profiles) ? raw.profiles : [];
+    const profiles: TradingPartnerProfile[] = [];
+    for (const entry of list) {
+        if (!isRecord(entry) || typeof entry.name !== 'string' || entry.name.trim() === '') {
+            continue;
+        }
+        const profile: TradingPartnerProfile = { name: entry.name };
+        for (const field of PROFILE_FIELDS) {
+            const value = entry[field];
+            if (typeof value === 'string' || typeof value === 'number') {
+                profile[field] = String(value);
+            }
+        }
+        profiles.push(profile);
+    }
+    return profiles;
+}
+
+/**
+ * Edits that set the sender and/or receiver of every envelope to a profile.
+ * The usage indicator (ISA15/UNB11) follows the receiver profile.
+ */
+export function buildProfileEdits(parsed: ParsedEdi, sender?: TradingPartnerProfile, receiver?: TradingPartnerProfile): EnvelopeEdit[] {
+    const edits: EnvelopeEdit[] = [];
+    const isEdifact = parsed.standard === 'edifact';
+
+    for (const segment of parsed.segments) {
+        if (!isEdifact && segment.id === 'ISA') {
+            for (const [profile, qualifierPosition] of [[sender, 5], [receiver, 7]] as const) {
+                if (profile?.isaQualifier) {
+                    pushEdit(edits, segment, qualifierPosition, profile.isaQualifier.padEnd(2, ' ').substring(0, 2));
+                }
+                if (profile?.isaId) {
+                    pushEdit(edits, segment, qualifierPosition + 1, profile.isaId.padEnd(15, ' ').substring(0, 15));
+                }
+            }
+            if (receiver?.usageIndicator) {
+                pushUsageEdit(edits, parsed, segment, receiver.usageIndicator);
+            }
+        } else if (!isEdifact && segment.id === 'GS') {
+            if (sender?.gsId) {
+                pushEdit(edits, segment, 2, sender.gsId);
+            }
+            if (receiver?.gsId) {
+                pushEdit(edits, segment, 3, receiver.gsId);
+            }
+        } else if (isEdifact && segment.id === 'UNB') {
+            for (const [profile, position] of [[sender, 2], [receiver, 3]] as const) {
+                if (profile?.unbId) {
+                    // Keep any routing address components after the qualifier
+                    const rest = segment.elements[position - 1]?.components.slice(2).map(c => escapeValue(c.value, parsed.delimiters)) || [];
+                    const parts = [escapeValue(profile.unbId, parsed.delimiters)];
+                    if (profile.unbQualifier || rest.length > 0) {
+                        parts.push(escapeValue(profile.unbQualifier || '', parsed.delimiters));
+                    }
+                    pushEdit(edits, segment, position, [...parts, ...rest].join(parsed.delimiters.component));
+                }
+            }
+            if (receiver?.usageIndicator) {
+                pushUsageEdit(edits, parsed, segment, receiver.usageIndicator);
+            }
+        }
+    }
+
+    return edits;
+}
+
+/**
+ * Edits that exchange sender and receiver in every envelope
+ * (ISA05/06 with ISA07/08, GS02 with GS03, UNB02 with UNB03, UNG02 with UNG03)
+ */
+export function buildSwapEdits(parsed: ParsedEdi, text: string): EnvelopeEdit[] {
+    const pairs: Record<string, Array<[number, number]>> = parsed.standard === 'edifact'
+        ? { UNB: [[2, 3]], UNG: [[2, 3]] }
+        : { ISA: [[5, 7], [6, 8]], GS: [[2, 3]] };
+
+    const edits: EnvelopeEdit[] = [];
+    for (const segment of parsed.segments) {
+        for (const [a, b] of pairs[segment.id] || []) {
+            const first = segment.elements[a - 1];
+            const second = segment.elements[b - 1];
+            if (first && second) {
+                // Raw text keeps escapes and composite structure as they are
+                edits.push({ start: first.start, end: first.end, value: text.substring(second.start, second.end) });
+                edits.push({ start: second.start, end: second.end, value: text.substring(first.start, first.end) });
+            }
+        }
+    }
+    return edits;
+}
+
+/**
+ * Describe a version mismatch between the document and a profile, if any
+ */
+export function checkProfileVersion(parsed: ParsedEdi, profile: TradingPartnerProfile): string | null {
+    const declared = getDeclaredVersion(parsed);
+    if (!profile.version || !declared) {
+        return null;
+    }
+    // EDIFACT documents declare the release only ("96A" for "D96A")
+    const expected = profile.version.toUpperCase().replace(/^D(?=\d{2}[A-Z]$)/, '');
+    return declared.toUpperCase().startsWith(expected)
+        ? null
+        : `${profile.name} expects version ${profile.version}, the document declares ${declared}`;
+}
+
+function pushUsageEdit(edits: EnvelopeEdit[], parsed: ParsedEdi, segment: EdiSegment, usageIndicator: string): void {
+    const edit = buildUsageEdit(parsed, segment, usageIndicator.toUpperCase() === 'T');
+    if (edit) {
+        edits.push(edit);
+    }
+}
+
+function pushEdit(edits: EnvelopeEdit[], segment: EdiSegment, position: number, value: string): void {
+    const element = segment.elements[position - 1];
+    if (element) {
+        edits.push({ start: element.start, end: element.end, value });
+    }
+}
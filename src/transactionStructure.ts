@@ -0,0 +1,328 @@
+/**
+ * Transaction Structure
+ *
+ * Loads the bundled transaction-structures.json (nested Loop/Min/Max definitions
+ * per X12 transaction set, or per EDIFACT message with segment groups "SG1",
+ * "SG2", ... as loops) and matches the segments of an ST..SE or UNH..UNT body
+ * against it:
+ * - Builds the tree of loop instances (used by outline, folding, conversions)
+ * - Reports unexpected and out-of-order segments
+ * - Reports missing required segments and loops
+ * - Reports segments and loops repeated above their Max
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EdiSegment, getElementValue } from './parser';
+import { isRecord } from './settingsValues';
+import { ValidationIssue } from './validators';
+
+export interface StructureNode {
+    Id: string;                          // Segment ID, or loop ID like "N1Loop1"
+    Min?: number;                        // Defaults to 1
+    Max?: number | 'unbounded';          // Defaults to 1
+    Loop?: StructureNode[];              // Loop children - the first one is the loop trigger segment
+}
+
+export interface TransactionStructure {
+    Release: string;
+    DocumentType: string;
+    TransactionSet: StructureNode[];
+}
+
+/**
+ * One occurrence of a loop in a document (or the whole transaction set for the root)
+ */
+export interface LoopInstance {
+    id: string;                                // Loop ID like "PO1Loop1", "TransactionSet" for the root
+    children: Array<EdiSegment | LoopInstance>; // In document order
+}
+
+export interface StructureMatch {
+    root: LoopInstance;
+    issues: ValidationIssue[];
+}
+
+// Structures per schema directory, keyed by transaction set code (e.g. "850")
+const structureCache = new Map<string, Map<string, TransactionStructure>>();
+
+/**
+ * Load all transaction structures of a schema version directory (cached)
+ */
+export function loadTransactionStructures(schemaDir: string): Map<string, TransactionStructure> {
+    const cached = structureCache.get(schemaDir);
+    if (cached) {
+        return cached;
+    }
+
+    const structures = new Map<string, TransactionStructure>();
+    const structuresPath = path.join(schemaDir, 'transaction-structures.json');
+    if (fs.existsSync(structuresPath)) {
+        const data: unknown = JSON.parse(fs.readFileSync(structuresPath, 'utf-8'));
+        const documentTypes = isRecord(data) && isRecord(data.DocumentTypes) ? data.DocumentTypes : {};
+        for (const entry of Object.values(documentTypes)) {
+            // Skip nested bookkeeping entries that carry no TransactionSet
+            if (isTransactionStructure(entry)) {
+                structures.set(entry.DocumentType, entry);
+            }
+        }
+        console.log(`[EDI Structure] Loaded ${structures.size} transaction structures from ${schemaDir}`);
+    }
+
+    structureCache.set(schemaDir, structures);
+    return structures;
+}
+
+/**
+ * Get the structure of one transaction set type, or null if none is bundled
+ */
+export function getTransactionStructure(schemaDir: string, transactionType: string): TransactionStructure | null {
+    return loadTransactionStructures(schemaDir).get(transactionType) || null;
+}
+
+/**
+ * Structure for a transaction set (ST01) or message (UNH02 message type) header
+ */
+export function getHeaderStructure(schemaDir: string, header: EdiSegment): TransactionStructure | null {
+    const type = header.id === 'UNH'
+        ? header.elements[1]?.components[0]?.value.trim() || ''
+        : getElementValue(header, 1).trim();
+    return getTransactionStructure(schemaDir, type);
+}
+
+export function isLoopInstance(item: EdiSegment | LoopInstance): item is LoopInstance {
+    return 'children' in item;
+}
+
+/**
+ * Flatten a loop instance back into its segments, in document order
+ */
+export function getLoopSegments(loop: LoopInstance): EdiSegment[] {
+    const segments: EdiSegment[] = [];
+    for (const child of loop.children) {
+        if (isLoopInstance(child)) {
+            segments.push(...getLoopSegments(child));
+        } else {
+            segments.push(child);
+        }
+    }
+    return segments;
+}
+
+/**
+ * Readable loop name: "N1Loop1" -> "N1 loop"
+ */
+export function describeLoop(loopId: string): string {
+    return `${loopId.replace(/Loop\d*$/, '')} loop`;
+}
+
+/**
+ * Match the segments of one transaction set (ST through SE) against its structure
+ */
+export function matchTransactionStructure(segments: EdiSegment[], structure: TransactionStructure): StructureMatch {
+    const matcher = new StructureMatcher(segments);
+    const root: LoopInstance = { id: 'TransactionSet', children: [] };
+    matcher.matchLevel(structure.TransactionSet, root, 0, () => false, `transaction set ${structure.DocumentType}`);
+    return { root, issues: matcher.issues };
+}
+
+/**
+ * List the segment IDs the structure allows after the given (partial) transaction set,
+ * innermost loop first. Stops at the first required segment or loop not yet present.
+ */
+export function getExpectedSegments(segments: EdiSegment[], structure: TransactionStructure): string[] {
+    const root = matchTransactionStructure(segments, structure).root;
+
+    // Follow the last loop instance down to the innermost open level
+    const chain: Array<{ nodes: StructureNode[]; instance: LoopInstance; firstNode: number }> = [
+        { nodes: structure.TransactionSet, instance: root, firstNode: 0 }
+    ];
+    for (;;) {
+        const { nodes, instance } = chain[chain.length - 1];
+        const last = instance.children[instance.children.length - 1];
+        const node = last && isLoopInstance(last) ? nodes.find(n => n.Id === last.id && n.Loop) : undefined;
+        if (!last || !isLoopInstance(last) || !node || !node.Loop) {
+            break;
+        }
+        chain.push({ nodes: node.Loop, instance: last, firstNode: 1 });
+    }
+
+    const expected: string[] = [];
+    for (let depth = chain.length - 1; depth >= 0; depth--) {
+        const { nodes, instance, firstNode } = chain[depth];
+
+        // Replay the children to find the last matched node and use counts
+        const counts = new Array<number>(nodes.length).fill(0);
+        let cursor = -1;
+        for (const child of instance.children) {
+            const from = Math.max(cursor, 0);
+            const index = nodes.findIndex((n, j) => j >= from &&
+                (isLoopInstance(child) ? n.Id === child.id : !n.Loop && n.Id === child.id));
+            if (index >= 0) {
+                counts[index]++;
+                cursor = index;
+            }
+        }
+
+        let blocked = false;
+        for (let j = Math.max(cursor, firstNode); j < nodes.length; j++) {
+            const node = nodes[j];
+            if (j === cursor) {
+                // Repeat of the last segment (or a new instance of the last loop)
+                if (counts[j] < maxUse(node)) {
+                    expected.push(triggerId(node));
+                }
+                continue;
+            }
+            expected.push(triggerId(node));
+            if (counts[j] < minUse(node)) {
+                blocked = true;
+                break;
+            }
+        }
+        if (blocked) {
+            break;
+        }
+    }
+
+    return expected.filter((id, i) => expected.indexOf(id) === i);
+}
+
+function isTransactionStructure(value: unknown): value is TransactionStructure {
+    return isRecord(value) && typeof value.DocumentType === 'string' && value.DocumentType !== '' && Array.isArray(value.TransactionSet);
+}
+
+function minUse(node: StructureNode): number {
+    return node.Min ?? 1;
+}
+
+function maxUse(node: StructureNode): number {
+    if (node.Max === 'unbounded') {
+        return Infinity;
+    }
+    return node.Max ?? 1;
+}
+
+function triggerId(node: StructureNode): string {
+    return node.Loop && node.Loop.length > 0 ? node.Loop[0].Id : node.Id;
+}
+
+class StructureMatcher {
+    public issues: ValidationIssue[] = [];
+    private pos = 0;
+
+    constructor(private segments: EdiSegment[]) {}
+
+    /**
+     * Match segments against one level of the structure.
+     * Returns when a segment belongs to an enclosing level (or segments run out).
+     */
+    public matchLevel(
+        nodes: StructureNode[],
+        instance: LoopInstance,
+        firstNode: number,
+        outerAccepts: (segmentId: string) => boolean,
+        levelName: string
+    ): void {
+        const counts = new Array<number>(nodes.length).fill(0);
+        // Inside a loop the trigger segment has already been consumed
+        let cursor = firstNode - 1;
+        if (firstNode > 0) {
+            counts[0] = 1;
+        }
+
+        const findForward = (segmentId: string, from: number): number => {
+            for (let j = Math.max(from, firstNode); j < nodes.length; j++) {
+                if (triggerId(nodes[j]) === segmentId) {
+                    return j;
+                }
+            }
+            return -1;
+        };
+        const accepts = (segmentId: string): boolean =>
+            findForward(segmentId, cursor) >= 0 || outerAccepts(segmentId);
+
+        while (this.pos < this.segments.length) {
+            const segment = this.segments[this.pos];
+            const match = findForward(segment.id, cursor);
+
+            if (match >= 0) {
+                this.reportMissing(nodes, counts, cursor + 1, match, segment, levelName);
+                counts[match]++;
+                cursor = match;
+
+                const node = nodes[match];
+                if (counts[match] > maxUse(node)) {
+                    const what = node.Loop ? describeLoop(node.Id) : segment.id;
+                    this.issues.push(this.issueAt(segment, 'maxUse',
+                        `${what}: Exceeds maximum ${node.Loop ? 'repeat' : 'use'} of ${maxUse(node)} in ${levelName}`));
+                }
+
+                if (node.Loop) {
+                    const loop: LoopInstance = { id: node.Id, children: [segment] };
+                    instance.children.push(loop);
+                    this.pos++;
+                    this.matchLevel(node.Loop, loop, 1, accepts, describeLoop(node.Id));
+                } else {
+                    instance.children.push(segment);
+                    this.pos++;
+                }
+                continue;
+            }
+
+            // Belongs to an enclosing loop - end this loop instance
+            if (outerAccepts(segment.id)) {
+                break;
+            }
+
+            // Not valid at this point of this level
+            const earlier = findForward(segment.id, 0);
+            if (earlier >= 0 && earlier <= cursor) {
+                this.issues.push(this.issueAt(segment, 'segmentOrder',
+                    `${segment.id}: Segment out of order in ${levelName}`));
+            } else {
+                this.issues.push(this.issueAt(segment, 'unexpectedSegment',
+                    `${segment.id}: Unexpected segment in ${levelName}`));
+            }
+            instance.children.push(segment);
+            this.pos++;
+        }
+
+        // Required nodes after the last match were never seen - report them
+        // on the loop trigger, or on the last segment (SE) for the transaction set
+        const anchor = firstNode > 0
+            ? instance.children[0] as EdiSegment
+            : this.segments[this.segments.length - 1];
+        if (anchor) {
+            this.reportMissing(nodes, counts, cursor + 1, nodes.length, anchor, levelName);
+        }
+    }
+
+    private reportMissing(
+        nodes: StructureNode[],
+        counts: number[],
+        from: number,
+        to: number,
+        anchor: EdiSegment,
+        levelName: string
+    ): void {
+        for (let k = from; k < to; k++) {
+            const node = nodes[k];
+            if (counts[k] < minUse(node)) {
+                this.issues.push(node.Loop
+                    ? this.issueAt(anchor, 'missingLoop', `${describeLoop(node.Id)}: Required loop missing from ${levelName}`)
+                    : this.issueAt(anchor, 'missingSegment', `${node.Id}: Required segment missing from ${levelName}`));
+            }
+        }
+    }
+
+    private issueAt(segment: EdiSegment, code: string, message: string): ValidationIssue {
+        return {
+            start: segment.start,
+            end: segment.start + segment.id.length,
+            code,
+            message,
+            severity: 'error'
+        };
+    }
+}
@@ -0,0 +1,260 @@
+/**
+ * Translated View
+ *
+ * Turns one transaction set/message into a form-like model for readers who
+ * do not read raw EDI. Code values are translated with the element code lists.
+ *   850:   header fields, parties (N1 loops), line items (PO1/PID/CTP, other detail
+ *          segments in an "Other" column), totals (CTT/AMT and what follows)
+ *   Other: every segment with its named, translated element values
+ * Every value keeps the offsets of its element so the view can jump to the source.
+ */
+
+import { TransactionEntry } from './interchangeSplitter';
+import { EdiSchemaLookup } from './hoverProvider';
+import { EdiSegment } from './parser';
+
+export interface TranslatedValue {
+    text: string;                // Raw value, e.g. "ST"
+    translation: string;         // Code description, e.g. "Ship To", or ""
+    start: number;               // Element offsets in the source
+    end: number;
+}
+
+export interface TranslatedField {
+    label: string;
+    values: TranslatedValue[];
+}
+
+export interface TranslatedTable {
+    columns: string[];
+    rows: TranslatedValue[][][];  // Row -> cell -> values
+}
+
+export interface TranslatedSection {
+    title: string;
+    fields?: TranslatedField[];
+    table?: TranslatedTable;
+}
+
+export interface TranslatedTransaction {
+    title: string;               // e.g. "850 Purchase Order #0001"
+    sections: TranslatedSection[];
+}
+
+const PARTY_COLUMNS = ['Level', 'Role', 'Name', 'Identification', 'Address', 'City / State / Postal Code', 'Contact'];
+const LINE_COLUMNS = ['Line', 'Quantity', 'Unit', 'Unit Price', 'Product IDs', 'Description', 'Pricing', 'Other'];
+
+/**
+ * Build the translated model of a transaction set/message
+ */
+export function translateTransaction(entry: TransactionEntry, schema?: EdiSchemaLookup): TranslatedTransaction {
+    const translator = new Translator(schema);
+    const typeName = entry.type === '850' ? 'Purchase Order' : '';
+    const reference = entry.reference ? ` ${entry.reference}` : '';
+    const title = `${entry.type}${typeName ? ` ${typeName}` : ''}${reference} (#${entry.controlNumber})`;
+
+    return {
+        title,
+        sections: entry.type === '850' && entry.segments[0]?.id === 'ST'
+            ? translatePurchaseOrder(entry.segments, translator)
+            : [translateSegments(entry.segments, translator)]
+    };
+}
+
+/**
+ * 850: header, parties, line items and totals
+ */
+function translatePurchaseOrder(segments: EdiSegment[], translator: Translator): TranslatedSection[] {
+    const header: TranslatedField[] = [];
+    const parties: TranslatedValue[][][] = [];
+    const lines: TranslatedValue[][][] = [];
+    const totals: TranslatedField[] = [];
+
+    let party: TranslatedValue[][] | null = null;
+    let line: TranslatedValue[][] | null = null;
+    let summary = false;
+
+    for (const segment of segments) {
+        const value = (position: number) => translator.value(segment, position);
+        const cell = (...positions: number[]) => positions.map(value).filter(v => v.text !== '');
+
+        // Segments that continue the current N1 loop
+        if (party && ['N2', 'N3', 'N4', 'PER'].includes(segment.id)) {
+            if (segment.id === 'N2' || segment.id === 'N3') {
+                party[4].push(...cell(1, 2));
+            } else if (segment.id === 'N4') {
+                party[5].push(...cell(1, 2, 3, 4));
+            } else {
+                party[6].push(...cell(2, 4));
+            }
+            continue;
+        }
+        party = null;
+
+        switch (segment.id) {
+            case 'ST':
+            case 'SE':
+                break;
+            case 'N1': {
+                const level = line ? `Line ${line[0][0]?.text || lines.length}` : 'Header';
+                party = [[plain(level, segment)], cell(1), cell(2), cell(3, 4), [], [], []];
+                parties.push(party);
+                break;
+            }
+            case 'PO1':
+                line = [cell(1), cell(2), cell(3), cell(4, 5), productIds(segment, translator), [], [], []];
+                lines.push(line);
+                break;
+            case 'PID':
+                if (line) {
+                    line[5].push(...cell(5));
+                } else {
+                    header.push(...translator.fields(segment));
+                }
+                break;
+            case 'CTP':
+                if (line) {
+                    line[6].push(...cell(2, 3, 4, 5));
+                } else {
+                    header.push(...translator.fields(segment));
+                }
+                break;
+            case 'CTT':
+                // The summary area starts here
+                line = null;
+                summary = true;
+                totals.push({ label: 'Number of Line Items', values: cell(1) });
+                if (value(2).text) {
+                    totals.push({ label: 'Hash Total', values: cell(2) });
+                }
+                break;
+            case 'AMT':
+                totals.push({ label: value(1).translation || value(1).text, values: cell(2) });
+                break;
+            default:
+                if (summary) {
+                    totals.push(...translator.fields(segment));
+                } else if (line) {
+                    line[7].push(...labelled(translator.fields(segment)));
+                } else {
+                    header.push(...translator.fields(segment));
+                }
+                break;
+        }
+    }
+
+    const sections: TranslatedSection[] = [{ title: 'Header', fields: header }];
+    if (parties.length > 0) {
+        sections.push({ title: 'Parties', table: { columns: PARTY_COLUMNS, rows: parties } });
+    }
+    if (lines.length > 0) {
+        sections.push({ title: 'Line Items', table: { columns: LINE_COLUMNS, rows: lines } });
+    }
+    if (totals.length > 0) {
+        sections.push({ title: 'Totals', fields: totals });
+    }
+    return sections;
+}
+
+/**
+ * Any other transaction: one group of fields per segment
+ */
+function translateSegments(segments: EdiSegment[], translator: Translator): TranslatedSection {
+    const fields: TranslatedField[] = [];
+    for (const segment of segments) {
+        fields.push(...translator.fields(segment));
+    }
+    return { title: 'Segments', fields };
+}
+
+/**
+ * PO106/PO107 onwards: qualifier/product ID pairs, e.g. "BP (Buyer's Part Number)", "12345"
+ */
+function productIds(segment: EdiSegment, translator: Translator): TranslatedValue[] {
+    const values: TranslatedValue[] = [];
+    for (let position = 6; position < segment.elements.length; position += 2) {
+        const id = translator.value(segment, position + 1);
+        if (id.text) {
+            values.push(translator.value(segment, position), id);
+        }
+    }
+    return values;
+}
+
+/**
+ * Field values for a table cell, each translated with its field label,
+ * e.g. "20230201 (Delivery Requested)"
+ */
+function labelled(fields: TranslatedField[]): TranslatedValue[] {
+    return fields.flatMap(field => field.values.map(value => ({
+        ...value,
+        translation: value.translation ? `${field.label}: ${value.translation}` : field.label
+    })));
+}
+
+function plain(text: string, segment: EdiSegment): TranslatedValue {
+    return { text, translation: '', start: segment.start, end: segment.end };
+}
+
+class Translator {
+    constructor(private schema?: EdiSchemaLookup) {}
+
+    /**
+     * Value of an element with the description of its code, if it is one
+     */
+    public value(segment: EdiSegment, position: number): TranslatedValue {
+        const element = segment.elements[position - 1];
+        if (!element) {
+            return { text: '', translation: '', start: segment.end, end: segment.end };
+        }
+        const text = element.value.trim();
+        return { text, translation: this.translate(segment.id, position, text), start: element.start, end: element.end };
+    }
+
+    /**
+     * Named fields of a segment. Qualifier segments (REF, DTM) read as "Qualifier: value".
+     */
+    public fields(segment: EdiSegment): TranslatedField[] {
+        if ((segment.id === 'REF' || segment.id === 'DTM') && segment.elements.length >= 2) {
+            const qualifier = this.value(segment, 1);
+            const values = [2, 3].map(p => this.value(segment, p)).filter(v => v.text !== '');
+            if (segment.id === 'DTM') {
+                values.forEach(v => v.text = formatDate(v.text));
+            }
+            return [{ label: qualifier.translation || `${segment.id} ${qualifier.text}`, values }];
+        }
+
+        const elementInfos = this.schema?.getSegment(segment.id)?.elements || [];
+        const fields: TranslatedField[] = [];
+        segment.elements.forEach((element, index) => {
+            const value = this.value(segment, index + 1);
+            if (value.text === '') {
+                return;
+            }
+            const tag = `${segment.id}${String(index + 1).padStart(2, '0')}`;
+            const name = elementInfos[index]?.name;
+            if (/\bDate\b/.test(name || '')) {
+                value.text = formatDate(value.text);
+            }
+            fields.push({ label: name ? `${name} (${tag})` : tag, values: [value] });
+        });
+        return fields;
+    }
+
+    private translate(segmentId: string, position: number, value: string): string {
+        if (!this.schema || !value) {
+            return '';
+        }
+        const elementInfo = this.schema.getSegment(segmentId)?.elements?.[position - 1];
+        const codes = elementInfo ? this.schema.getElement(elementInfo.type)?.codes : undefined;
+        return codes?.find(c => c.code === value)?.description || '';
+    }
+}
+
+/**
+ * CCYYMMDD as CCYY-MM-DD, anything else unchanged
+ */
+function formatDate(value: string): string {
+    const match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+}
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { TranslatedField, TranslatedTransaction, TranslatedValue } from './translatedView';
+
+const RENDER_DELAY = 300;     // ms after the last edit
+
+/**
+ * Webview showing a translated transaction. Clicking a value selects its
+ * element in the source editor. The view is translated again when the
+ * document changes, so its offsets stay current, and closes with the document.
+ */
+export function showTranslatedView(document: vscode.TextDocument, translate: () => TranslatedTransaction | null): void {
+    const fileName = document.fileName.split(/[/\\]/).pop() || 'Document';
+    const sourceColumn = vscode.window.activeTextEditor?.document === document
+        ? vscode.window.activeTextEditor.viewColumn
+        : undefined;
+    const panel = vscode.window.createWebviewPanel(
+        'ediTranslatedView',
+        fileName,
+        vscode.ViewColumn.Beside,
+        { enableScripts: true, localResourceRoots: [] }
+    );
+
+    let renderedVersion = -1;
+    const render = () => {
+        const transaction = translate();
+        const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+        panel.title = transaction ? `${fileName}: ${transaction.title}` : fileName;
+        panel.webview.html = transaction
+            ? renderHtml(transaction, panel.webview.cspSource, nonce)
+            : renderMissing(panel.webview.cspSource);
+        renderedVersion = document.version;
+    };
+    render();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const disposables: vscode.Disposable[] = [
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document !== document || event.contentChanges.length === 0) {
+                return;
+            }
+            clearTimeout(timer);
+            timer = setTimeout(render, RENDER_DELAY);
+        }),
+        vscode.workspace.onDidCloseTextDocument(closed => {
+            if (closed === document) {
+                panel.dispose();
+            }
+        }),
+        panel.webview.onDidReceiveMessage(async (message: { command: string; start: number; end: number }) => {
+            if (message.command !== 'reveal' || document.isClosed) {
+                return;
+            }
+            // Offsets from before an edit that has not been rendered yet would point elsewhere
+            if (document.version !== renderedVersion) {
+                clearTimeout(timer);
+                render();
+                return;
+            }
+            const editor = await vscode.window.showTextDocument(document, { viewColumn: sourceColumn ?? vscode.ViewColumn.One });
+            const range = new vscode.Range(document.positionAt(message.start), document.positionAt(message.end));
+            editor.selection = new vscode.Selection(range.start, range.end);
+            editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        })
+    ];
+    panel.onDidDispose(() => {
+        clearTimeout(timer);
+        disposables.forEach(d => d.dispose());
+    });
+}
+
+function renderMissing(cspSource: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline';">
+</head>
+<body style="font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px;">
+<p>The transaction is no longer in the document.</p>
+</body>
+</html>`;
+}
+
+function renderHtml(transaction: TranslatedTransaction, cspSource: string, nonce: string): string {
+    const body: string[] = [`<h1>${escapeHtml(transaction.title)}</h1>`];
+
+    for (const section of transaction.sections) {
+        body.push(`<h2>${escapeHtml(section.title)}</h2>`);
+        if (section.fields) {
+            body.push(renderFields(section.fields));
+        }
+        if (section.table) {
+            const head = section.table.columns.map(c => `<th>${escapeHtml(c)}</th>`).join('');
+            const rows = section.table.rows
+                .map(row => `<tr>${row.map(cell => `<td>${cell.map(renderValue).join('<br>')}</td>`).join('')}</tr>`)
+                .join('\n');
+            body.push(`<table><thead><tr>${head}</tr></thead><tbody>\n${rows}\n</tbody></table>`);
+        }
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    h1 { font-size: 1.4em; }
+    h2 { font-size: 1.1em; margin-top: 1.6em; border-bottom: 1px solid var(--vscode-panel-border); }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; vertical-align: top; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    th { font-weight: 600; }
+    dl { display: grid; grid-template-columns: max-content auto; gap: 4px 16px; }
+    dt { color: var(--vscode-descriptionForeground); }
+    dd { margin: 0; }
+    a.value { color: var(--vscode-textLink-foreground); text-decoration: none; cursor: pointer; }
+    a.value:hover { text-decoration: underline; }
+    .translation { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+${body.join('\n')}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.addEventListener('click', event => {
+        const link = event.target.closest('a.value');
+        if (link) {
+            event.preventDefault();
+            vscode.postMessage({ command: 'reveal', start: Number(link.dataset.start), end: Number(link.dataset.end) });
+        }
+    });
+</script>
+</body>
+</html>`;
+}
+
+function renderFields(fields: TranslatedField[]): string {
+    if (fields.length === 0) {
+        return '<p class="translation">No data</p>';
+    }
+    const items = fields.map(field => `<dt>${escapeHtml(field.label)}</dt><dd>${field.values.map(renderValue).join(' ')}</dd>`);
+    return `<dl>\n${items.join('\n')}\n</dl>`;
+}
+
+function renderValue(value: TranslatedValue): string {
+    const translation = value.translation ? ` <span class="translation">(${escapeHtml(value.translation)})</span>` : '';
+    return `<a class="value" href="#" data-start="${value.start}" data-end="${value.end}">${escapeHtml(value.text)}</a>${translation}`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,87 @@
+/**
+ * Test/Production Usage Indicator
+ *
+ * Reads and sets the interchange usage indicator of a document:
+ *   X12:     ISA15 - "T" (test) or "P" (production)
+ *   EDIFACT: UNB11 - "1" (test), absent or empty for production
+ */
+
+import { EdiSegment, ParsedEdi } from './parser';
+
+export type UsageIndicator = 'test' | 'production' | 'mixed';
+
+export interface UsageEdit {
+    start: number;
+    end: number;
+    value: string;
+}
+
+/**
+ * Usage indicator of every interchange in the document, or null without an interchange header
+ */
+export function getUsageIndicator(parsed: ParsedEdi): UsageIndicator | null {
+    const found = new Set<UsageIndicator>();
+    for (const segment of parsed.segments) {
+        if (parsed.standard === 'x12' && segment.id === 'ISA') {
+            const value = segment.elements[14]?.value.trim().toUpperCase();
+            found.add(value === 'T' ? 'test' : 'production');
+        } else if (parsed.standard === 'edifact' && segment.id === 'UNB') {
+            found.add(segment.elements[10]?.value.trim() === '1' ? 'test' : 'production');
+        }
+    }
+    if (found.size === 0) {
+        return null;
+    }
+    return found.size > 1 ? 'mixed' : [...found][0];
+}
+
+/**
+ * Edits that set the usage indicator of every interchange in the document
+ */
+export function buildUsageEdits(parsed: ParsedEdi, test: boolean): UsageEdit[] {
+    const edits: UsageEdit[] = [];
+    for (const segment of parsed.segments) {
+        if (segment.id === (parsed.standard === 'edifact' ? 'UNB' : 'ISA')) {
+            const edit = buildUsageEdit(parsed, segment, test);
+            if (edit) {
+                edits.push(edit);
+            }
+        }
+    }
+    return edits;
+}
+
+/**
+ * Edit that sets the usage indicator of one ISA or UNB, or null when it already holds the value.
+ * A production UNB drops its test indicator together with any trailing empty elements.
+ */
+export function buildUsageEdit(parsed: ParsedEdi, segment: EdiSegment, test: boolean): UsageEdit | null {
+    if (parsed.standard === 'x12') {
+        const indicator = segment.elements[14];
+        const value = test ? 'T' : 'P';
+        return indicator && indicator.value !== value ? { start: indicator.start, end: indicator.end, value } : null;
+    }
+
+    const indicator = segment.elements[10];
+    if (test) {
+        if (indicator) {
+            return indicator.value === '1' ? null : { start: indicator.start, end: indicator.end, value: '1' };
+        }
+        const missing = 11 - segment.elements.length;
+        return { start: segment.end, end: segment.end, value: parsed.delimiters.element.repeat(missing) + '1' };
+    }
+
+    if (!indicator || indicator.value === '') {
+        return null;
+    }
+    if (segment.elements.length > 11) {
+        return { start: indicator.start, end: indicator.end, value: '' };
+    }
+    // Last element - cut back to the end of the last non-empty element before it
+    let last = 9;
+    while (last >= 0 && segment.elements[last].value === '') {
+        last--;
+    }
+    const start = last >= 0 ? segment.elements[last].end : segment.start + segment.id.length;
+    return { start, end: segment.end, value: '' };
+}
@@ -0,0 +1,182 @@
+/**
+ * Workspace Validation Report
+ *
+ * Summarizes the validation of many files for a markdown report:
+ * - Per file: standard, transaction types and counts, error/warning totals
+ *   and the most frequent issues
+ * - Overall: totals and the issues recurring most across all files
+ * Issues recur when their messages are identical (e.g. "REF-04: Mandatory element blank").
+ */
+
+import { listTransactions } from './interchangeSplitter';
+import { EdiStandard, ParsedEdi } from './parser';
+import { ValidationIssue } from './validators';
+
+export interface RecurringIssue {
+    message: string;
+    severity: ValidationIssue['severity'];
+    count: number;
+    files: number;               // Files the issue occurs in (overall list only)
+}
+
+export interface FileValidationResult {
+    name: string;                // Workspace-relative path
+    standard: EdiStandard | null;
+    transactions: Array<{ type: string; count: number }>;
+    transactionCount: number;
+    errors: number;
+    warnings: number;
+    topIssues: RecurringIssue[];
+    allIssues: RecurringIssue[];
+    failure: string | null;      // Why the file could not be validated
+}
+
+const TOP_ISSUE_COUNT = 5;
+
+/**
+ * Validation result of a parsed file
+ */
+export function summarizeFile(name: string, parsed: ParsedEdi, issues: ValidationIssue[]): FileValidationResult {
+    const types = new Map<string, number>();
+    const entries = listTransactions(parsed);
+    for (const entry of entries) {
+        types.set(entry.type, (types.get(entry.type) || 0) + 1);
+    }
+    const allIssues = groupIssues(issues);
+
+    return {
+        name,
+        standard: parsed.standard,
+        transactions: [...types].map(([type, count]) => ({ type, count })),
+        transactionCount: entries.length,
+        errors: issues.filter(i => i.severity === 'error').length,
+        warnings: issues.filter(i => i.severity !== 'error').length,
+        topIssues: allIssues.slice(0, TOP_ISSUE_COUNT),
+        allIssues,
+        failure: null
+    };
+}
+
+/**
+ * Result of a file that could not be read or parsed
+ */
+export function failedFile(name: string, failure: string): FileValidationResult {
+    return {
+        name,
+        standard: null,
+        transactions: [],
+        transactionCount: 0,
+        errors: 0,
+        warnings: 0,
+        topIssues: [],
+        allIssues: [],
+        failure
+    };
+}
+
+/**
+ * Markdown report: overall totals, one summary row per file (files with
+ * errors first), the most frequent issues overall and per file
+ */
+export function formatValidationReport(results: FileValidationResult[], scope: string): string {
+    const sorted = [...results].sort((a, b) =>
+        Number(!!b.failure) - Number(!!a.failure) || b.errors - a.errors || b.warnings - a.warnings || a.name.localeCompare(b.name));
+    const errors = sum(results, r => r.errors);
+    const warnings = sum(results, r => r.warnings);
+    const failed = results.filter(r => r.errors > 0 || r.failure).length;
+    const types = new Map<string, number>();
+    for (const result of results) {
+        result.transactions.forEach(t => types.set(t.type, (types.get(t.type) || 0) + t.count));
+    }
+
+    const lines = [
+        '# EDI Workspace Validation',
+        '',
+        `Files: \`${scope}\``,
+        '',
+        `- ${results.length} file(s): ${results.length - failed} passed, ${failed} failed`,
+        `- ${sum(results, r => r.transactionCount)} transaction(s): ${formatTypes([...types].map(([type, count]) => ({ type, count }))) || 'none'}`,
+        `- ${errors} error(s), ${warnings} warning(s)`,
+        '',
+        '## Files',
+        '',
+        '| File | Standard | Transactions | Errors | Warnings |',
+        '| --- | --- | --- | ---: | ---: |'
+    ];
+    for (const result of sorted) {
+        const transactions = result.failure ? `_${result.failure}_` : formatTypes(result.transactions) || 'none';
+        lines.push(`| ${cell(result.name)} | ${result.standard?.toUpperCase() || '-'} | ${cell(transactions)} | ${result.errors} | ${result.warnings} |`);
+    }
+
+    const overall = mergeIssues(results);
+    if (overall.length > 0) {
+        lines.push('', '## Most Frequent Issues', '', '| Issue | Severity | Occurrences | Files |', '| --- | --- | ---: | ---: |');
+        for (const issue of overall.slice(0, TOP_ISSUE_COUNT * 2)) {
+            lines.push(`| ${cell(issue.message)} | ${issue.severity} | ${issue.count} | ${issue.files} |`);
+        }
+    }
+
+    const detailed = sorted.filter(r => r.topIssues.length > 0);
+    if (detailed.length > 0) {
+        lines.push('', '## Top Issues per File');
+        for (const result of detailed) {
+            lines.push('', `### ${result.name}`, '', `${result.errors} error(s), ${result.warnings} warning(s)`, '');
+            for (const issue of result.topIssues) {
+                lines.push(`- ${issue.count}× \`${issue.message}\`${issue.severity === 'error' ? '' : ` (${issue.severity})`}`);
+            }
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Identical messages counted together, most frequent (errors before warnings) first
+ */
+function groupIssues(issues: ValidationIssue[]): RecurringIssue[] {
+    const groups = new Map<string, RecurringIssue>();
+    for (const issue of issues) {
+        const key = `${issue.severity}\n${issue.message}`;
+        const group = groups.get(key);
+        if (group) {
+            group.count++;
+        } else {
+            groups.set(key, { message: issue.message, severity: issue.severity, count: 1, files: 1 });
+        }
+    }
+    return sortIssues([...groups.values()]);
+}
+
+function mergeIssues(results: FileValidationResult[]): RecurringIssue[] {
+    const groups = new Map<string, RecurringIssue>();
+    for (const issue of results.flatMap(r => r.allIssues)) {
+        const key = `${issue.severity}\n${issue.message}`;
+        const group = groups.get(key);
+        if (group) {
+            group.count += issue.count;
+            group.files++;
+        } else {
+            groups.set(key, { ...issue, files: 1 });
+        }
+    }
+    return sortIssues([...groups.values()]);
+}
+
+function sortIssues(issues: RecurringIssue[]): RecurringIssue[] {
+    return issues.sort((a, b) =>
+        Number(b.severity === 'error') - Number(a.severity === 'error') || b.count - a.count || a.message.localeCompare(b.message));
+}
+
+/**
+ * "850 ×3, 856 ×1"
+ */
+function formatTypes(types: Array<{ type: string; count: number }>): string {
+    return types.map(t => `${t.type} ×${t.count}`).join(', ');
+}
+
+function sum(results: FileValidationResult[], value: (result: FileValidationResult) => number): number {
+    return results.reduce((total, result) => total + value(result), 0);
+}
+
+function cell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -5,6 +5,7 @@
  * - Length (min/max)
  * - Data type (AN, N0, N2, ID, DT, TM, R, B)
  * - Code list (for ID type elements)
+ * - X12 relational conditions (syntax notes such as P0102, R0203, C0506)
  */
 
 export interface ElementSchema {
@@ -20,6 +21,19 @@ export interface ValidationResult {
     errorType?: 'length' | 'dataType' | 'invalidCode' | 'mandatory';
     message: string;
     severity: 'error' | 'warning';
+    suggestions?: string[];  // Similar valid codes (invalidCode only)
+}
+
+/**
+ * A document-level finding located by source offsets (envelopes, structure, etc.)
+ */
+export interface ValidationIssue {
+    start: number;
+    end: number;
+    code: string;
+    message: string;
+    severity: 'error' | 'warning';
+    expected?: string;       // Correct value where it can be computed (e.g. trailer counts)
 }
 
 /**
@@ -305,7 +319,8 @@ export function validateCode(value: string, codes: Array<{ code: string; descrip
             isValid: false,
             errorType: 'invalidCode',
             message,
-            severity: 'error' // Error since code lists are complete
+            severity: 'error', // Error since code lists are complete
+            suggestions
         };
     }
 
@@ -641,4 +656,162 @@ export function validateDateWithFormat(value: string, formatCode: string): Valid
     }
 
     return { isValid: true, message: '', severity: 'warning' };
-}
\ No newline at end of file
+}
+/**
+ * X12 relational condition (syntax note), e.g. "P0304" or "L010203"
+ */
+export interface SyntaxRule {
+    rule: string;                // Original notation, e.g. "P0304"
+    type: 'P' | 'R' | 'E' | 'C' | 'L';
+    positions: number[];         // 1-based element positions, in rule order
+}
+
+/**
+ * A syntax rule violation, reported against the elements in `positions`
+ */
+export interface SyntaxRuleViolation {
+    rule: string;
+    positions: number[];         // 1-based element positions the violation belongs to
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/**
+ * Parse a syntax note like "C0506" into its type and element positions
+ */
+export function parseSyntaxRule(rule: string): SyntaxRule | null {
+    const match = /^([PRECL])((?:\d{2}){2,})$/.exec(rule.trim().toUpperCase());
+    if (!match) {
+        return null;
+    }
+    const positions = (match[2].match(/\d{2}/g) || []).map(p => parseInt(p, 10));
+    return { rule: match[0], type: match[1] as SyntaxRule['type'], positions };
+}
+
+/**
+ * Describe a syntax note in words (used by hovers)
+ */
+export function describeSyntaxRule(rule: string, segmentId: string): string {
+    const parsed = parseSyntaxRule(rule);
+    if (!parsed) {
+        return rule;
+    }
+    const labels = parsed.positions.map(p => syntaxLabel(segmentId, p));
+    const [first, ...others] = labels;
+
+    switch (parsed.type) {
+        case 'P':
+            return `If any of ${joinLabels(labels, 'or')} is present, all are required`;
+        case 'R':
+            return `At least one of ${joinLabels(labels, 'or')} is required`;
+        case 'E':
+            return `Not more than one of ${joinLabels(labels, 'or')} may be present`;
+        case 'C':
+            return `If ${first} is present, ${joinLabels(others, 'and')} ${others.length > 1 ? 'are' : 'is'} required`;
+        case 'L':
+            return `If ${first} is present, at least one of ${joinLabels(others, 'or')} is required`;
+    }
+}
+
+/**
+ * Evaluate the syntax notes of a segment against its element values
+ * (values[0] is element 01). Blank or whitespace-only elements count as absent.
+ */
+export function validateSyntaxRules(segmentId: string, rules: string[], values: string[]): SyntaxRuleViolation[] {
+    const violations: SyntaxRuleViolation[] = [];
+    const isPresent = (position: number) => (values[position - 1] || '').trim() !== '';
+
+    for (const rule of rules) {
+        const parsed = parseSyntaxRule(rule);
+        if (!parsed) {
+            continue;
+        }
+
+        const present = parsed.positions.filter(isPresent);
+        const missing = parsed.positions.filter(p => !isPresent(p));
+        const [first, ...others] = parsed.positions;
+        const note = `(syntax ${parsed.rule})`;
+        const label = (p: number) => syntaxLabel(segmentId, p);
+
+        switch (parsed.type) {
+            case 'P':
+                // Paired: all or none
+                if (present.length > 0 && missing.length > 0) {
+                    for (const position of missing) {
+                        violations.push({
+                            rule: parsed.rule,
+                            positions: [position],
+                            message: `${label(position)}: Required when ${joinLabels(present.map(label), 'and')} ${present.length > 1 ? 'are' : 'is'} present ${note}`,
+                            severity: 'error'
+                        });
+                    }
+                }
+                break;
+
+            case 'R':
+                // Required: at least one
+                if (present.length === 0) {
+                    violations.push({
+                        rule: parsed.rule,
+                        positions: [first],
+                        message: `${segmentId}: At least one of ${joinLabels(parsed.positions.map(label), 'or')} is required ${note}`,
+                        severity: 'error'
+                    });
+                }
+                break;
+
+            case 'E':
+                // Exclusion: not more than one
+                if (present.length > 1) {
+                    for (const position of present.slice(1)) {
+                        violations.push({
+                            rule: parsed.rule,
+                            positions: [position],
+                            message: `${label(position)}: Not allowed together with ${label(present[0])} ${note}`,
+                            severity: 'error'
+                        });
+                    }
+                }
+                break;
+
+            case 'C':
+                // Conditional: if the first is present, all others are required
+                if (isPresent(first)) {
+                    for (const position of others.filter(p => !isPresent(p))) {
+                        violations.push({
+                            rule: parsed.rule,
+                            positions: [position],
+                            message: `${label(position)}: Required when ${label(first)} is present ${note}`,
+                            severity: 'error'
+                        });
+                    }
+                }
+                break;
+
+            case 'L':
+                // List conditional: if the first is present, at least one of the others is required
+                if (isPresent(first) && !others.some(isPresent)) {
+                    violations.push({
+                        rule: parsed.rule,
+                        positions: [first],
+                        message: `${label(first)}: Requires at least one of ${joinLabels(others.map(label), 'or')} ${note}`,
+                        severity: 'error'
+                    });
+                }
+                break;
+        }
+    }
+
+    return violations;
+}
+
+function syntaxLabel(segmentId: string, position: number): string {
+    return `${segmentId}-${String(position).padStart(2, '0')}`;
+}
+
+function joinLabels(labels: string[], conjunction: string): string {
+    if (labels.length <= 1) {
+        return labels.join('');
+    }
+    return `${labels.slice(0, -1).join(', ')} ${conjunction} ${labels[labels.length - 1]}`;
+}
@@ -0,0 +1,207 @@
+/**
+ * EDI -> XML Conversion
+ *
+ * Writes a parsed document as XML in the usual X12/EDIFACT XML layout:
+ * segment tags are segment IDs, element tags are the segment ID plus the
+ * element position ("BEG03") and components add their position ("BGM01-02").
+ * Element and component names from the schema are written as attributes.
+ *
+ * Layouts:
+ *   nested: Interchange -> FunctionalGroup/Group -> TransactionSet/Message -> loops -> segments
+ *   flat:   every segment directly under the root, in document order
+ *
+ * Empty elements are left out - the positions in the tags keep the rest unambiguous.
+ */
+
+import { buildDocumentTree, EdiNode } from './documentTree';
+import { getEnvelopeLevels } from './envelopeValidator';
+import type { EdiSchemaLookup } from './hoverProvider';
+import { EdiRepetition, EdiSegment, getElementValue, ParsedEdi } from './parser';
+import { getHeaderStructure, isLoopInstance, LoopInstance, matchTransactionStructure } from './transactionStructure';
+
+export type XmlLayout = 'nested' | 'flat';
+
+// Container tags per envelope depth
+const X12_CONTAINER_TAGS = ['Interchange', 'FunctionalGroup', 'TransactionSet'];
+const EDIFACT_CONTAINER_TAGS = ['Interchange', 'Group', 'Message'];
+
+const INDENT = '  ';
+
+/**
+ * Convert a parsed document to XML. Without a schema lookup, elements carry no
+ * names and transaction sets/messages are not split into loops or segment groups.
+ */
+export function ediToXml(parsed: ParsedEdi, text: string, layout: XmlLayout, schema?: EdiSchemaLookup): string {
+    const isEdifact = parsed.standard === 'edifact';
+    const writer = new XmlWriter(parsed, text, schema);
+
+    const rootAttributes: Record<string, string> = {};
+    if (schema) {
+        rootAttributes.version = schema.version;
+    }
+    writer.open(isEdifact ? 'EDIFACT' : 'X12', rootAttributes, 0);
+
+    if (layout === 'flat') {
+        for (const segment of parsed.segments) {
+            writer.segment(segment, 1);
+        }
+    } else {
+        for (const node of buildDocumentTree(parsed)) {
+            writer.node(node, 1);
+        }
+    }
+
+    writer.close(isEdifact ? 'EDIFACT' : 'X12', 0);
+    return writer.toString();
+}
+
+class XmlWriter {
+    private lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+    private containerTags: string[];
+
+    constructor(private parsed: ParsedEdi, private text: string, private schema?: EdiSchemaLookup) {
+        this.containerTags = parsed.standard === 'edifact' ? EDIFACT_CONTAINER_TAGS : X12_CONTAINER_TAGS;
+    }
+
+    public open(tag: string, attributes: Record<string, string>, depth: number): void {
+        this.lines.push(`${INDENT.repeat(depth)}<${tag}${formatAttributes(attributes)}>`);
+    }
+
+    public close(tag: string, depth: number): void {
+        this.lines.push(`${INDENT.repeat(depth)}</${tag}>`);
+    }
+
+    public node(node: EdiNode, depth: number): void {
+        if (node.kind === 'segment') {
+            this.segment(node.segment, depth);
+            return;
+        }
+
+        const levels = getEnvelopeLevels(this.parsed.standard);
+        const level = levels.find(l => l.header === node.id);
+        if (!level) {
+            return;
+        }
+
+        const tag = this.containerTags[Math.min(level.depth, this.containerTags.length - 1)];
+        const attributes: Record<string, string> = { controlNumber: getElementValue(node.segment, level.headerControl).trim() };
+        const isTransaction = level.depth === levels.length - 1;
+        if (isTransaction) {
+            attributes.type = this.parsed.standard === 'edifact'
+                ? node.segment.elements[1]?.components[0]?.value || ''
+                : getElementValue(node.segment, 1);
+        }
+
+        this.open(tag, attributes, depth);
+        if (isTransaction) {
+            this.transactionBody(node, depth + 1);
+        } else {
+            for (const child of node.children) {
+                this.node(child, depth + 1);
+            }
+        }
+        this.close(tag, depth);
+    }
+
+    public segment(segment: EdiSegment, depth: number): void {
+        const indent = INDENT.repeat(depth);
+
+        // UNA carries the service characters rather than elements
+        if (segment.id === 'UNA') {
+            this.lines.push(`${indent}<UNA>${escapeXml(this.text.substring(segment.start + 3, segment.start + 8))}</UNA>`);
+            return;
+        }
+
+        const elementInfos = this.schema?.getSegment(segment.id)?.elements || [];
+        const body: string[] = [];
+        segment.elements.forEach((element, index) => {
+            const tag = `${segment.id}${String(index + 1).padStart(2, '0')}`;
+            const elementInfo = elementInfos[index];
+            // ISA elements are fixed fields - ISA16 is the component separator itself
+            const repetitions: EdiRepetition[] = segment.id === 'ISA'
+                ? [{ value: element.value, start: element.start, end: element.end, components: [] }]
+                : element.repetitions;
+
+            for (const repetition of repetitions) {
+                if (repetition.value === '') {
+                    continue;
+                }
+                const attributes: Record<string, string> = elementInfo ? { name: elementInfo.name } : {};
+                if (repetition.components.length <= 1) {
+                    body.push(`${indent}${INDENT}<${tag}${formatAttributes(attributes)}>${escapeXml(repetition.value)}</${tag}>`);
+                    continue;
+                }
+
+                const componentInfos = elementInfo ? this.schema?.getComposite(elementInfo.type)?.components || [] : [];
+                body.push(`${indent}${INDENT}<${tag}${formatAttributes(attributes)}>`);
+                repetition.components.forEach((component, componentIndex) => {
+                    if (component.value === '') {
+                        return;
+                    }
+                    const componentTag = `${tag}-${String(componentIndex + 1).padStart(2, '0')}`;
+                    const componentInfo = componentInfos[componentIndex];
+                    const componentAttributes: Record<string, string> = componentInfo ? { name: componentInfo.name } : {};
+                    body.push(`${indent}${INDENT}${INDENT}<${componentTag}${formatAttributes(componentAttributes)}>${escapeXml(component.value)}</${componentTag}>`);
+                });
+                body.push(`${indent}${INDENT}</${tag}>`);
+            }
+        });
+
+        if (body.length === 0) {
+            this.lines.push(`${indent}<${segment.id}/>`);
+        } else {
+            this.lines.push(`${indent}<${segment.id}>`, ...body, `${indent}</${segment.id}>`);
+        }
+    }
+
+    public toString(): string {
+        return this.lines.join('\n') + '\n';
+    }
+
+    /**
+     * Transaction set/message content, nested by its loops or segment groups when a structure is bundled
+     */
+    private transactionBody(node: EdiNode, depth: number): void {
+        const segments = node.children.map(child => child.segment);
+        const structure = this.schema ? getHeaderStructure(this.schema.schemaDir, node.segment) : null;
+
+        if (!structure) {
+            for (const segment of segments) {
+                this.segment(segment, depth);
+            }
+            return;
+        }
+
+        for (const child of matchTransactionStructure(segments, structure).root.children) {
+            if (isLoopInstance(child)) {
+                this.loop(child, depth);
+            } else {
+                this.segment(child, depth);
+            }
+        }
+    }
+
+    private loop(loop: LoopInstance, depth: number): void {
+        this.open(loop.id, {}, depth);
+        for (const child of loop.children) {
+            if (isLoopInstance(child)) {
+                this.loop(child, depth + 1);
+            } else {
+                this.segment(child, depth + 1);
+            }
+        }
+        this.close(loop.id, depth);
+    }
+}
+
+function formatAttributes(attributes: Record<string, string>): string {
+    return Object.entries(attributes).map(([key, value]) => ` ${key}="${escapeXml(value)}"`).join('');
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}